@@ -0,0 +1,146 @@
+#!/usr/bin/env node
+import { mkdir, writeFile } from "fs/promises";
+import path from "path";
+import { parseArgs } from "util";
+
+import { readEvents } from "./events";
+import { ENTITY_TYPES, EntityType, OUTPUT_FORMATS, OutputFormat, formatCSV, formatJSON, getRows } from "./output";
+import { createReplay } from "./replay";
+
+const USAGE = `Usage: osmosis-candles-replay <events.json|events.ndjson> [options]
+
+Replays recorded swap and pool events through the subgraph's indexing and
+prints the resulting entities.
+
+Options:
+  --format <json|csv>   Output format, json by default
+  --entity <type>       Entity to output: token, pool, pair, swap, route,
+                        candle or issue. Can be repeated or comma separated,
+                        all by default
+  --out <dir>           Write one file per entity to the directory, such as
+                        candles.csv, instead of printing to stdout
+  --quiet               Don't print warnings about skipped events
+  --help                Show this help`;
+
+/**
+ * UsageError is raised for invalid arguments, it is printed with the usage
+ */
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UsageError";
+  }
+}
+
+interface Options {
+  eventsPath: string;
+  format: OutputFormat;
+  entities: EntityType[];
+  outDir: string | null;
+  quiet: boolean;
+}
+
+/**
+ * Read the command line options
+ *
+ * @param args The command line arguments, without node and the script
+ * @returns The options, or null if help was asked for
+ */
+function readOptions(args: string[]): Options | null {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      format: { type: "string", default: "json" },
+      entity: { type: "string", multiple: true },
+      out: { type: "string" },
+      quiet: { type: "boolean", default: false },
+      help: { type: "boolean", default: false },
+    },
+  });
+  if (values.help) {
+    return null;
+  }
+  if (positionals.length !== 1) {
+    throw new UsageError("Expected one events file");
+  }
+
+  const format = values.format as OutputFormat;
+  if (!OUTPUT_FORMATS.includes(format)) {
+    throw new UsageError(`Unknown format "${values.format}"`);
+  }
+
+  let entities: EntityType[] = [...ENTITY_TYPES];
+  if (values.entity !== undefined) {
+    entities = values.entity.flatMap((value) => value.split(",")).map((value) => value.trim()) as EntityType[];
+    for (const entity of entities) {
+      if (!ENTITY_TYPES.includes(entity)) {
+        throw new UsageError(`Unknown entity "${entity}"`);
+      }
+    }
+  }
+
+  const outDir = values.out ?? null;
+  if (outDir === null && format === "csv" && entities.length !== 1) {
+    throw new UsageError("CSV is printed for one entity at a time, pass --entity or --out");
+  }
+
+  return { eventsPath: positionals[0], format, entities, outDir, quiet: values.quiet === true };
+}
+
+/**
+ * Replay the events file and output the entities
+ *
+ * @param options The command line options
+ */
+async function run(options: Options): Promise<void> {
+  const replay = createReplay();
+  for await (const event of readEvents(options.eventsPath)) {
+    replay.apply(event);
+  }
+  const result = replay.result();
+
+  if (!options.quiet) {
+    for (const warning of result.warnings) {
+      console.error(`warning: ${warning}`);
+    }
+  }
+
+  const format = options.format === "csv" ? formatCSV : formatJSON;
+  if (options.outDir !== null) {
+    await mkdir(options.outDir, { recursive: true });
+    for (const entity of options.entities) {
+      const file = path.join(options.outDir, `${entity}s.${options.format}`);
+      await writeFile(file, format(getRows(result, entity)));
+      console.error(`wrote ${file}`);
+    }
+    return;
+  }
+
+  if (options.entities.length === 1) {
+    process.stdout.write(format(getRows(result, options.entities[0])));
+    return;
+  }
+  // Several entities print as one JSON object keyed by their plural names
+  const output: Record<string, unknown> = {};
+  for (const entity of options.entities) {
+    output[`${entity}s`] = getRows(result, entity);
+  }
+  process.stdout.write(`${JSON.stringify(output, null, 2)}\n`);
+}
+
+let options: Options | null;
+try {
+  options = readOptions(process.argv.slice(2));
+} catch (error) {
+  console.error(`${(error as Error).message}\n\n${USAGE}`);
+  process.exit(2);
+}
+if (options === null) {
+  console.log(USAGE);
+} else {
+  run(options).catch((error: Error) => {
+    console.error(`${error.name}: ${error.message}`);
+    process.exit(1);
+  });
+}
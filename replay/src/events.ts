@@ -0,0 +1,211 @@
+import { createReadStream } from "fs";
+import { readFile } from "fs/promises";
+import { createInterface } from "readline";
+
+import {
+  EVENT_BURN,
+  EVENT_COINBASE,
+  EVENT_POOL_CREATED,
+  EVENT_POOL_EXITED,
+  EVENT_POOL_JOINED,
+  EVENT_TOKEN_SWAPPED
+} from "../../src/core/indexer";
+
+// The event types the subgraph handles are replayed, events of other types
+// are passed over
+export const EVENT_TYPES = [
+  EVENT_TOKEN_SWAPPED,
+  EVENT_POOL_CREATED,
+  EVENT_POOL_JOINED,
+  EVENT_POOL_EXITED,
+  EVENT_COINBASE,
+  EVENT_BURN,
+];
+
+/**
+ * ReplayEvent is a recorded event and the block and transaction it was
+ * emitted in
+ */
+export interface ReplayEvent {
+  type: string;
+  height: number;
+  // Block time in Unix seconds
+  timestamp: number;
+  // Empty for events emitted outside of a transaction, such as mints at the
+  // start of a block
+  txHash: string;
+  attributes: Map<string, string>;
+}
+
+/**
+ * EventFormatError is raised for a recorded event that can't be read, with
+ * the line or array index it was found at
+ */
+export class EventFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "EventFormatError";
+  }
+}
+
+interface RawEvent {
+  type?: string;
+  height?: number | string;
+  timestamp?: number | string;
+  txHash?: string;
+  attributes?: Record<string, string> | { key: string; value: string }[];
+}
+
+/**
+ * Read the events recorded in a file, either a JSON array of events or one
+ * event per line (NDJSON). Events are replayed in the order of the file,
+ * which should be the order they were emitted in
+ *
+ * An event looks like
+ *   {"height": 9900001, "timestamp": 1684500000, "txHash": "A1B2...",
+ *    "type": "token_swapped", "attributes": {"pool_id": "1", ...}}
+ * The type is token_swapped if it's left out, only swaps need a txHash. The
+ * attributes can also be a list of key and value pairs as Cosmos RPCs
+ * return them, and the timestamp an RFC 3339 time
+ *
+ * @param path The file to read
+ * @returns The events
+ */
+export async function* readEvents(path: string): AsyncGenerator<ReplayEvent> {
+  const firstChar = await readFirstChar(path);
+  if (firstChar === "[") {
+    const raw: unknown = JSON.parse(await readFile(path, "utf8"));
+    if (!Array.isArray(raw)) {
+      throw new EventFormatError(`${path} isn't a JSON array of events`);
+    }
+    for (let i = 0; i < raw.length; i++) {
+      const event = toReplayEvent(raw[i] as RawEvent, `${path}[${i}]`);
+      if (event !== null) {
+        yield event;
+      }
+    }
+    return;
+  }
+
+  const lines = createInterface({ input: createReadStream(path), crlfDelay: Infinity });
+  let lineNumber = 0;
+  for await (const line of lines) {
+    lineNumber++;
+    if (line.trim() === "") {
+      continue;
+    }
+    let raw: RawEvent;
+    try {
+      raw = JSON.parse(line) as RawEvent;
+    } catch (error) {
+      throw new EventFormatError(`${path}:${lineNumber} isn't JSON: ${(error as Error).message}`);
+    }
+    const event = toReplayEvent(raw, `${path}:${lineNumber}`);
+    if (event !== null) {
+      yield event;
+    }
+  }
+}
+
+/**
+ * Get the first character of a file that isn't whitespace
+ *
+ * @param path The file
+ * @returns The character, or an empty string if the file is blank
+ */
+async function readFirstChar(path: string): Promise<string> {
+  for await (const chunk of createReadStream(path, { encoding: "utf8", highWaterMark: 1024 })) {
+    const trimmed = (chunk as string).trimStart();
+    if (trimmed !== "") {
+      return trimmed.charAt(0);
+    }
+  }
+  return "";
+}
+
+/**
+ * Check and convert a recorded event
+ *
+ * @param raw The event as recorded
+ * @param location Where the event was found, for errors
+ * @returns The event, or null if it isn't of a type that is replayed
+ */
+function toReplayEvent(raw: RawEvent, location: string): ReplayEvent | null {
+  if (raw === null || typeof raw !== "object") {
+    throw new EventFormatError(`${location} isn't an event object`);
+  }
+  const type = raw.type ?? EVENT_TOKEN_SWAPPED;
+  if (!EVENT_TYPES.includes(type)) {
+    return null;
+  }
+
+  const height = Number(raw.height);
+  if (!Number.isInteger(height) || height < 0) {
+    throw new EventFormatError(`${location} has an invalid height "${raw.height}"`);
+  }
+  const timestamp = toUnixSeconds(raw.timestamp);
+  if (timestamp === null) {
+    throw new EventFormatError(`${location} has an invalid timestamp "${raw.timestamp}"`);
+  }
+  const txHash = raw.txHash ?? "";
+  if (typeof txHash !== "string" || (type === EVENT_TOKEN_SWAPPED && txHash === "")) {
+    throw new EventFormatError(`${location} has no txHash`);
+  }
+
+  return {
+    type,
+    height,
+    timestamp,
+    // Transaction hashes are uppercase hex without a prefix, as the
+    // subgraph records them
+    txHash: txHash.replace(/^0x/i, "").toUpperCase(),
+    attributes: toAttributes(raw.attributes, location),
+  };
+}
+
+/**
+ * Convert a recorded time to Unix seconds
+ *
+ * @param value Unix seconds, or an RFC 3339 time
+ * @returns The time in whole Unix seconds, or null if it can't be read
+ */
+function toUnixSeconds(value: number | string | undefined): number | null {
+  if (typeof value === "number") {
+    return Number.isFinite(value) ? Math.floor(value) : null;
+  }
+  if (typeof value !== "string" || value === "") {
+    return null;
+  }
+  if (/^\d+$/.test(value)) {
+    return Number(value);
+  }
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? null : Math.floor(time / 1000);
+}
+
+/**
+ * Convert recorded attributes to a map, the first value of a repeated key is
+ * kept as graph-node does
+ *
+ * @param raw The attributes as an object, or a list of key and value pairs
+ * @param location Where the event was found, for errors
+ * @returns The attributes
+ */
+function toAttributes(raw: RawEvent["attributes"], location: string): Map<string, string> {
+  const attributes = new Map<string, string>();
+  if (Array.isArray(raw)) {
+    for (const attribute of raw) {
+      if (!attributes.has(attribute.key)) {
+        attributes.set(attribute.key, String(attribute.value));
+      }
+    }
+    return attributes;
+  }
+  if (raw === null || typeof raw !== "object") {
+    throw new EventFormatError(`${location} has no attributes`);
+  }
+  for (const key of Object.keys(raw)) {
+    attributes.set(key, String(raw[key]));
+  }
+  return attributes;
+}
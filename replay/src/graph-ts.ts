@@ -0,0 +1,297 @@
+// The BigInt and BigDecimal of graph-ts for Node, so the subgraph's core
+// modules run outside graph-node. Decimals are kept to graph-node's 34
+// significant digits and print in plain notation like graph-node's
+
+const NativeBigInt = globalThis.BigInt;
+
+const PRECISION = 34;
+const DECIMAL_PATTERN = /^([+-])?(\d*)(?:\.(\d*))?(?:[eE]([+-]?\d+))?$/;
+
+/**
+ * Get the number of decimal digits of an integer, ignoring its sign
+ *
+ * @param value The integer
+ * @returns The number of digits
+ */
+function countDigits(value: bigint): number {
+  return (value < 0n ? -value : value).toString().length;
+}
+
+/**
+ * Get 10 to the given power
+ *
+ * @param exponent The power, not negative
+ * @returns 10^exponent
+ */
+function tenTo(exponent: number): bigint {
+  return 10n ** NativeBigInt(exponent);
+}
+
+/**
+ * Divide two integers rounding half to even
+ *
+ * @param dividend The dividend
+ * @param divisor The divisor, positive
+ * @returns The rounded quotient
+ */
+function divideRounded(dividend: bigint, divisor: bigint): bigint {
+  const negative = dividend < 0n;
+  const magnitude = negative ? -dividend : dividend;
+  let quotient = magnitude / divisor;
+  const twice = (magnitude % divisor) * 2n;
+  if (twice > divisor || (twice === divisor && quotient % 2n === 1n)) {
+    quotient += 1n;
+  }
+  return negative ? -quotient : quotient;
+}
+
+export class BigInt {
+  private readonly value: bigint;
+
+  private constructor(value: bigint) {
+    this.value = value;
+  }
+
+  static fromString(value: string): BigInt {
+    return new BigInt(NativeBigInt(value));
+  }
+
+  static fromI32(value: number): BigInt {
+    return new BigInt(NativeBigInt(value));
+  }
+
+  static fromNative(value: bigint): BigInt {
+    return new BigInt(value);
+  }
+
+  static zero(): BigInt {
+    return new BigInt(0n);
+  }
+
+  toNative(): bigint {
+    return this.value;
+  }
+
+  plus(other: BigInt): BigInt {
+    return new BigInt(this.value + other.value);
+  }
+
+  minus(other: BigInt): BigInt {
+    return new BigInt(this.value - other.value);
+  }
+
+  times(other: BigInt): BigInt {
+    return new BigInt(this.value * other.value);
+  }
+
+  div(other: BigInt): BigInt {
+    if (other.value === 0n) {
+      throw new RangeError("Division by zero");
+    }
+    return new BigInt(this.value / other.value);
+  }
+
+  mod(other: BigInt): BigInt {
+    return new BigInt(this.value % other.value);
+  }
+
+  pow(exponent: number): BigInt {
+    return new BigInt(this.value ** NativeBigInt(exponent));
+  }
+
+  neg(): BigInt {
+    return new BigInt(-this.value);
+  }
+
+  isZero(): boolean {
+    return this.value === 0n;
+  }
+
+  equals(other: BigInt): boolean {
+    return this.value === other.value;
+  }
+
+  gt(other: BigInt): boolean {
+    return this.value > other.value;
+  }
+
+  ge(other: BigInt): boolean {
+    return this.value >= other.value;
+  }
+
+  lt(other: BigInt): boolean {
+    return this.value < other.value;
+  }
+
+  le(other: BigInt): boolean {
+    return this.value <= other.value;
+  }
+
+  toBigDecimal(): BigDecimal {
+    return BigDecimal.fromParts(this.value, 0);
+  }
+
+  toI32(): number {
+    return Number(this.value);
+  }
+
+  toI64(): number {
+    return Number(this.value);
+  }
+
+  toString(): string {
+    return this.value.toString();
+  }
+
+  toJSON(): string {
+    return this.toString();
+  }
+}
+
+export class BigDecimal {
+  // The value is digits * 10^exponent
+  private readonly digits: bigint;
+  private readonly exponent: number;
+
+  private constructor(digits: bigint, exponent: number) {
+    this.digits = digits;
+    this.exponent = exponent;
+  }
+
+  /**
+   * Create a decimal rounded to the precision and without trailing zeros
+   *
+   * @param digits The digits of the decimal
+   * @param exponent The power of ten the digits are scaled by
+   * @returns The decimal
+   */
+  static fromParts(digits: bigint, exponent: number): BigDecimal {
+    if (digits === 0n) {
+      return new BigDecimal(0n, 0);
+    }
+    const excess = countDigits(digits) - PRECISION;
+    if (excess > 0) {
+      digits = divideRounded(digits, tenTo(excess));
+      exponent += excess;
+    }
+    while (digits % 10n === 0n) {
+      digits /= 10n;
+      exponent += 1;
+    }
+    return new BigDecimal(digits, exponent);
+  }
+
+  static fromString(value: string): BigDecimal {
+    const match = DECIMAL_PATTERN.exec(value.trim());
+    if (match === null || (match[2] === "" && (match[3] === undefined || match[3] === ""))) {
+      throw new SyntaxError(`Invalid decimal "${value}"`);
+    }
+    const integer = match[2];
+    const fraction = match[3] ?? "";
+    const exponent = match[4] === undefined ? 0 : Number(match[4]);
+    let digits = NativeBigInt(`${integer}${fraction}` || "0");
+    if (match[1] === "-") {
+      digits = -digits;
+    }
+    return BigDecimal.fromParts(digits, exponent - fraction.length);
+  }
+
+  static zero(): BigDecimal {
+    return new BigDecimal(0n, 0);
+  }
+
+  plus(other: BigDecimal): BigDecimal {
+    const exponent = Math.min(this.exponent, other.exponent);
+    return BigDecimal.fromParts(this.scaledTo(exponent) + other.scaledTo(exponent), exponent);
+  }
+
+  minus(other: BigDecimal): BigDecimal {
+    return this.plus(other.neg());
+  }
+
+  times(other: BigDecimal): BigDecimal {
+    return BigDecimal.fromParts(this.digits * other.digits, this.exponent + other.exponent);
+  }
+
+  div(other: BigDecimal): BigDecimal {
+    if (other.digits === 0n) {
+      throw new RangeError("Division by zero");
+    }
+    // Scale the dividend so the quotient has a digit past the precision
+    // before it's rounded
+    const shift = Math.max(0, PRECISION + 1 - countDigits(this.digits) + countDigits(other.digits));
+    let divisor = other.digits;
+    let dividend = this.digits * tenTo(shift);
+    if (divisor < 0n) {
+      divisor = -divisor;
+      dividend = -dividend;
+    }
+    return BigDecimal.fromParts(divideRounded(dividend, divisor), this.exponent - other.exponent - shift);
+  }
+
+  neg(): BigDecimal {
+    return new BigDecimal(-this.digits, this.exponent);
+  }
+
+  equals(other: BigDecimal): boolean {
+    return this.compare(other) === 0;
+  }
+
+  gt(other: BigDecimal): boolean {
+    return this.compare(other) > 0;
+  }
+
+  ge(other: BigDecimal): boolean {
+    return this.compare(other) >= 0;
+  }
+
+  lt(other: BigDecimal): boolean {
+    return this.compare(other) < 0;
+  }
+
+  le(other: BigDecimal): boolean {
+    return this.compare(other) <= 0;
+  }
+
+  toString(): string {
+    const negative = this.digits < 0n;
+    let digits = (negative ? -this.digits : this.digits).toString();
+    if (this.exponent >= 0) {
+      digits = digits + "0".repeat(this.exponent);
+    } else {
+      const point = digits.length + this.exponent;
+      digits = point > 0
+        ? `${digits.slice(0, point)}.${digits.slice(point)}`
+        : `0.${"0".repeat(-point)}${digits}`;
+    }
+    return negative ? `-${digits}` : digits;
+  }
+
+  toJSON(): string {
+    return this.toString();
+  }
+
+  /**
+   * Compare the decimal to another
+   *
+   * @param other The decimal to compare to
+   * @returns A negative number, zero or a positive number as the decimal is
+   *          less than, equal to or greater than the other
+   */
+  private compare(other: BigDecimal): number {
+    const exponent = Math.min(this.exponent, other.exponent);
+    const a = this.scaledTo(exponent);
+    const b = other.scaledTo(exponent);
+    return a === b ? 0 : a < b ? -1 : 1;
+  }
+
+  /**
+   * Get the digits of the decimal at a smaller exponent
+   *
+   * @param exponent The exponent, at most the decimal's own
+   * @returns The digits
+   */
+  private scaledTo(exponent: number): bigint {
+    return this.digits * tenTo(this.exponent - exponent);
+  }
+}
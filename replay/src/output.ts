@@ -0,0 +1,140 @@
+import { CandleRecord } from "../../src/core/store";
+import { ReplayResult } from "./replay";
+
+export const ENTITY_TYPES = ["token", "pool", "pair", "swap", "route", "candle", "issue"] as const;
+export type EntityType = (typeof ENTITY_TYPES)[number];
+
+export const OUTPUT_FORMATS = ["json", "csv"] as const;
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+type Row = Record<string, unknown>;
+
+// Arrays, such as the tokens of a swap, are joined with this in CSV cells
+const CSV_LIST_SEPARATOR = ";";
+
+/**
+ * Get the rows of an entity type, with the fields of the subgraph's entity
+ * of that type. Numbers that are BigInt or BigDecimal in the schema are
+ * strings, as graph-node returns them
+ *
+ * @param result The replay's entities
+ * @param entity The entity type
+ * @returns The rows
+ */
+export function getRows(result: ReplayResult, entity: EntityType): Row[] {
+  switch (entity) {
+    case "token":
+      return result.tokens.map(toRow);
+    case "pool":
+      return result.pools.map(toRow);
+    case "pair":
+      return result.pairs.map(toRow);
+    case "swap":
+      return result.swaps.map(toRow);
+    case "route":
+      return result.routes.map(toRow);
+    case "candle":
+      return result.candles.map(getCandleRow);
+    case "issue":
+      return result.issues.map(toRow);
+  }
+}
+
+/**
+ * Format rows as JSON
+ *
+ * @param rows The rows
+ * @returns A JSON array of the rows
+ */
+export function formatJSON(rows: Row[]): string {
+  return `${JSON.stringify(rows, null, 2)}\n`;
+}
+
+/**
+ * Format rows as CSV with a header row of the fields. Missing values are
+ * empty cells
+ *
+ * @param rows The rows, they all have the same fields
+ * @returns The CSV
+ */
+export function formatCSV(rows: Row[]): string {
+  if (rows.length === 0) {
+    return "";
+  }
+  const fields = Object.keys(rows[0]);
+  const lines = [fields.join(",")];
+  for (const row of rows) {
+    lines.push(fields.map((field) => toCSVCell(row[field])).join(","));
+  }
+  return `${lines.join("\n")}\n`;
+}
+
+/**
+ * Get the row of a candle, its state and indicators are flattened into the
+ * candle's fields
+ *
+ * @param candle The candle
+ * @returns The row
+ */
+function getCandleRow(candle: CandleRecord): Row {
+  const { state, indicators } = candle;
+  return toRow({
+    id: candle.id,
+    poolId: candle.poolId,
+    pool: candle.pool,
+    poolType: candle.poolType,
+    pair: candle.pair,
+    base: candle.base,
+    quote: candle.quote,
+    interval: candle.interval,
+    timestamp: candle.timestamp,
+    open: state.open,
+    high: state.high,
+    low: state.low,
+    close: state.close,
+    baseVolume: state.baseVolume,
+    quoteVolume: state.quoteVolume,
+    volumeUSD: state.volumeUSD,
+    tradeCount: state.tradeCount,
+    filteredTradeCount: state.filteredTradeCount,
+    vwap: state.vwap,
+    fees: state.fees,
+    feesUSD: state.feesUSD,
+    maxPriceImpact: state.maxPriceImpact,
+    firstTradeTimestamp: state.firstTradeTimestamp,
+    lastTradeTimestamp: state.lastTradeTimestamp,
+    ema9: indicators.ema9,
+    ema21: indicators.ema21,
+    ema50: indicators.ema50,
+    sma20: indicators.sma20,
+    rsi14: indicators.rsi14,
+    bollingerWidth: indicators.bollingerWidth,
+    previous: candle.previous,
+    skippedFrom: candle.skippedFrom,
+    isClosed: candle.isClosed,
+  });
+}
+
+/**
+ * Convert a record to a row of plain values
+ *
+ * @param record The record
+ * @returns The row
+ */
+function toRow(record: object): Row {
+  return JSON.parse(JSON.stringify(record)) as Row;
+}
+
+/**
+ * Format a value as a CSV cell, quoting it if it needs to be
+ *
+ * @param value The value
+ * @returns The cell
+ */
+function toCSVCell(value: unknown): string {
+  if (value === null || value === undefined) {
+    return "";
+  }
+  const text = Array.isArray(value) ? value.join(CSV_LIST_SEPARATOR) : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
@@ -0,0 +1,12 @@
+// The subgraph's core modules are written in AssemblyScript's subset of
+// TypeScript, its integer types are plain numbers when they run on Node
+type i8 = number;
+type i16 = number;
+type i32 = number;
+type i64 = number;
+type u8 = number;
+type u16 = number;
+type u32 = number;
+type u64 = number;
+type f32 = number;
+type f64 = number;
@@ -0,0 +1,181 @@
+import { BigInt } from "@graphprotocol/graph-ts";
+
+import {
+  EVENT_BURN,
+  EVENT_COINBASE,
+  EVENT_POOL_CREATED,
+  EVENT_POOL_EXITED,
+  EVENT_POOL_JOINED,
+  EVENT_TOKEN_SWAPPED,
+  indexBlock,
+  indexPoolCreated,
+  indexPoolExited,
+  indexPoolJoined,
+  indexPoolShares,
+  indexSwap
+} from "../../src/core/indexer";
+import { CandleRecord, EventBlock, PairRecord, PoolRecord, RouteRecord, SwapRecord, TokenRecord } from "../../src/core/store";
+import { ISSUE_INVALID_SWAP_FEE, ISSUE_UNPRICED_USD_CANDLES, validateSwap } from "../../src/core/validation";
+import { ReplayEvent } from "./events";
+import { MemoryStore } from "./store";
+
+// The replay's events don't record their transaction's index in the block,
+// so its issues have no txIndex
+export interface IssueRecord {
+  id: string;
+  height: BigInt;
+  timestamp: BigInt;
+  txHash: string;
+  eventIndex: number;
+  eventType: string;
+  attributes: string[];
+  reason: string;
+  message: string;
+  isRejected: boolean;
+  swap: string | null;
+}
+
+/**
+ * ReplayResult holds the entities a replay produced, in the order they were
+ * first created
+ */
+export interface ReplayResult {
+  tokens: TokenRecord[];
+  pools: PoolRecord[];
+  pairs: PairRecord[];
+  swaps: SwapRecord[];
+  routes: RouteRecord[];
+  candles: CandleRecord[];
+  // The events that were rejected or only partly indexed
+  issues: IssueRecord[];
+  // What the subgraph would log: events that were passed over and candle
+  // gaps too large to fill
+  warnings: string[];
+}
+
+/**
+ * Replay runs events through the subgraph's indexing in memory
+ */
+export interface Replay {
+  apply(event: ReplayEvent): void;
+  result(): ReplayResult;
+}
+
+/**
+ * Create a replay. Its entities start empty, as the subgraph's do at its
+ * start block
+ *
+ * Events are indexed by the same core as in the subgraph's handlers. The
+ * replay keeps what the core indexes and the indexing issues, but not the
+ * subgraph's transactions, stats, accounts or tickers
+ *
+ * @returns The replay
+ */
+export function createReplay(): Replay {
+  const store = new MemoryStore();
+  // The swap events seen of each transaction
+  const transactionSwapCounts = new Map<string, number>();
+  const issues: IssueRecord[] = [];
+  let lastEventHeight = -1;
+  let lastBlockHeight = -1;
+  let blockSwapEventCount = 0;
+
+  function apply(event: ReplayEvent): void {
+    const block = new EventBlock(BigInt.fromI32(event.height), BigInt.fromI32(event.timestamp));
+    // The subgraph's block handler sees every block, the replay only those
+    // with events, which is enough to close candles up to each event
+    if (event.height !== lastBlockHeight) {
+      lastBlockHeight = event.height;
+      indexBlock(store, block);
+    }
+    switch (event.type) {
+      case EVENT_TOKEN_SWAPPED:
+        applySwap(event, block);
+        break;
+      case EVENT_POOL_CREATED:
+        indexPoolCreated(store, block, event.attributes);
+        break;
+      case EVENT_POOL_JOINED:
+        indexPoolJoined(store, block, event.attributes);
+        break;
+      case EVENT_POOL_EXITED:
+        indexPoolExited(store, block, event.attributes);
+        break;
+      case EVENT_COINBASE:
+        indexPoolShares(store, block, event.attributes, false);
+        break;
+      case EVENT_BURN:
+        indexPoolShares(store, block, event.attributes, true);
+        break;
+    }
+  }
+
+  /**
+   * Mirrors handleSwap: the swap is validated, indexed, and its issues are
+   * recorded
+   */
+  function applySwap(event: ReplayEvent, block: EventBlock): void {
+    if (event.height !== lastEventHeight) {
+      lastEventHeight = event.height;
+      blockSwapEventCount = 0;
+    }
+    const eventIndex = blockSwapEventCount++;
+    const txEventIndex = transactionSwapCounts.get(event.txHash) ?? 0;
+    transactionSwapCounts.set(event.txHash, txEventIndex + 1);
+
+    const validation = validateSwap(event.attributes);
+    if (!validation.isValid()) {
+      store.warn(`${event.txHash} at height ${event.height}: ${validation.message}`);
+      recordIssue(event, eventIndex, validation.reason, validation.message, null);
+      return;
+    }
+
+    const indexed = indexSwap(store, block, event.txHash, txEventIndex, validation, event.attributes);
+    if (indexed.swapFeeError !== "") {
+      recordIssue(event, eventIndex, ISSUE_INVALID_SWAP_FEE, indexed.swapFeeError, indexed.swap.id);
+    }
+    // Only the first swap of an unpriced token is recorded, like the subgraph
+    const unpricedIssueId = `${ISSUE_UNPRICED_USD_CANDLES}-${indexed.tokenIn.denom}`;
+    if (indexed.isTrade && !indexed.hasUSDCandles && !issues.some((issue) => issue.id === unpricedIssueId)) {
+      recordIssue(event, eventIndex, ISSUE_UNPRICED_USD_CANDLES, `${indexed.tokenIn.denom} has no USD price`, indexed.swap.id, unpricedIssueId);
+    }
+  }
+
+  function result(): ReplayResult {
+    return {
+      tokens: [...store.tokens.values()],
+      pools: [...store.pools.values()],
+      pairs: [...store.pairs.values()],
+      swaps: [...store.swaps.values()],
+      routes: [...store.routes.values()],
+      candles: [...store.candles.values()],
+      issues,
+      warnings: store.warnings,
+    };
+  }
+
+  function recordIssue(
+    event: ReplayEvent,
+    eventIndex: number,
+    reason: string,
+    message: string,
+    swapId: string | null,
+    id = `${event.height}-${eventIndex}-${reason}`
+  ): void {
+    issues.push({
+      id,
+      height: BigInt.fromI32(event.height),
+      timestamp: BigInt.fromI32(event.timestamp),
+      txHash: event.txHash,
+      eventIndex,
+      eventType: event.type,
+      attributes: [...event.attributes].map(([key, value]) => `${key}=${value}`),
+      reason,
+      message,
+      isRejected: swapId === null,
+      swap: swapId,
+    });
+  }
+
+  return { apply, result };
+}
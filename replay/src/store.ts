@@ -0,0 +1,187 @@
+import { BigDecimal, BigInt } from "@graphprotocol/graph-ts";
+
+import {
+  CandleCloseQueueRecord,
+  CandleCloseRecord,
+  CandleRecord,
+  CandleSeriesRecord,
+  PairRecord,
+  PoolAssetRecord,
+  PoolRecord,
+  PriceSourceRecord,
+  RouteRecord,
+  Store,
+  SwapRecord,
+  TokenPriceRecord,
+  TokenRecord
+} from "../../src/core/store";
+
+/**
+ * MemoryStore keeps the core's records in memory, in the order they were
+ * first saved
+ *
+ * Records are copied as they are loaded and saved, as graph-node copies
+ * entities, so a record changed after it was saved isn't changed in the
+ * store until it is saved again
+ */
+export class MemoryStore extends Store {
+  readonly tokens = new Map<string, TokenRecord>();
+  readonly priceSources = new Map<string, PriceSourceRecord>();
+  readonly tokenPrices = new Map<string, TokenPriceRecord>();
+  readonly pools = new Map<string, PoolRecord>();
+  readonly poolAssets = new Map<string, PoolAssetRecord>();
+  readonly pairs = new Map<string, PairRecord>();
+  readonly swaps = new Map<string, SwapRecord>();
+  readonly routes = new Map<string, RouteRecord>();
+  readonly candleSeries = new Map<string, CandleSeriesRecord>();
+  readonly candles = new Map<string, CandleRecord>();
+  readonly candleCloses = new Map<string, CandleCloseRecord>();
+  readonly candleCloseQueues = new Map<string, CandleCloseQueueRecord>();
+  // What the subgraph would log: events that were passed over and candle
+  // gaps too large to fill
+  readonly warnings: string[] = [];
+
+  loadToken(id: string): TokenRecord | null {
+    return load(this.tokens, id);
+  }
+
+  saveToken(token: TokenRecord): void {
+    save(this.tokens, token);
+  }
+
+  loadPriceSource(id: string): PriceSourceRecord | null {
+    return load(this.priceSources, id);
+  }
+
+  savePriceSource(source: PriceSourceRecord): void {
+    save(this.priceSources, source);
+  }
+
+  saveTokenPrice(price: TokenPriceRecord): void {
+    save(this.tokenPrices, price);
+  }
+
+  loadPool(id: string): PoolRecord | null {
+    return load(this.pools, id);
+  }
+
+  savePool(pool: PoolRecord): void {
+    save(this.pools, pool);
+  }
+
+  loadPoolAsset(id: string): PoolAssetRecord | null {
+    return load(this.poolAssets, id);
+  }
+
+  savePoolAsset(asset: PoolAssetRecord): void {
+    save(this.poolAssets, asset);
+  }
+
+  loadPair(id: string): PairRecord | null {
+    return load(this.pairs, id);
+  }
+
+  savePair(pair: PairRecord): void {
+    save(this.pairs, pair);
+  }
+
+  loadSwap(id: string): SwapRecord | null {
+    return load(this.swaps, id);
+  }
+
+  saveSwap(swap: SwapRecord): void {
+    save(this.swaps, swap);
+  }
+
+  loadRoute(id: string): RouteRecord | null {
+    return load(this.routes, id);
+  }
+
+  saveRoute(route: RouteRecord): void {
+    save(this.routes, route);
+  }
+
+  loadCandleSeries(id: string): CandleSeriesRecord | null {
+    return load(this.candleSeries, id);
+  }
+
+  saveCandleSeries(series: CandleSeriesRecord): void {
+    save(this.candleSeries, series);
+  }
+
+  loadCandle(id: string): CandleRecord | null {
+    return load(this.candles, id);
+  }
+
+  saveCandle(candle: CandleRecord): void {
+    save(this.candles, candle);
+  }
+
+  loadCandleClose(id: string): CandleCloseRecord | null {
+    return load(this.candleCloses, id);
+  }
+
+  saveCandleClose(close: CandleCloseRecord): void {
+    save(this.candleCloses, close);
+  }
+
+  removeCandleClose(id: string): void {
+    this.candleCloses.delete(id);
+  }
+
+  loadCandleCloseQueue(id: string): CandleCloseQueueRecord | null {
+    return load(this.candleCloseQueues, id);
+  }
+
+  saveCandleCloseQueue(queue: CandleCloseQueueRecord): void {
+    save(this.candleCloseQueues, queue);
+  }
+
+  warn(message: string): void {
+    this.warnings.push(message);
+  }
+}
+
+/**
+ * Load a copy of a record
+ *
+ * @param records The records of its type
+ * @param id The record ID
+ * @returns A copy of the record, or null if it hasn't been saved
+ */
+function load<T extends object>(records: Map<string, T>, id: string): T | null {
+  const record = records.get(id);
+  return record !== undefined ? copy(record) : null;
+}
+
+/**
+ * Save a copy of a record, a record that was already saved keeps its place
+ * in the order
+ *
+ * @param records The records of its type
+ * @param record The record
+ */
+function save<T extends { id: string }>(records: Map<string, T>, record: T): void {
+  records.set(record.id, copy(record));
+}
+
+/**
+ * Copy a record and the arrays and objects it holds. BigInt and BigDecimal
+ * values can't be changed, so they are shared
+ *
+ * @param value The value to copy
+ * @returns The copy
+ */
+function copy<T>(value: T): T {
+  if (Array.isArray(value)) {
+    return value.map(copy) as T;
+  }
+  if (value === null || typeof value !== "object" || value instanceof BigInt || value instanceof BigDecimal) {
+    return value;
+  }
+  const copied = Object.create(Object.getPrototypeOf(value)) as Record<string, unknown>;
+  for (const [key, field] of Object.entries(value)) {
+    copied[key] = copy(field);
+  }
+  return copied as T;
+}
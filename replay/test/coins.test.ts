@@ -0,0 +1,40 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+
+import { parseCoins, validateDenom } from "../../src/core/coins";
+
+const ATOM = "ibc/27394FB092D2ECCD56123C74F36E4C1F926001CEADA9CA97EA622B25F41E5EB2";
+
+test("parses comma separated coins with IBC and pool share denoms", () => {
+  const result = parseCoins(`1000uosmo, 5678${ATOM},1gamm/pool/1`);
+  assert.ok(result.isValid());
+  assert.deepEqual(
+    result.coins.map((coin) => [coin.amount.toString(), coin.denom]),
+    [["1000", "uosmo"], ["5678", ATOM], ["1", "gamm/pool/1"]]
+  );
+});
+
+test("keeps amounts past 64 bits exact", () => {
+  assert.equal(parseCoins("123456789012345678901234567890gamm/pool/1").coins[0].amount.toString(), "123456789012345678901234567890");
+});
+
+test("parses zero amounts, rejecting them is up to the caller", () => {
+  assert.equal(parseCoins("0uosmo").coins[0].amount.toString(), "0");
+});
+
+test("rejects malformed coin strings", () => {
+  assert.equal(parseCoins("").error, "empty coin string");
+  assert.equal(parseCoins("uosmo").error, 'coin "uosmo" has no amount');
+  assert.equal(parseCoins("1.5uosmo").error, 'coin "1.5uosmo" has a decimal amount');
+  assert.equal(parseCoins("1000uosmo,").error, 'coin "" has no amount');
+  assert.equal(parseCoins("1000").error, 'coin "1000" has a denom of invalid length 0');
+});
+
+test("checks denoms against the Cosmos SDK grammar", () => {
+  assert.equal(validateDenom("uosmo"), "");
+  assert.equal(validateDenom("factory/osmo1abc/my.token_v2-x:y"), "");
+  assert.equal(validateDenom("ab"), "has a denom of invalid length 2");
+  assert.equal(validateDenom("a".repeat(129)), "has a denom of invalid length 129");
+  assert.equal(validateDenom("1osmo"), 'has a denom "1osmo" that doesn\'t start with a letter');
+  assert.equal(validateDenom("u osmo"), 'has a denom "u osmo" with invalid character " "');
+});
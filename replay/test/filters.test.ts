@@ -0,0 +1,50 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+
+import { BigDecimal } from "@graphprotocol/graph-ts";
+
+import { FILTER_DUST_QUOTE, FILTER_DUST_USD, FILTER_PRICE_DEVIATION, getFilterReason } from "../../src/core/filters";
+
+// A swap of 1 ION for amountOut OSMO with a 1 USD minimum notional, a 1 OSMO
+// minimum and a 10% maximum deviation from the close
+function getReason(amountUSD: string | null, amountOut: string, close: string | null, maxCloseDeviation = "0.1"): string | null {
+  return getFilterReason(
+    amountUSD === null ? null : BigDecimal.fromString(amountUSD),
+    "uion",
+    BigDecimal.fromString("1"),
+    "uosmo",
+    BigDecimal.fromString(amountOut),
+    BigDecimal.fromString(amountOut),
+    close === null ? null : BigDecimal.fromString(close),
+    "1",
+    maxCloseDeviation,
+    new Map([["uosmo", "1"]])
+  );
+}
+
+test("filters swaps worth less than the minimum notional", () => {
+  assert.equal(getReason("0.99", "2", null), FILTER_DUST_USD);
+  assert.equal(getReason("1", "2", null), null);
+});
+
+test("filters unpriced swaps on the minimum of either denom", () => {
+  assert.equal(getReason(null, "0.5", null), FILTER_DUST_QUOTE);
+  // A zero USD value is taken as unpriced
+  assert.equal(getReason("0", "0.5", null), FILTER_DUST_QUOTE);
+  assert.equal(getReason(null, "1", null), null);
+});
+
+test("filters swaps too far from the close in either direction", () => {
+  assert.equal(getReason("10", "11", "10"), null);
+  assert.equal(getReason("10", "11.01", "10"), FILTER_PRICE_DEVIATION);
+  assert.equal(getReason("10", "8.99", "10"), FILTER_PRICE_DEVIATION);
+});
+
+test("doesn't check the deviation without a close or a maximum", () => {
+  assert.equal(getReason("10", "100", null), null);
+  assert.equal(getReason("10", "100", "10", "0"), null);
+});
+
+test("filters dust before checking the deviation", () => {
+  assert.equal(getReason("0.5", "100", "10"), FILTER_DUST_USD);
+});
@@ -0,0 +1,74 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+
+import { BigDecimal } from "@graphprotocol/graph-ts";
+
+import { IndicatorState, Indicators, closeIndicators, computeIndicators } from "../../src/core/indicators";
+import { sqrt } from "../../src/core/math";
+
+/**
+ * Close a candle at each of the closes in turn
+ *
+ * @param closes The closes of the candles
+ * @returns The final indicators of each candle
+ */
+function closeCandles(closes: number[]): Indicators[] {
+  const state = new IndicatorState();
+  return closes.map((close) => closeIndicators(state, BigDecimal.fromString(close.toString())));
+}
+
+/**
+ * Assert a decimal is within 1e-20 of a number
+ */
+function assertClose(actual: BigDecimal | null, expected: string): void {
+  assert.ok(actual !== null);
+  const difference = actual.minus(BigDecimal.fromString(expected));
+  assert.ok(difference.lt(BigDecimal.fromString("1e-20")) && difference.gt(BigDecimal.fromString("-1e-20")), `${actual} != ${expected}`);
+}
+
+test("seeds the EMAs with the first close", () => {
+  const [first] = closeCandles([4]);
+  assert.equal(first.ema9.toString(), "4");
+  assert.equal(first.ema50.toString(), "4");
+  assert.equal(first.sma20, null);
+  assert.equal(first.rsi14, null);
+});
+
+test("averages the SMA over the latest 20 closes", () => {
+  const indicators = closeCandles(Array.from({ length: 22 }, (_, i) => i + 1));
+  assert.equal(indicators[18].sma20, null);
+  assert.equal(indicators[19].sma20?.toString(), "10.5");
+  assert.equal(indicators[21].sma20?.toString(), "12.5");
+});
+
+test("computes the Bollinger band width when a candle closes", () => {
+  const indicators = closeCandles(Array.from({ length: 20 }, (_, i) => i + 1));
+  // The standard deviation of 1 to 20 is the square root of 33.25, the
+  // bands are 4 of them wide around an SMA of 10.5
+  assertClose(indicators[19].bollingerWidth, "2.196678589461103978924606331203404");
+});
+
+test("leaves the Bollinger band width empty while a candle is open", () => {
+  const state = new IndicatorState();
+  for (let close = 1; close < 20; close++) {
+    closeIndicators(state, BigDecimal.fromString(close.toString()));
+  }
+  const open = computeIndicators(state, BigDecimal.fromString("20"));
+  assert.equal(open.sma20?.toString(), "10.5");
+  assert.equal(open.bollingerWidth, null);
+  assert.equal(state.count, 19);
+});
+
+test("starts the RSI after 14 changes", () => {
+  const indicators = closeCandles([1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15, 14]);
+  assert.equal(indicators[13].rsi14, null);
+  assert.equal(indicators[14].rsi14?.toString(), "100");
+  // Wilder's smoothing: the gain averages 13/14, the loss 1/14
+  assertClose(indicators[15].rsi14, "92.85714285714285714285714285714286");
+});
+
+test("finds square roots to the decimal precision", () => {
+  assertClose(sqrt(BigDecimal.fromString("2")), "1.414213562373095048801688724209698");
+  assertClose(sqrt(BigDecimal.fromString("0.0000000001")), "0.00001");
+  assert.equal(sqrt(BigDecimal.fromString("0")).toString(), "0");
+});
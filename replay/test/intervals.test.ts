@@ -0,0 +1,62 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+
+import { getInterval, getIntervalName, getNextInterval, getPreviousInterval } from "../../src/core/intervals";
+import { TIMEFRAME_DAY, TIMEFRAME_HOUR, TIMEFRAME_MINUTE, TIMEFRAME_MONTH, TIMEFRAME_WEEK } from "../../src/types";
+
+// Friday 2023-05-19 13:47:31, months are zero based as in Date.UTC
+const FRIDAY = Date.UTC(2023, 4, 19, 13, 47, 31) / 1000;
+
+test("names intervals after their timeframe and divisor", () => {
+  assert.equal(getIntervalName(TIMEFRAME_HOUR, 4), "HOUR_4");
+  assert.equal(getIntervalName(TIMEFRAME_MONTH, 1), "MONTH_1");
+});
+
+test("starts minute, hour and day intervals at multiples of their divisor", () => {
+  assert.equal(getInterval(FRIDAY, TIMEFRAME_MINUTE, 1), Date.UTC(2023, 4, 19, 13, 47) / 1000);
+  assert.equal(getInterval(FRIDAY, TIMEFRAME_MINUTE, 15), Date.UTC(2023, 4, 19, 13, 45) / 1000);
+  assert.equal(getInterval(FRIDAY, TIMEFRAME_HOUR, 4), Date.UTC(2023, 4, 19, 12) / 1000);
+  assert.equal(getInterval(FRIDAY, TIMEFRAME_DAY, 1), Date.UTC(2023, 4, 19) / 1000);
+});
+
+test("starts weeks on Monday", () => {
+  assert.equal(getInterval(FRIDAY, TIMEFRAME_WEEK, 1), Date.UTC(2023, 4, 15) / 1000);
+  // Sunday is the last day of the week
+  assert.equal(getInterval(Date.UTC(2023, 4, 21, 23, 59, 59) / 1000, TIMEFRAME_WEEK, 1), Date.UTC(2023, 4, 15) / 1000);
+  assert.equal(getInterval(Date.UTC(2023, 4, 22) / 1000, TIMEFRAME_WEEK, 1), Date.UTC(2023, 4, 22) / 1000);
+});
+
+test("anchors multi-week intervals to the first Monday after the epoch", () => {
+  // 2023-05-15 is 2784 weeks after 1970-01-05
+  assert.equal(getInterval(Date.UTC(2023, 4, 24) / 1000, TIMEFRAME_WEEK, 2), Date.UTC(2023, 4, 15) / 1000);
+  assert.equal(getInterval(Date.UTC(2023, 4, 29) / 1000, TIMEFRAME_WEEK, 2), Date.UTC(2023, 4, 29) / 1000);
+  assert.equal(getInterval(FRIDAY, TIMEFRAME_WEEK, 5), Date.UTC(2023, 3, 17) / 1000);
+});
+
+test("starts months on the first of the calendar month", () => {
+  assert.equal(getInterval(FRIDAY, TIMEFRAME_MONTH, 1), Date.UTC(2023, 4, 1) / 1000);
+  // Multi-month intervals start at multiples of the divisor from January
+  assert.equal(getInterval(FRIDAY, TIMEFRAME_MONTH, 3), Date.UTC(2023, 3, 1) / 1000);
+  assert.equal(getInterval(Date.UTC(2023, 11, 31, 23, 59, 59) / 1000, TIMEFRAME_MONTH, 6), Date.UTC(2023, 6, 1) / 1000);
+});
+
+test("steps to the next interval", () => {
+  assert.equal(getNextInterval(Date.UTC(2023, 4, 19, 13, 45) / 1000, TIMEFRAME_MINUTE, 15), Date.UTC(2023, 4, 19, 14) / 1000);
+  assert.equal(getNextInterval(Date.UTC(2023, 4, 15) / 1000, TIMEFRAME_WEEK, 2), Date.UTC(2023, 4, 29) / 1000);
+});
+
+test("steps months by the calendar", () => {
+  assert.equal(getNextInterval(Date.UTC(2024, 0, 1) / 1000, TIMEFRAME_MONTH, 1), Date.UTC(2024, 1, 1) / 1000);
+  // February 2024 has 29 days
+  assert.equal(getNextInterval(Date.UTC(2024, 1, 1) / 1000, TIMEFRAME_MONTH, 1), Date.UTC(2024, 2, 1) / 1000);
+  assert.equal(getNextInterval(Date.UTC(2023, 9, 1) / 1000, TIMEFRAME_MONTH, 3), Date.UTC(2024, 0, 1) / 1000);
+  assert.equal(getNextInterval(Date.UTC(2023, 11, 1) / 1000, TIMEFRAME_MONTH, 1), Date.UTC(2024, 0, 1) / 1000);
+});
+
+test("steps back a number of intervals", () => {
+  assert.equal(getPreviousInterval(Date.UTC(2023, 4, 19, 14) / 1000, TIMEFRAME_MINUTE, 15, 4), Date.UTC(2023, 4, 19, 13) / 1000);
+  assert.equal(getPreviousInterval(Date.UTC(2023, 4, 29) / 1000, TIMEFRAME_WEEK, 2, 1), Date.UTC(2023, 4, 15) / 1000);
+  // Months step back across years by the calendar
+  assert.equal(getPreviousInterval(Date.UTC(2024, 1, 1) / 1000, TIMEFRAME_MONTH, 1, 14), Date.UTC(2022, 11, 1) / 1000);
+  assert.equal(getPreviousInterval(Date.UTC(2024, 0, 1) / 1000, TIMEFRAME_MONTH, 3, 1000), Date.UTC(1774, 0, 1) / 1000);
+});
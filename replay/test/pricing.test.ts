@@ -0,0 +1,58 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+
+import { BigDecimal, BigInt } from "@graphprotocol/graph-ts";
+
+import { convertTokenToDecimal, safeDiv } from "../../src/core/math";
+import { getValueUSD, isAnchor, isStablecoin } from "../../src/core/pricing";
+import { getExecutionPrice, getPriceImpact } from "../../src/core/swaps";
+import { getPoolSharePrice } from "../../src/core/tokens";
+
+const USDC = "ibc/D189335C6E4A68B513C10AB227BF1C1D38C746766278BA3EEB4FB14124F1D858";
+const ZERO = BigDecimal.zero();
+const HALF = BigDecimal.fromString("0.5");
+
+test("converts base units to display units exactly", () => {
+  assert.equal(convertTokenToDecimal(BigInt.fromString("1500000"), 6).toString(), "1.5");
+  assert.equal(convertTokenToDecimal(BigInt.fromString("1"), 18).toString(), "0.000000000000000001");
+  assert.equal(convertTokenToDecimal(BigInt.fromString("123456789012345678901234567890"), 18).toString(), "123456789012.34567890123456789");
+  assert.equal(convertTokenToDecimal(BigInt.fromString("42"), 0).toString(), "42");
+});
+
+test("divides by zero to zero", () => {
+  assert.equal(safeDiv(BigDecimal.fromString("1"), BigDecimal.fromString("4")).toString(), "0.25");
+  assert.equal(safeDiv(BigDecimal.fromString("1"), ZERO).toString(), "0");
+});
+
+test("prices swaps at the amount out per amount in and measures their impact", () => {
+  assert.equal(getExecutionPrice(BigDecimal.fromString("100"), BigDecimal.fromString("49.5")).toString(), "0.495");
+  assert.equal(getExecutionPrice(ZERO, BigDecimal.fromString("49.5")).toString(), "0");
+  assert.equal(getPriceImpact(HALF, BigDecimal.fromString("0.495")).toString(), "0.01");
+  // A better price than the previous swap has a negative impact
+  assert.equal(getPriceImpact(HALF, BigDecimal.fromString("0.51")).toString(), "-0.02");
+});
+
+test("values trades from the quote side first", () => {
+  const base = BigDecimal.fromString("100");
+  const quote = BigDecimal.fromString("49");
+  assert.equal(getValueUSD(base, HALF, quote, BigDecimal.fromString("1")).toString(), "49");
+  assert.equal(getValueUSD(base, HALF, quote, null).toString(), "50");
+  assert.equal(getValueUSD(base, null, quote, null).toString(), "0");
+});
+
+test("anchors prices to OSMO in any pool and stablecoins in stablecoin pools", () => {
+  assert.ok(isStablecoin(USDC));
+  assert.equal(isStablecoin("uosmo"), false);
+  assert.ok(isAnchor("uosmo", "1"));
+  assert.ok(isAnchor(USDC, "678"));
+  assert.equal(isAnchor(USDC, "1"), false);
+  assert.equal(isAnchor("uion", "678"), false);
+});
+
+test("prices LP shares at the pool's TVL over its shares", () => {
+  // 100 shares of 18 decimals
+  const shares = BigInt.fromString("100000000000000000000");
+  assert.equal(getPoolSharePrice(BigDecimal.fromString("2500"), shares)?.toString(), "25");
+  assert.equal(getPoolSharePrice(ZERO, shares), null);
+  assert.equal(getPoolSharePrice(BigDecimal.fromString("2500"), BigInt.zero()), null);
+});
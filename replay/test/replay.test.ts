@@ -0,0 +1,242 @@
+import assert from "node:assert/strict";
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import { test } from "node:test";
+
+import { POOL_SNAPSHOT_RESERVES, POOL_SNAPSHOT_SHARES, START_BLOCK } from "../../src/network";
+import { ReplayEvent, readEvents } from "../src/events";
+import { formatCSV, getRows } from "../src/output";
+import { ReplayResult, createReplay } from "../src/replay";
+
+const FIXTURES = path.join(__dirname, "fixtures");
+const USDC = "ibc/D189335C6E4A68B513C10AB227BF1C1D38C746766278BA3EEB4FB14124F1D858";
+
+/**
+ * Replay a fixture's events
+ *
+ * @param name The fixture file
+ * @returns The replay's entities
+ */
+async function replayFixture(name: string): Promise<ReplayResult> {
+  const replay = createReplay();
+  for await (const event of readEvents(path.join(FIXTURES, name))) {
+    replay.apply(event);
+  }
+  return replay.result();
+}
+
+test("replays swaps into the expected candles", async () => {
+  const result = await replayFixture("swaps.ndjson");
+  const expected = await readFile(path.join(FIXTURES, "swaps.candles.csv"), "utf8");
+  assert.equal(formatCSV(getRows(result, "candle")), expected);
+});
+
+test("fills the minutes a pair didn't trade with flat candles", async () => {
+  const result = await replayFixture("swaps.ndjson");
+  const candles = getRows(result, "candle")
+    .filter((candle) => candle.pair === `uosmo-${USDC}-678` && candle.interval === "MINUTE_1")
+    .map(({ timestamp, open, high, low, close, baseVolume, quoteVolume, tradeCount, isClosed }) => ({
+      timestamp, open, high, low, close, baseVolume, quoteVolume, tradeCount, isClosed,
+    }));
+
+  assert.deepEqual(candles, [
+    // 100 OSMO for 50 USDC, then 200 OSMO for 99 USDC
+    { timestamp: "1684500000", open: "0.5", high: "0.5", low: "0.495", close: "0.495", baseVolume: "300", quoteVolume: "149", tradeCount: 2, isClosed: true },
+    { timestamp: "1684500060", open: "0.495", high: "0.495", low: "0.495", close: "0.495", baseVolume: "0", quoteVolume: "0", tradeCount: 0, isClosed: true },
+    // 60 USDC for 120 OSMO
+    { timestamp: "1684500120", open: "0.495", high: "0.5", low: "0.495", close: "0.5", baseVolume: "120", quoteVolume: "60", tradeCount: 1, isClosed: false },
+  ]);
+});
+
+test("indexes pool events alongside the swaps", async () => {
+  const result = await replayFixture("swaps.ndjson");
+  const pool = getRows(result, "pool").find((row) => row.id === "678");
+  assert.ok(pool !== undefined);
+  assert.equal(pool.createdAtHeight, "100");
+  assert.equal(pool.joinCount, 1);
+  assert.equal(pool.swapCount, 3);
+});
+
+/**
+ * Create an event of a pool
+ *
+ * @param type The event type
+ * @param height The block height, each event is in a transaction of its own
+ * @param poolId The pool ID
+ * @param attributes The other event attributes
+ * @returns The event
+ */
+function poolEvent(type: string, height: number, poolId: string, attributes: Record<string, string>): ReplayEvent {
+  return { type, height, timestamp: 1684500000 + height, txHash: `B${height}`, attributes: new Map(Object.entries({ pool_id: poolId, ...attributes })) };
+}
+
+// Pool 1 was created before the start block
+const POOL_1_EVENTS = [
+  poolEvent("token_swapped", 1, "1", { module: "gamm", sender: "osmo1a", tokens_in: "100000000uosmo", tokens_out: `40000000${USDC}` }),
+  poolEvent("burn", 2, "1", { burner: "osmo1gamm", amount: "1000000000000000000gamm/pool/1" }),
+];
+
+test("leaves the reserves of pools created before the start block unknown", () => {
+  const replay = createReplay();
+  POOL_1_EVENTS.forEach((event) => replay.apply(event));
+  const pool = getRows(replay.result(), "pool").find((row) => row.id === "1");
+  assert.ok(pool !== undefined);
+  assert.equal(pool.trackedFromHeight, null);
+  assert.equal(pool.totalShares, null);
+  assert.equal(pool.tvlUSD, null);
+  assert.equal(pool.netSharesMinted, "-1000000000000000000");
+});
+
+test("seeds pools created before the start block from their snapshot", () => {
+  POOL_SNAPSHOT_SHARES.set("1", "100000000000000000000");
+  POOL_SNAPSHOT_RESERVES.set("1", `1000000000uosmo,500000000${USDC}`);
+  try {
+    const replay = createReplay();
+    POOL_1_EVENTS.forEach((event) => replay.apply(event));
+    const pool = getRows(replay.result(), "pool").find((row) => row.id === "1");
+    assert.ok(pool !== undefined);
+    assert.equal(pool.trackedFromHeight, START_BLOCK);
+    assert.equal(pool.totalShares, "99000000000000000000");
+    // OSMO has no USD price without a stablecoin pool, so only the 460 USDC
+    // left are counted
+    assert.equal(pool.tvlUSD, "460");
+  } finally {
+    POOL_SNAPSHOT_SHARES.delete("1");
+    POOL_SNAPSHOT_RESERVES.delete("1");
+  }
+});
+
+test("counts the shares minted before a pool's pool_created event", () => {
+  const replay = createReplay();
+  replay.apply(poolEvent("coinbase", 1, "1", { minter: "osmo1gamm", amount: "100000000000000000000gamm/pool/1" }));
+  replay.apply(poolEvent("pool_created", 1, "1", { module: "gamm" }));
+  const pool = getRows(replay.result(), "pool").find((row) => row.id === "1");
+  assert.ok(pool !== undefined);
+  assert.equal(pool.trackedFromHeight, "1");
+  assert.equal(pool.totalShares, "100000000000000000000");
+  assert.equal(pool.tvlUSD, "0");
+});
+
+test("prices tokens through the pool with the most USD liquidity", () => {
+  const replay = createReplay();
+  const apply = (events: ReplayEvent[]) => events.forEach((event) => replay.apply(event));
+  // OSMO is priced at 0.5 USD in the stablecoin pool
+  apply([
+    poolEvent("pool_created", 1, "678", { module: "gamm" }),
+    poolEvent("pool_joined", 1, "678", { sender: "osmo1a", tokens_in: `1000000000uosmo,500000000${USDC}` }),
+    poolEvent("token_swapped", 2, "678", { module: "gamm", sender: "osmo1a", tokens_in: "2000000uosmo", tokens_out: `1000000${USDC}` }),
+  ]);
+  // Pool 2 holds 1000 OSMO and pool 3 500 OSMO of liquidity for ION
+  apply([
+    poolEvent("pool_created", 3, "2", { module: "gamm" }),
+    poolEvent("pool_joined", 3, "2", { sender: "osmo1a", tokens_in: "1000000000uosmo,1000000uion" }),
+    poolEvent("pool_created", 3, "3", { module: "gamm" }),
+    poolEvent("pool_joined", 3, "3", { sender: "osmo1a", tokens_in: "500000000uosmo,500000uion" }),
+    poolEvent("token_swapped", 4, "2", { module: "gamm", sender: "osmo1a", tokens_in: "1000uion", tokens_out: "1000000uosmo" }),
+    poolEvent("token_swapped", 5, "3", { module: "gamm", sender: "osmo1a", tokens_in: "1000uion", tokens_out: "1000000uosmo" }),
+  ]);
+  const getSource = () => getRows(replay.result(), "token").find((row) => row.id === "uion")?.priceSource;
+  assert.equal(getSource(), "uion-uosmo-2");
+
+  // Once most of pool 2's liquidity is withdrawn, pool 3 takes over on its
+  // next trade even though pool 2 hasn't traded since
+  apply([
+    poolEvent("pool_exited", 6, "2", { sender: "osmo1a", tokens_out: "900000000uosmo,900000uion" }),
+    poolEvent("token_swapped", 7, "3", { module: "gamm", sender: "osmo1a", tokens_in: "1000uion", tokens_out: "1000000uosmo" }),
+  ]);
+  assert.equal(getSource(), "uion-uosmo-3");
+});
+
+test("ranks pools created before the start block by their snapshot liquidity", () => {
+  POOL_SNAPSHOT_SHARES.set("1", "100000000000000000000");
+  POOL_SNAPSHOT_RESERVES.set("1", "2000000000uosmo,2000000uion");
+  try {
+    const replay = createReplay();
+    const apply = (events: ReplayEvent[]) => events.forEach((event) => replay.apply(event));
+    apply([
+      poolEvent("pool_created", 1, "678", { module: "gamm" }),
+      poolEvent("pool_joined", 1, "678", { sender: "osmo1a", tokens_in: `1000000000uosmo,500000000${USDC}` }),
+      poolEvent("token_swapped", 2, "678", { module: "gamm", sender: "osmo1a", tokens_in: "2000000uosmo", tokens_out: `1000000${USDC}` }),
+    ]);
+    // Pool 1 holds 2000 OSMO from its snapshot, pool 2 was created after
+    // the start block with 1000 OSMO and pool 4 has neither
+    apply([
+      poolEvent("token_swapped", 3, "1", { module: "gamm", sender: "osmo1a", tokens_in: "1000uion", tokens_out: "1000000uosmo" }),
+      poolEvent("pool_created", 4, "2", { module: "gamm" }),
+      poolEvent("pool_joined", 4, "2", { sender: "osmo1a", tokens_in: "1000000000uosmo,1000000uion" }),
+      poolEvent("token_swapped", 5, "2", { module: "gamm", sender: "osmo1a", tokens_in: "1000uion", tokens_out: "1000000uosmo" }),
+      poolEvent("token_swapped", 6, "4", { module: "gamm", sender: "osmo1a", tokens_in: "1000uion", tokens_out: "1000000uosmo" }),
+    ]);
+    const ion = getRows(replay.result(), "token").find((row) => row.id === "uion");
+    assert.ok(ion !== undefined);
+    assert.equal(ion.priceSource, "uion-uosmo-1");
+  } finally {
+    POOL_SNAPSHOT_SHARES.delete("1");
+    POOL_SNAPSHOT_RESERVES.delete("1");
+  }
+});
+
+test("records the first swap of a token without a USD price", () => {
+  const replay = createReplay();
+  [1, 2, 3].forEach((height) =>
+    replay.apply(poolEvent("token_swapped", height, "2", { module: "gamm", sender: "osmo1a", tokens_in: "1000uion", tokens_out: "1000000uosmo" }))
+  );
+  const issues = getRows(replay.result(), "issue").map(({ id, height, swap }) => ({ id, height, swap }));
+  assert.deepEqual(issues, [{ id: "UNPRICED_USD_CANDLES-uion", height: "1", swap: "B1-0" }]);
+});
+
+test("closes the last candle of a pair that stops trading once a block passes its end", () => {
+  const replay = createReplay();
+  replay.apply(poolEvent("token_swapped", 1, "2", { module: "gamm", sender: "osmo1a", tokens_in: "1000uion", tokens_out: "1000000uosmo" }));
+  const getCandles = () =>
+    getRows(replay.result(), "candle")
+      .filter((candle) => candle.pair === "uion-uosmo-2" && (candle.interval === "MINUTE_1" || candle.interval === "MINUTE_5"))
+      .map(({ interval, isClosed }) => ({ interval, isClosed }));
+  assert.deepEqual(getCandles(), [
+    { interval: "MINUTE_1", isClosed: false },
+    { interval: "MINUTE_5", isClosed: false },
+  ]);
+
+  // A block two minutes later closes the minute candle, not the 5 minute one
+  replay.apply(poolEvent("coinbase", 120, "3", { minter: "osmo1gamm", amount: "1000gamm/pool/3" }));
+  assert.deepEqual(getCandles(), [
+    { interval: "MINUTE_1", isClosed: true },
+    { interval: "MINUTE_5", isClosed: false },
+  ]);
+});
+
+test("fills the last 1000 intervals of a larger gap and records where the hole starts", () => {
+  const replay = createReplay();
+  const swap = (height: number, timestamp: number) =>
+    replay.apply({ ...poolEvent("token_swapped", height, "2", { module: "gamm", sender: "osmo1a", tokens_in: "1000uion", tokens_out: "1000000uosmo" }), timestamp });
+  swap(1, 1684500000);
+  swap(2, 1684500000 + 1500 * 60);
+
+  const result = replay.result();
+  const candles = getRows(result, "candle").filter((candle) => candle.pair === "uion-uosmo-2" && candle.interval === "MINUTE_1");
+  assert.equal(candles.length, 1002);
+  const [first, afterHole] = candles;
+  assert.equal(afterHole.timestamp, String(1684500000 + 500 * 60));
+  assert.equal(afterHole.previous, first.id);
+  assert.equal(afterHole.skippedFrom, "1684500060");
+  assert.ok(candles.slice(2).every((candle) => candle.skippedFrom === null));
+  assert.ok(result.warnings.some((warning) => warning.includes("skipped the intervals from 1684500060")));
+});
+
+test("charges the swap fee on the token swapped in", () => {
+  const replay = createReplay();
+  // 100 OSMO for 50 USDC at a 0.2% fee, 0.2 OSMO
+  replay.apply(poolEvent("token_swapped", 1, "678", { module: "gamm", sender: "osmo1a", tokens_in: "100000000uosmo", tokens_out: `50000000${USDC}`, swap_fee: "0.002" }));
+  const result = replay.result();
+  const swap = getRows(result, "swap")[0];
+  assert.deepEqual([swap.feeAmount, swap.feeUSD], ["0.2", "0.1"]);
+
+  const fees = getRows(result, "candle")
+    .filter((candle) => candle.poolId === "678" && candle.interval === "MINUTE_1")
+    .map(({ base, fees, feesUSD }) => ({ base, fees, feesUSD }));
+  assert.deepEqual(fees, [
+    // In USDC at the swap's rate for OSMO-USDC, in OSMO for USDC-OSMO
+    { base: "uosmo", fees: "0.1", feesUSD: "0.1" },
+    { base: USDC, fees: "0.2", feesUSD: "0.1" },
+  ]);
+});
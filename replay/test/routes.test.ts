@@ -0,0 +1,96 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+
+import { ReplayEvent } from "../src/events";
+import { getRows } from "../src/output";
+import { ReplayResult, createReplay } from "../src/replay";
+
+const USDC = "ibc/D189335C6E4A68B513C10AB227BF1C1D38C746766278BA3EEB4FB14124F1D858";
+
+/**
+ * Create a swap event of a transaction in block 100
+ *
+ * @param txHash The transaction hash
+ * @param poolId The pool ID
+ * @param tokensIn The coin swapped in
+ * @param tokensOut The coin swapped out
+ * @param msgIndex The index of the message, left out if undefined
+ * @returns The event
+ */
+function swapEvent(txHash: string, poolId: string, tokensIn: string, tokensOut: string, msgIndex?: number): ReplayEvent {
+  const attributes = new Map([
+    ["module", "gamm"],
+    ["sender", "osmo1a"],
+    ["pool_id", poolId],
+    ["tokens_in", tokensIn],
+    ["tokens_out", tokensOut],
+  ]);
+  if (msgIndex !== undefined) {
+    attributes.set("msg_index", String(msgIndex));
+  }
+  return { type: "token_swapped", height: 100, timestamp: 1684500000, txHash, attributes };
+}
+
+/**
+ * Replay events
+ *
+ * @param events The events
+ * @returns The replay's entities
+ */
+function replay(events: ReplayEvent[]): ReplayResult {
+  const replay = createReplay();
+  events.forEach((event) => replay.apply(event));
+  return replay.result();
+}
+
+test("keys swaps by their event index in the transaction", () => {
+  const result = replay([
+    swapEvent("A1", "1", "1000uosmo", "100uion"),
+    // Rejected, it still takes up an event index
+    swapEvent("A1", "1", "0uosmo", "100uion"),
+    swapEvent("A1", "1", "1000uosmo", "100uion"),
+    swapEvent("A2", "1", "1000uosmo", "100uion"),
+  ]);
+  assert.deepEqual(getRows(result, "swap").map((swap) => swap.id), ["A1-0", "A1-2", "A2-0"]);
+});
+
+test("links the hops of a route by their tokens", () => {
+  const result = replay([
+    swapEvent("A1", "1", "1000uosmo", "100uion"),
+    swapEvent("A1", "2", "100uion", `50${USDC}`),
+    // Doesn't swap in what the previous hop swapped out, so it is a route
+    // of its own
+    swapEvent("A1", "1", "2000uosmo", "190uion"),
+  ]);
+  const routes = getRows(result, "route").map(({ id, hopCount, pathCount, tokenIn, tokenInAmount, tokenOut, tokenOutAmount }) => ({
+    id, hopCount, pathCount, tokenIn, tokenInAmount, tokenOut, tokenOutAmount,
+  }));
+  assert.deepEqual(routes, [
+    { id: "A1-0", hopCount: 2, pathCount: 1, tokenIn: "uosmo", tokenInAmount: "1000", tokenOut: USDC, tokenOutAmount: "50" },
+    { id: "A1-2", hopCount: 1, pathCount: 1, tokenIn: "uosmo", tokenInAmount: "2000", tokenOut: "uion", tokenOutAmount: "190" },
+  ]);
+  assert.deepEqual(getRows(result, "swap").map(({ route, hopIndex }) => ({ route, hopIndex })), [
+    { route: "A1-0", hopIndex: 0 },
+    { route: "A1-0", hopIndex: 1 },
+    { route: "A1-2", hopIndex: 0 },
+  ]);
+});
+
+test("links the hops of a route by their message", () => {
+  const result = replay([
+    // A split route through ION and ATOM
+    swapEvent("A1", "1", "1000uosmo", "100uion", 0),
+    swapEvent("A1", "2", "100uion", `50${USDC}`, 0),
+    swapEvent("A1", "3", "500uosmo", "10uatom", 0),
+    swapEvent("A1", "4", "10uatom", `24${USDC}`, 0),
+    // Continues with the tokens of the previous hop, in another message
+    swapEvent("A1", "5", `74${USDC}`, "70uusdt", 1),
+  ]);
+  const routes = getRows(result, "route").map(({ id, msgIndex, hopCount, pathCount, tokenIn, tokenInAmount, tokenOut, tokenOutAmount }) => ({
+    id, msgIndex, hopCount, pathCount, tokenIn, tokenInAmount, tokenOut, tokenOutAmount,
+  }));
+  assert.deepEqual(routes, [
+    { id: "A1-0", msgIndex: "0", hopCount: 4, pathCount: 2, tokenIn: "uosmo", tokenInAmount: "1500", tokenOut: USDC, tokenOutAmount: "74" },
+    { id: "A1-4", msgIndex: "1", hopCount: 1, pathCount: 1, tokenIn: USDC, tokenInAmount: "74", tokenOut: "uusdt", tokenOutAmount: "70" },
+  ]);
+});
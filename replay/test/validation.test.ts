@@ -0,0 +1,78 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+
+import { POOL_TYPE_CONCENTRATED, POOL_TYPE_GAMM } from "../../src/core/swaps";
+import {
+  ISSUE_INVALID_COINS,
+  ISSUE_INVALID_POOL_ID,
+  ISSUE_MISSING_ATTRIBUTE,
+  ISSUE_SAME_DENOM,
+  ISSUE_UNEXPECTED_COIN_COUNT,
+  ISSUE_UNKNOWN_POOL_MODULE,
+  ISSUE_ZERO_AMOUNT,
+  isDecimal,
+  validateSwap,
+  validateSwapFee,
+} from "../../src/core/validation";
+
+// The attributes of a valid GAMM swap event with some replaced
+function swapAttributes(overrides: Record<string, string> = {}): Map<string, string> {
+  return new Map(
+    Object.entries({
+      module: "gamm",
+      sender: "osmo1a",
+      pool_id: "1",
+      tokens_in: "1000uosmo",
+      tokens_out: "100uion",
+      ...overrides,
+    })
+  );
+}
+
+test("accepts a swap event with its pool type and coins", () => {
+  const validation = validateSwap(swapAttributes());
+  assert.ok(validation.isValid());
+  assert.equal(validation.poolType, POOL_TYPE_GAMM);
+  assert.equal(validation.poolId, "1");
+  assert.equal(validation.sender, "osmo1a");
+  assert.equal(validation.coinIn?.amount.toString(), "1000");
+  assert.equal(validation.coinOut?.denom, "uion");
+});
+
+test("takes swap events without a module for GAMM swaps", () => {
+  assert.equal(validateSwap(swapAttributes({ module: "" })).poolType, POOL_TYPE_GAMM);
+  assert.equal(validateSwap(swapAttributes({ module: "concentratedliquidity" })).poolType, POOL_TYPE_CONCENTRATED);
+});
+
+test("rejects swap events with the reason and a message", () => {
+  const rejections: [Record<string, string>, string, string][] = [
+    [{ module: "stableswap" }, ISSUE_UNKNOWN_POOL_MODULE, 'unknown pool module "stableswap"'],
+    [{ sender: "" }, ISSUE_MISSING_ATTRIBUTE, "missing sender"],
+    [{ pool_id: "-1" }, ISSUE_INVALID_POOL_ID, 'pool_id "-1" isn\'t a pool ID'],
+    [{ tokens_in: "1000" }, ISSUE_INVALID_COINS, 'tokens_in "1000" coin "1000" has a denom of invalid length 0'],
+    [{ tokens_out: "100uion,5uatom" }, ISSUE_UNEXPECTED_COIN_COUNT, 'tokens_out "100uion,5uatom" has 2 coins, expected 1'],
+    [{ tokens_in: "0uosmo" }, ISSUE_ZERO_AMOUNT, 'tokens_in "0uosmo" has a zero amount'],
+    [{ tokens_out: "100uosmo" }, ISSUE_SAME_DENOM, "swaps uosmo for itself"],
+  ];
+  for (const [overrides, reason, message] of rejections) {
+    const validation = validateSwap(swapAttributes(overrides));
+    assert.equal(validation.isValid(), false);
+    assert.deepEqual([validation.reason, validation.message], [reason, message]);
+    assert.equal(validation.coinIn, null);
+  }
+});
+
+test("checks the swap fee of events that carry one", () => {
+  assert.equal(validateSwapFee(swapAttributes()), "");
+  assert.equal(validateSwapFee(swapAttributes({ swap_fee: "0.002" })), "");
+  assert.equal(validateSwapFee(swapAttributes({ spread_factor: "0.2%" })), 'spread_factor "0.2%" isn\'t a decimal');
+});
+
+test("checks decimals", () => {
+  assert.ok(isDecimal("0.002"));
+  assert.ok(isDecimal("3"));
+  assert.equal(isDecimal("."), false);
+  assert.equal(isDecimal("1.2.3"), false);
+  assert.equal(isDecimal("-0.1"), false);
+  assert.equal(isDecimal(""), false);
+});
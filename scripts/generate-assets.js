@@ -0,0 +1,81 @@
+/**
+ * Generates src/assets.ts from a checked-in assetlist so the mapping can
+ * look up names, symbols and decimals for a denom. The assetlist of the
+ * selected network is used by scripts/prepare-network.js
+ *
+ * To refresh the registry, download the latest assetlist from
+ * https://github.com/osmosis-labs/assetlists/blob/main/osmosis-1/osmosis-1.assetlist.json
+ * into assetlists/ and run `npm run prepare-network osmosis-1`
+ *
+ * Usage: node scripts/generate-assets.js [assetlist.json] [output.ts]
+ */
+const fs = require("fs");
+const path = require("path");
+
+const root = path.join(__dirname, "..");
+
+/**
+ * Get the exponent of the display unit, this is the number of decimals
+ * the base denom has
+ *
+ * @param asset The assetlist entry
+ * @returns The display exponent
+ */
+function getDisplayExponent(asset) {
+  const unit = (asset.denom_units || []).find((u) => u.denom === asset.display);
+  if (unit === undefined) {
+    throw new Error(`Asset ${asset.base} has no denom unit for its display denom ${asset.display}`);
+  }
+  return unit.exponent;
+}
+
+/**
+ * Get the preferred logo of the asset, png is preferred over svg
+ *
+ * @param asset The assetlist entry
+ * @returns The logo URI or an empty string if there is none
+ */
+function getLogoURI(asset) {
+  const logos = asset.logo_URIs || {};
+  return logos.png || logos.svg || "";
+}
+
+/**
+ * Write the asset registry for the assets of an assetlist
+ *
+ * @param input The path of the assetlist
+ * @param output The path of the registry to write
+ */
+function generateAssets(input, output) {
+  const assetlist = JSON.parse(fs.readFileSync(input, "utf8"));
+
+  const lines = [
+    `// This file is generated by scripts/generate-assets.js from`,
+    `// ${path.relative(root, input)}, do not edit it by hand`,
+    `import { Asset } from "./types";`,
+    ``,
+    `export const ASSET_REGISTRY = new Map<string, Asset>();`,
+  ];
+  for (const asset of assetlist.assets) {
+    const args = [
+      asset.base,
+      asset.name,
+      asset.symbol,
+      getDisplayExponent(asset),
+      asset.coingecko_id || "",
+      getLogoURI(asset),
+    ].map((arg) => JSON.stringify(arg));
+    lines.push(`ASSET_REGISTRY.set(${args[0]}, new Asset(${args.join(", ")}));`);
+  }
+
+  fs.writeFileSync(output, lines.join("\n") + "\n");
+  console.log(`Wrote ${assetlist.assets.length} assets to ${path.relative(root, output)}`);
+}
+
+module.exports = { generateAssets };
+
+if (require.main === module) {
+  const input = process.argv[2] || path.join(root, "assetlists", "osmosis-1.assetlist.json");
+  const output = process.argv[3] || path.join(root, "src", "assets.ts");
+  generateAssets(input, output);
+}
@@ -0,0 +1,164 @@
+/**
+ * Prepares the source tree to build the subgraph for a network. The network
+ * configuration in networks/{network}.json supplies the chain-specific
+ * constants, from it this writes:
+ *
+ * - subgraph.yaml from subgraph.template.yaml
+ * - src/network.ts with the start block, reference asset, stablecoins, pool
+ *   fees, swap filters and pool snapshots
+ * - src/assets.ts from the network's assetlist
+ *
+ * To deploy to another network or a fork, add a configuration for it and
+ * run `npm run prepare-network {network}` before building
+ *
+ * Usage: node scripts/prepare-network.js [network]
+ */
+const fs = require("fs");
+const path = require("path");
+const { generateAssets } = require("./generate-assets");
+
+const root = path.join(__dirname, "..");
+const network = process.argv[2] || "osmosis-1";
+
+/**
+ * Load the configuration of a network
+ *
+ * @param name The network name. Example: osmosis-1
+ * @returns The network configuration
+ */
+function loadNetwork(name) {
+  const file = path.join(root, "networks", `${name}.json`);
+  if (!fs.existsSync(file)) {
+    const available = fs.readdirSync(path.join(root, "networks")).map((f) => path.basename(f, ".json"));
+    throw new Error(`Unknown network ${name}, available networks: ${available.join(", ")}`);
+  }
+  return JSON.parse(fs.readFileSync(file, "utf8"));
+}
+
+/**
+ * Write the manifest for the network from the template, {{key}} is replaced
+ * with the value of key in the network configuration
+ *
+ * @param config The network configuration
+ */
+function writeManifest(config) {
+  const template = fs.readFileSync(path.join(root, "subgraph.template.yaml"), "utf8");
+  const manifest = template.replace(/{{(\w+)}}/g, (match, key) => {
+    if (config[key] === undefined) {
+      throw new Error(`subgraph.template.yaml uses ${key}, which isn't in the network configuration`);
+    }
+    return String(config[key]);
+  });
+  fs.writeFileSync(path.join(root, "subgraph.yaml"), manifest);
+  console.log(`Wrote subgraph.yaml for ${config.network}`);
+}
+
+/**
+ * Get the symbols of the assets in an assetlist, to label denoms in the
+ * generated constants
+ *
+ * @param file The path of the assetlist
+ * @returns The symbols keyed by denom
+ */
+function getSymbols(file) {
+  const symbols = {};
+  for (const asset of JSON.parse(fs.readFileSync(file, "utf8")).assets) {
+    symbols[asset.base] = asset.symbol;
+  }
+  return symbols;
+}
+
+/**
+ * Write the constants module for the network
+ *
+ * @param config The network configuration
+ * @param symbols The asset symbols keyed by denom
+ */
+function writeConstants(config, symbols) {
+  const label = (denom) => (symbols[denom] ? `  // ${symbols[denom]}` : null);
+  const lines = [
+    `// This file is generated by scripts/prepare-network.js from`,
+    `// networks/${config.network}.json, do not edit it by hand`,
+    ``,
+    `// The network the subgraph is built for`,
+    `export const NETWORK: string = ${JSON.stringify(config.network)};`,
+    ``,
+    `// The first block the subgraph indexes`,
+    `export const START_BLOCK: string = ${JSON.stringify(String(config.startBlock))};`,
+    ``,
+    `// Tokens are priced in the reference asset where they can't be priced in a`,
+    `// stablecoin directly`,
+    `export const REFERENCE_DENOM: string = ${JSON.stringify(config.referenceDenom)};`,
+    ``,
+    `// The synthetic USD candles are quoted in USDC, they aren't created if the`,
+    `// network has no USDC`,
+    `export const USDC_DENOM: string = ${JSON.stringify(config.usdcDenom)};`,
+    ``,
+    `// Stablecoins are taken to be worth 1 USD`,
+  ];
+  if (config.stablecoinDenoms.length === 0) {
+    lines.push(`export const STABLECOIN_DENOMS: string[] = [];`);
+  } else {
+    lines.push(`export const STABLECOIN_DENOMS: string[] = [`);
+    config.stablecoinDenoms.forEach((denom, i) => {
+      const comma = i < config.stablecoinDenoms.length - 1 ? "," : "";
+      lines.push(...[label(denom), `  ${JSON.stringify(denom)}${comma}`].filter((line) => line !== null));
+    });
+    lines.push(`];`);
+  }
+  lines.push(
+    ``,
+    `// Only trades against a stablecoin in these pools are used for pricing, so a`,
+    `// thin pool can't set the USD price`,
+    `export const STABLECOIN_POOLS: string[] = [${config.stablecoinPools.map((id) => JSON.stringify(id)).join(", ")}];`,
+    ``,
+    `// The swap fee of pools whose swap events don't carry it, as a fraction of`,
+    `// the amount swapped in`,
+    `export const POOL_SWAP_FEES = new Map<string, string>();`,
+  );
+  for (const [poolId, fee] of Object.entries(config.poolSwapFees)) {
+    lines.push(`POOL_SWAP_FEES.set(${JSON.stringify(poolId)}, ${JSON.stringify(fee)});`);
+  }
+  lines.push(
+    ``,
+    `// Swaps worth less than this in USD count toward a candle's volume but don't`,
+    `// move its open, high, low and close. Zero disables the filter`,
+    `export const MIN_NOTIONAL_USD: string = ${JSON.stringify(config.minNotionalUSD)};`,
+    ``,
+    `// Swaps that move the price further than this fraction from the previous`,
+    `// close count toward volume only. Zero disables the guard`,
+    `export const MAX_CLOSE_DEVIATION: string = ${JSON.stringify(config.maxCloseDeviation)};`,
+    ``,
+    `// At most this many swaps of a pair in a row are filtered for deviating from`,
+    `// the close, the next one is taken as the new price`,
+    `export const MAX_DEVIATING_SWAPS: i32 = ${config.maxDeviatingSwaps};`,
+    ``,
+    `// Swaps that can't be priced in USD are filtered by their amount of these`,
+    `// denoms instead, in display units`,
+    `export const MIN_QUOTE_NOTIONALS = new Map<string, string>();`,
+  );
+  for (const [denom, amount] of Object.entries(config.minQuoteNotionals)) {
+    lines.push(`MIN_QUOTE_NOTIONALS.set(${JSON.stringify(denom)}, ${JSON.stringify(amount)});`);
+  }
+  lines.push(
+    ``,
+    `// The share supply and reserves of pools created before the start block, as`,
+    `// of the end of the block before it. Other pools' reserves are counted from`,
+    `// their creation`,
+    `export const POOL_SNAPSHOT_SHARES = new Map<string, string>();`,
+    `export const POOL_SNAPSHOT_RESERVES = new Map<string, string>();`,
+  );
+  for (const [poolId, snapshot] of Object.entries(config.poolSnapshots)) {
+    lines.push(`POOL_SNAPSHOT_SHARES.set(${JSON.stringify(poolId)}, ${JSON.stringify(snapshot.totalShares)});`);
+    lines.push(`POOL_SNAPSHOT_RESERVES.set(${JSON.stringify(poolId)}, ${JSON.stringify(snapshot.reserves)});`);
+  }
+
+  fs.writeFileSync(path.join(root, "src", "network.ts"), lines.join("\n") + "\n");
+  console.log(`Wrote src/network.ts for ${config.network}`);
+}
+
+const config = loadNetwork(network);
+const assetlist = path.join(root, config.assetlist);
+writeManifest(config);
+writeConstants(config, getSymbols(assetlist));
+generateAssets(assetlist, path.join(root, "src", "assets.ts"));
@@ -0,0 +1,155 @@
+import { BigDecimal, BigInt, cosmos } from "@graphprotocol/graph-ts";
+
+import { Account, AccountToken } from "../generated/schema";
+import { convertTokenToDecimal, safeDiv } from "./core/math";
+import { SwapRecord, TokenRecord } from "./core/store";
+
+/**
+ * Update the trader's account and token positions with a swap. A route is
+ * one trade: the token it swaps in is sold and the token it swaps out is
+ * bought, cost basis is tracked at the average cost so realized PnL can be
+ * queried per token
+ *
+ * Each hop is applied as the route's latest state. A hop that starts a path
+ * sells what it swapped in and counts toward the trader's volume. A hop that
+ * continues a path swaps on what the previous hop bought, so that purchase
+ * is taken back rather than sold. Either way the hop's output is bought
+ *
+ * @param swap The swap, its account is its sender
+ * @param previousHop The previous hop of the swap's path, null if the swap
+ *                    starts a path
+ * @param tokenIn The token the trader sent
+ * @param tokenOut The token the trader received
+ * @param data The event data
+ */
+export function updateAccount(swap: SwapRecord, previousHop: SwapRecord | null, tokenIn: TokenRecord, tokenOut: TokenRecord, data: cosmos.EventData): void {
+  const address = swap.account;
+  const height = BigInt.fromString(data.block.header.height.toString());
+  const timestamp = BigInt.fromString(data.block.header.time.seconds.toString());
+  const amountUSD = getAmountUSD(swap);
+
+  let account = Account.load(address);
+  if (account === null) {
+    account = new Account(address);
+    account.swapCount = 0;
+    account.volumeUSD = BigDecimal.zero();
+    account.firstSeenHeight = height;
+    account.firstSeenTimestamp = timestamp;
+  }
+  account.swapCount = account.swapCount + 1;
+  if (previousHop === null) {
+    account.volumeUSD = account.volumeUSD.plus(amountUSD);
+  }
+  account.lastSeenHeight = height;
+  account.lastSeenTimestamp = timestamp;
+  account.save();
+
+  if (previousHop === null) {
+    sellToken(account, tokenIn, convertTokenToDecimal(swap.tokenInAmount, tokenIn.decimals), amountUSD);
+  } else {
+    revertPurchase(account, tokenIn, convertTokenToDecimal(previousHop.tokenOutAmount, tokenIn.decimals), getAmountUSD(previousHop));
+  }
+  buyToken(account, tokenOut, convertTokenToDecimal(swap.tokenOutAmount, tokenOut.decimals), amountUSD);
+}
+
+/**
+ * Add a purchase of the token to the account's position, the USD paid is
+ * added to the cost basis
+ *
+ * @param account The trader's account
+ * @param token The token received
+ * @param amount The amount received in display units
+ * @param amountUSD The USD value of the swap, zero if it couldn't be priced
+ */
+function buyToken(account: Account, token: TokenRecord, amount: BigDecimal, amountUSD: BigDecimal): void {
+  const position = loadOrCreatePosition(account, token);
+  position.volumeOut = position.volumeOut.plus(amount);
+  position.netPosition = position.netPosition.plus(amount);
+  position.costBasisUSD = position.costBasisUSD.plus(amountUSD);
+  position.save();
+}
+
+/**
+ * Take back a purchase of the token that was swapped on within its route,
+ * the token was never held
+ *
+ * @param account The trader's account
+ * @param token The token that was bought
+ * @param amount The amount bought in display units
+ * @param amountUSD The USD value the purchase was added at
+ */
+function revertPurchase(account: Account, token: TokenRecord, amount: BigDecimal, amountUSD: BigDecimal): void {
+  const position = loadOrCreatePosition(account, token);
+  position.volumeOut = position.volumeOut.minus(amount);
+  position.netPosition = position.netPosition.minus(amount);
+  position.costBasisUSD = position.costBasisUSD.minus(amountUSD);
+  position.save();
+}
+
+/**
+ * Add a sale of the token to the account's position. The part of the sale
+ * covered by the held position realizes PnL against its average cost,
+ * tokens bought before indexing started have no cost basis
+ *
+ * @param account The trader's account
+ * @param token The token sent
+ * @param amount The amount sent in display units
+ * @param amountUSD The USD value of the swap, zero if it couldn't be priced
+ */
+function sellToken(account: Account, token: TokenRecord, amount: BigDecimal, amountUSD: BigDecimal): void {
+  const position = loadOrCreatePosition(account, token);
+
+  const held = position.netPosition;
+  if (held.gt(BigDecimal.zero())) {
+    const sold = amount.lt(held) ? amount : held;
+    const soldCost = sold.times(safeDiv(position.costBasisUSD, held));
+    // An unpriced sale still reduces the cost basis, but realizes nothing
+    if (amountUSD.gt(BigDecimal.zero())) {
+      const proceeds = sold.times(safeDiv(amountUSD, amount));
+      position.realizedPnlUSD = position.realizedPnlUSD.plus(proceeds.minus(soldCost));
+    }
+    position.costBasisUSD = position.costBasisUSD.minus(soldCost);
+  }
+
+  position.volumeIn = position.volumeIn.plus(amount);
+  position.netPosition = position.netPosition.minus(amount);
+  if (!position.netPosition.gt(BigDecimal.zero())) {
+    // Nothing is held anymore, so nothing is left to carry a cost
+    position.costBasisUSD = BigDecimal.zero();
+  }
+  position.save();
+}
+
+/**
+ * Get the USD value of a swap
+ *
+ * @param swap The swap
+ * @returns The value, or zero if the swap couldn't be priced
+ */
+function getAmountUSD(swap: SwapRecord): BigDecimal {
+  const amountUSD = swap.amountUSD;
+  return amountUSD !== null ? amountUSD : BigDecimal.zero();
+}
+
+/**
+ * Load the account's position in the token, or create an empty one
+ *
+ * @param account The trader's account
+ * @param token The token
+ * @returns The existing or created position
+ */
+function loadOrCreatePosition(account: Account, token: TokenRecord): AccountToken {
+  const id = `${account.id}-${token.denom}`;
+  let position = AccountToken.load(id);
+  if (position === null) {
+    position = new AccountToken(id);
+    position.account = account.id;
+    position.token = token.id;
+    position.volumeIn = BigDecimal.zero();
+    position.volumeOut = BigDecimal.zero();
+    position.netPosition = BigDecimal.zero();
+    position.costBasisUSD = BigDecimal.zero();
+    position.realizedPnlUSD = BigDecimal.zero();
+  }
+  return position as AccountToken;
+}
@@ -0,0 +1,244 @@
+import { BigDecimal, BigInt, cosmos } from "@graphprotocol/graph-ts";
+
+import {
+  Osmosis,
+  OsmosisDayData,
+  PairDayData,
+  PairHourData,
+  TokenDayData,
+  TokenHourData,
+  UniqueTrader
+} from "../generated/schema";
+import { getInterval } from "./core/intervals";
+import { convertTokenToDecimal, safeDiv } from "./core/math";
+import { PairRecord, SwapRecord, TokenRecord } from "./core/store";
+import { TIMEFRAME_DAY, TIMEFRAME_HOUR } from "./types";
+
+// The ID of the protocol and the scope of its unique traders
+const OSMOSIS_ID = "osmosis";
+
+/**
+ * Update the daily and hourly stats of the swapped tokens, the pair and the
+ * protocol with a swap. Filtered swaps count toward the volumes but don't
+ * set the closing prices, as with candles
+ *
+ * @param swap The swap
+ * @param pair The pair of the swap, tokenIn is its base
+ * @param tokenIn The token that was swapped in
+ * @param tokenOut The token that was swapped out
+ * @param data The event data
+ */
+export function updateAggregates(swap: SwapRecord, pair: PairRecord, tokenIn: TokenRecord, tokenOut: TokenRecord, data: cosmos.EventData): void {
+  const blockTime = data.block.header.time.seconds;
+  const dayTime = getInterval(blockTime, TIMEFRAME_DAY, 1);
+  const hourTime = getInterval(blockTime, TIMEFRAME_HOUR, 1);
+  const sender = swap.sender;
+  const volumeUSD = swap.amountUSD !== null ? swap.amountUSD as BigDecimal : BigDecimal.zero();
+
+  const amountIn = convertTokenToDecimal(swap.tokenInAmount, tokenIn.decimals);
+  const amountOut = convertTokenToDecimal(swap.tokenOutAmount, tokenOut.decimals);
+  const isFiltered = swap.isFiltered;
+  // Null for filtered swaps, they keep the previous close
+  let rate: BigDecimal | null = null;
+  if (!isFiltered) {
+    rate = safeDiv(amountOut, amountIn);
+  }
+
+  updateTokenDayData(tokenIn, amountIn, volumeUSD, isFiltered, sender, dayTime);
+  updateTokenDayData(tokenOut, amountOut, volumeUSD, isFiltered, sender, dayTime);
+  updateTokenHourData(tokenIn, amountIn, volumeUSD, isFiltered, hourTime);
+  updateTokenHourData(tokenOut, amountOut, volumeUSD, isFiltered, hourTime);
+
+  updatePairDayData(pair, amountIn, amountOut, volumeUSD, rate, sender, dayTime);
+  updatePairHourData(pair, amountIn, amountOut, volumeUSD, rate, hourTime);
+
+  updateOsmosisDayData(volumeUSD, sender, dayTime);
+}
+
+/**
+ * Add a swap of the token to its stats for the day
+ *
+ * @param token The swapped token
+ * @param volume The swapped amount in display units
+ * @param volumeUSD The USD value of the swap
+ * @param isFiltered Whether the swap was filtered, it doesn't set the close
+ * @param sender The trader
+ * @param dayTime The start of the day
+ */
+function updateTokenDayData(token: TokenRecord, volume: BigDecimal, volumeUSD: BigDecimal, isFiltered: boolean, sender: string, dayTime: i64): void {
+  const id = `${token.denom}-${dayTime}`;
+  let dayData = TokenDayData.load(id);
+  if (dayData === null) {
+    dayData = new TokenDayData(id);
+    dayData.token = token.id;
+    dayData.date = BigInt.fromString(dayTime.toString());
+    dayData.swapCount = 0;
+    dayData.volume = BigDecimal.zero();
+    dayData.volumeUSD = BigDecimal.zero();
+    dayData.uniqueTraders = 0;
+  }
+  dayData.swapCount = dayData.swapCount + 1;
+  dayData.volume = dayData.volume.plus(volume);
+  dayData.volumeUSD = dayData.volumeUSD.plus(volumeUSD);
+  if (isNewTrader(token.denom, sender, dayTime)) {
+    dayData.uniqueTraders = dayData.uniqueTraders + 1;
+  }
+  if (!isFiltered) {
+    dayData.closePriceUSD = token.priceUSD;
+  }
+  dayData.save();
+}
+
+/**
+ * Add a swap of the token to its stats for the hour
+ *
+ * @param token The swapped token
+ * @param volume The swapped amount in display units
+ * @param volumeUSD The USD value of the swap
+ * @param isFiltered Whether the swap was filtered, it doesn't set the close
+ * @param hourTime The start of the hour
+ */
+function updateTokenHourData(token: TokenRecord, volume: BigDecimal, volumeUSD: BigDecimal, isFiltered: boolean, hourTime: i64): void {
+  const id = `${token.denom}-${hourTime}`;
+  let hourData = TokenHourData.load(id);
+  if (hourData === null) {
+    hourData = new TokenHourData(id);
+    hourData.token = token.id;
+    hourData.date = BigInt.fromString(hourTime.toString());
+    hourData.swapCount = 0;
+    hourData.volume = BigDecimal.zero();
+    hourData.volumeUSD = BigDecimal.zero();
+  }
+  hourData.swapCount = hourData.swapCount + 1;
+  hourData.volume = hourData.volume.plus(volume);
+  hourData.volumeUSD = hourData.volumeUSD.plus(volumeUSD);
+  if (!isFiltered) {
+    hourData.closePriceUSD = token.priceUSD;
+  }
+  hourData.save();
+}
+
+/**
+ * Add a swap through the pair to its stats for the day
+ *
+ * @param pair The pair
+ * @param baseVolume The swapped amount of the base asset in display units
+ * @param quoteVolume The swapped amount of the quote asset in display units
+ * @param volumeUSD The USD value of the swap
+ * @param rate The rate of the swap in quote per base, null if it was
+ *             filtered
+ * @param sender The trader
+ * @param dayTime The start of the day
+ */
+function updatePairDayData(pair: PairRecord, baseVolume: BigDecimal, quoteVolume: BigDecimal, volumeUSD: BigDecimal, rate: BigDecimal | null, sender: string, dayTime: i64): void {
+  const id = `${pair.id}-${dayTime}`;
+  let dayData = PairDayData.load(id);
+  if (dayData === null) {
+    dayData = new PairDayData(id);
+    dayData.pair = pair.id;
+    dayData.date = BigInt.fromString(dayTime.toString());
+    dayData.swapCount = 0;
+    dayData.baseVolume = BigDecimal.zero();
+    dayData.quoteVolume = BigDecimal.zero();
+    dayData.volumeUSD = BigDecimal.zero();
+    dayData.uniqueTraders = 0;
+  }
+  dayData.swapCount = dayData.swapCount + 1;
+  dayData.baseVolume = dayData.baseVolume.plus(baseVolume);
+  dayData.quoteVolume = dayData.quoteVolume.plus(quoteVolume);
+  dayData.volumeUSD = dayData.volumeUSD.plus(volumeUSD);
+  if (isNewTrader(pair.id, sender, dayTime)) {
+    dayData.uniqueTraders = dayData.uniqueTraders + 1;
+  }
+  if (rate !== null) {
+    dayData.close = rate;
+  }
+  dayData.save();
+}
+
+/**
+ * Add a swap through the pair to its stats for the hour
+ *
+ * @param pair The pair
+ * @param baseVolume The swapped amount of the base asset in display units
+ * @param quoteVolume The swapped amount of the quote asset in display units
+ * @param volumeUSD The USD value of the swap
+ * @param rate The rate of the swap in quote per base, null if it was
+ *             filtered
+ * @param hourTime The start of the hour
+ */
+function updatePairHourData(pair: PairRecord, baseVolume: BigDecimal, quoteVolume: BigDecimal, volumeUSD: BigDecimal, rate: BigDecimal | null, hourTime: i64): void {
+  const id = `${pair.id}-${hourTime}`;
+  let hourData = PairHourData.load(id);
+  if (hourData === null) {
+    hourData = new PairHourData(id);
+    hourData.pair = pair.id;
+    hourData.date = BigInt.fromString(hourTime.toString());
+    hourData.swapCount = 0;
+    hourData.baseVolume = BigDecimal.zero();
+    hourData.quoteVolume = BigDecimal.zero();
+    hourData.volumeUSD = BigDecimal.zero();
+  }
+  hourData.swapCount = hourData.swapCount + 1;
+  hourData.baseVolume = hourData.baseVolume.plus(baseVolume);
+  hourData.quoteVolume = hourData.quoteVolume.plus(quoteVolume);
+  hourData.volumeUSD = hourData.volumeUSD.plus(volumeUSD);
+  if (rate !== null) {
+    hourData.close = rate;
+  }
+  hourData.save();
+}
+
+/**
+ * Add a swap to the protocol's stats for the day. The Osmosis entity points
+ * to the latest day's stats
+ *
+ * @param volumeUSD The USD value of the swap
+ * @param sender The trader
+ * @param dayTime The start of the day
+ */
+function updateOsmosisDayData(volumeUSD: BigDecimal, sender: string, dayTime: i64): void {
+  const id = `${OSMOSIS_ID}-${dayTime}`;
+  let dayData = OsmosisDayData.load(id);
+  if (dayData === null) {
+    dayData = new OsmosisDayData(id);
+    dayData.date = BigInt.fromString(dayTime.toString());
+    dayData.swapCount = 0;
+    dayData.volumeUSD = BigDecimal.zero();
+    dayData.uniqueTraders = 0;
+
+    const osmosis = new Osmosis(OSMOSIS_ID);
+    osmosis.latestDayData = id;
+    osmosis.save();
+  }
+  dayData.swapCount = dayData.swapCount + 1;
+  dayData.volumeUSD = dayData.volumeUSD.plus(volumeUSD);
+  if (isNewTrader(OSMOSIS_ID, sender, dayTime)) {
+    dayData.uniqueTraders = dayData.uniqueTraders + 1;
+  }
+  dayData.save();
+}
+
+/**
+ * Record that the sender traded on the given day. A trader has one
+ * UniqueTrader per token, pair and the protocol, holding the latest day it
+ * traded, so it is only written on a trader's first swap of a day
+ *
+ * @param scope The token denom, pair ID or the protocol's ID
+ * @param sender The trader
+ * @param dayTime The start of the day
+ * @returns True if it is the sender's first trade of the day in the scope
+ */
+function isNewTrader(scope: string, sender: string, dayTime: i64): boolean {
+  const id = `${scope}-${sender}`;
+  const date = BigInt.fromString(dayTime.toString());
+  let trader = UniqueTrader.load(id);
+  if (trader === null) {
+    trader = new UniqueTrader(id);
+  } else if (trader.lastDay.equals(date)) {
+    return false;
+  }
+  trader.lastDay = date;
+  trader.save();
+  return true;
+}
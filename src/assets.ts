@@ -0,0 +1,154 @@
+// This file is generated by scripts/generate-assets.js from
+// assetlists/osmosis-1.assetlist.json, do not edit it by hand
+import { Asset } from "./types";
+
+export const ASSET_REGISTRY = new Map<string, Asset>();
+ASSET_REGISTRY.set("uosmo", new Asset("uosmo", "Osmosis", "OSMO", 6, "osmosis", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/osmo.png"));
+ASSET_REGISTRY.set("uion", new Asset("uion", "Ion", "ION", 6, "ion", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/ion.png"));
+ASSET_REGISTRY.set("ibc/D189335C6E4A68B513C10AB227BF1C1D38C746766278BA3EEB4FB14124F1D858", new Asset("ibc/D189335C6E4A68B513C10AB227BF1C1D38C746766278BA3EEB4FB14124F1D858", "USD Coin", "USDC", 6, "axlusdc", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/usdc.png"));
+ASSET_REGISTRY.set("ibc/EA1D43981D5C9A1C4AAEA9C23BB1D4FA126BA9BC7020A25E0AE4AA841EA25DC5", new Asset("ibc/EA1D43981D5C9A1C4AAEA9C23BB1D4FA126BA9BC7020A25E0AE4AA841EA25DC5", "Wrapped Ether", "wETH", 18, "weth", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/weth.png"));
+ASSET_REGISTRY.set("ibc/D1542AA8762DB13087D8364F3EA6509FD6F009A34F00426AF9E4F9FA85CBBF1F", new Asset("ibc/D1542AA8762DB13087D8364F3EA6509FD6F009A34F00426AF9E4F9FA85CBBF1F", "Wrapped Bitcoin", "WBTC", 8, "wrapped-bitcoin", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/wbtc.png"));
+ASSET_REGISTRY.set("ibc/8242AD24008032E457D2E12D46588FD39FB54FB29680C6C7663D296B383C37C4", new Asset("ibc/8242AD24008032E457D2E12D46588FD39FB54FB29680C6C7663D296B383C37C4", "Tether USD", "USDT", 6, "tether", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/usdt.png"));
+ASSET_REGISTRY.set("ibc/0CD3A0285E1341859B5E86B6AB7682F023D03E97607CCC1DC95706411D866DF7", new Asset("ibc/0CD3A0285E1341859B5E86B6AB7682F023D03E97607CCC1DC95706411D866DF7", "Dai Stablecoin", "DAI", 18, "dai", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/dai.png"));
+ASSET_REGISTRY.set("ibc/6329DD8CF31A334DD5BE3F68C846C9FE313281362B37686A62343BAC1EB1546D", new Asset("ibc/6329DD8CF31A334DD5BE3F68C846C9FE313281362B37686A62343BAC1EB1546D", "Binance USD", "BUSD", 18, "binance-usd", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/busd.png"));
+ASSET_REGISTRY.set("ibc/27394FB092D2ECCD56123C74F36E4C1F926001CEADA9CA97EA622B25F41E5EB2", new Asset("ibc/27394FB092D2ECCD56123C74F36E4C1F926001CEADA9CA97EA622B25F41E5EB2", "Cosmos Hub Atom", "ATOM", 6, "cosmos", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/atom.png"));
+ASSET_REGISTRY.set("ibc/E6931F78057F7CC5DA0FD6CEF82FF39373A6E0452BF1FD76910B93292CF356C1", new Asset("ibc/E6931F78057F7CC5DA0FD6CEF82FF39373A6E0452BF1FD76910B93292CF356C1", "Cronos", "CRO", 8, "crypto-com-chain", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/cro.png"));
+ASSET_REGISTRY.set("ibc/F4A070A6D78496D53127EA85C094A9EC87DFC1F36071B8CCDDBD020F933D213D", new Asset("ibc/F4A070A6D78496D53127EA85C094A9EC87DFC1F36071B8CCDDBD020F933D213D", "Wrapped BNB", "wBNB", 18, "binancecoin", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/wbnb.png"));
+ASSET_REGISTRY.set("ibc/AB589511ED0DD5FA56171A39978AFBF1371DB986EC1C3526CE138A16377E39BB", new Asset("ibc/AB589511ED0DD5FA56171A39978AFBF1371DB986EC1C3526CE138A16377E39BB", "Wrapped Matic", "wMATIC", 18, "matic-network", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/wmatic.png"));
+ASSET_REGISTRY.set("ibc/6F62F01D913E3FFE472A38C78235B8F021B511BC6596ADFF02615C8F83D3B373", new Asset("ibc/6F62F01D913E3FFE472A38C78235B8F021B511BC6596ADFF02615C8F83D3B373", "Wrapped AVAX", "wAVAX", 18, "avalanche-2", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/wavax.png"));
+ASSET_REGISTRY.set("ibc/0EF15DF2F02480ADE0BB6E85D9EBB5DAEA2836D3860E9F97F9AADE4F57A31AA0", new Asset("ibc/0EF15DF2F02480ADE0BB6E85D9EBB5DAEA2836D3860E9F97F9AADE4F57A31AA0", "Luna Classic", "LUNC", 6, "terra-luna", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/lunc.png"));
+ASSET_REGISTRY.set("ibc/46B44899322F3CD854D2D46DEEF881958467CDD4B3B10086DA49296BBED94BED", new Asset("ibc/46B44899322F3CD854D2D46DEEF881958467CDD4B3B10086DA49296BBED94BED", "Juno", "JUNO", 6, "juno-network", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/juno.png"));
+ASSET_REGISTRY.set("ibc/3FF92D26B407FD61AE95D975712A7C319CDE28DE4D80BDC9978D935932B991D7", new Asset("ibc/3FF92D26B407FD61AE95D975712A7C319CDE28DE4D80BDC9978D935932B991D7", "Wrapped Polkadot", "DOT", 10, "polkadot", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/dot.png"));
+ASSET_REGISTRY.set("ibc/6AE98883D4D5D5FF9E50D7130F1305DA2FFA0C652D1DD9C123657C6B4EB2DF8A", new Asset("ibc/6AE98883D4D5D5FF9E50D7130F1305DA2FFA0C652D1DD9C123657C6B4EB2DF8A", "Evmos", "EVMOS", 18, "evmos", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/evmos.png"));
+ASSET_REGISTRY.set("ibc/57AA1A70A4BC9769C525EBF6386F7A21536E04A79D62E1981EFCEF9428EBB205", new Asset("ibc/57AA1A70A4BC9769C525EBF6386F7A21536E04A79D62E1981EFCEF9428EBB205", "Kava", "KAVA", 6, "kava", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/kava.png"));
+ASSET_REGISTRY.set("ibc/0954E1C28EB7AF5B72D24F3BC2B47BBB2FDF91BDDFD57B74B99E133AED40972A", new Asset("ibc/0954E1C28EB7AF5B72D24F3BC2B47BBB2FDF91BDDFD57B74B99E133AED40972A", "Secret Network", "SCRT", 6, "secret", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/scrt.png"));
+ASSET_REGISTRY.set("ibc/BE1BB42D4BE3C30D50B68D7C41DB4DFCE9678E8EF8C539F6E6A9345048894FCC", new Asset("ibc/BE1BB42D4BE3C30D50B68D7C41DB4DFCE9678E8EF8C539F6E6A9345048894FCC", "TerraClassicUSD", "USTC", 6, "terrausd", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/ustc.png"));
+ASSET_REGISTRY.set("ibc/987C17B11ABC2B20019178ACE62929FE9840202CE79498E29FE8E5CB02B7C0A4", new Asset("ibc/987C17B11ABC2B20019178ACE62929FE9840202CE79498E29FE8E5CB02B7C0A4", "Stargaze", "STARS", 6, "stargaze", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/stars.png"));
+ASSET_REGISTRY.set("ibc/B9E0A1A524E98BB407D3CED8720EFEFD186002F90C1B1B7964811DD0CCC12228", new Asset("ibc/B9E0A1A524E98BB407D3CED8720EFEFD186002F90C1B1B7964811DD0CCC12228", "Chihuahua", "HUAHUA", 6, "chihuahua-token", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/huahua.png"));
+ASSET_REGISTRY.set("ibc/A0CC0CF735BFB30E730C70019D4218A1244FF383503FF7579C9201AB93CA9293", new Asset("ibc/A0CC0CF735BFB30E730C70019D4218A1244FF383503FF7579C9201AB93CA9293", "Persistence", "XPRT", 6, "persistence", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/xprt.png"));
+ASSET_REGISTRY.set("ibc/8061A06D3BD4D52C4A28FFECF7150D370393AF0BA661C3776C54FF32836C3961", new Asset("ibc/8061A06D3BD4D52C4A28FFECF7150D370393AF0BA661C3776C54FF32836C3961", "pSTAKE Finance", "PSTAKE", 18, "pstake-finance", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/pstake.png"));
+ASSET_REGISTRY.set("ibc/1480B8FD20AD5FCAE81EA87584D269547DD4D436843C1D20F15E00EB64743EF4", new Asset("ibc/1480B8FD20AD5FCAE81EA87584D269547DD4D436843C1D20F15E00EB64743EF4", "Akash Network", "AKT", 6, "akash-network", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/akt.png"));
+ASSET_REGISTRY.set("ibc/1DCC8A6CB5689018431323953344A9F6CC4D0BFB261E88C9F7777372C10CD076", new Asset("ibc/1DCC8A6CB5689018431323953344A9F6CC4D0BFB261E88C9F7777372C10CD076", "Regen Network", "REGEN", 6, "regen", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/regen.png"));
+ASSET_REGISTRY.set("ibc/9712DBB13B9631EDFA9BF61B55F1B2D290B2ADB67E3A4EB3A875F3B6081B3B84", new Asset("ibc/9712DBB13B9631EDFA9BF61B55F1B2D290B2ADB67E3A4EB3A875F3B6081B3B84", "Sentinel", "DVPN", 6, "sentinel", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/dvpn.png"));
+ASSET_REGISTRY.set("ibc/7C4D60AA95E5A7558B0A364860979CA34B7FF8AAF255B87AF9E879374470CEC0", new Asset("ibc/7C4D60AA95E5A7558B0A364860979CA34B7FF8AAF255B87AF9E879374470CEC0", "IRISnet", "IRIS", 6, "iris-network", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/iris.png"));
+ASSET_REGISTRY.set("ibc/52B1AA623B34EB78FD767CEA69E8D7FA6C9CFE1FBF49C5406268FD325E2CC2AC", new Asset("ibc/52B1AA623B34EB78FD767CEA69E8D7FA6C9CFE1FBF49C5406268FD325E2CC2AC", "Starname", "IOV", 6, "starname", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/iov.png"));
+ASSET_REGISTRY.set("ibc/1DC495FCEFDA068A3820F903EDBD78B942FBD204D7E93D3BA2B432E9669D1A59", new Asset("ibc/1DC495FCEFDA068A3820F903EDBD78B942FBD204D7E93D3BA2B432E9669D1A59", "e-Money", "NGM", 6, "e-money", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/ngm.png"));
+ASSET_REGISTRY.set("ibc/5973C068568365FFF40DEDCF1A1CB7582B6116B731CD31A12231AE25E20B871F", new Asset("ibc/5973C068568365FFF40DEDCF1A1CB7582B6116B731CD31A12231AE25E20B871F", "e-Money EUR", "EEUR", 6, "e-money-eur", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/eeur.png"));
+ASSET_REGISTRY.set("ibc/9989AD6CCA39D1131523DB0617B50F6442081162294B4795E26746292467B525", new Asset("ibc/9989AD6CCA39D1131523DB0617B50F6442081162294B4795E26746292467B525", "LikeCoin", "LIKE", 9, "likecoin", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/like.png"));
+ASSET_REGISTRY.set("ibc/F3FF7A84A73B62921538642F9797C423D2B4C4ACB3C7FCFFCE7F12AA69909C4B", new Asset("ibc/F3FF7A84A73B62921538642F9797C423D2B4C4ACB3C7FCFFCE7F12AA69909C4B", "IXO", "IXO", 6, "ixo", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/ixo.png"));
+ASSET_REGISTRY.set("ibc/D805F1DA50D31B96E4282C1D4181EDDFB1A44A598BFF5666F4B43E4B8BEA95A5", new Asset("ibc/D805F1DA50D31B96E4282C1D4181EDDFB1A44A598BFF5666F4B43E4B8BEA95A5", "BitCanna", "BCNA", 6, "bitcanna", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/bcna.png"));
+ASSET_REGISTRY.set("ibc/4E5444C35610CC76FC94E7F7886B93121175C28262DDFDDE6F84E82BF2425452", new Asset("ibc/4E5444C35610CC76FC94E7F7886B93121175C28262DDFDDE6F84E82BF2425452", "BitSong", "BTSG", 6, "bitsong", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/btsg.png"));
+ASSET_REGISTRY.set("ibc/B547DC9B897E7C3AA5B824696110B8E3D2C31E3ED3F02FF363DCBAD82457E07E", new Asset("ibc/B547DC9B897E7C3AA5B824696110B8E3D2C31E3ED3F02FF363DCBAD82457E07E", "Ki", "XKI", 6, "ki", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/xki.png"));
+ASSET_REGISTRY.set("ibc/3BCCC93AD5DF58D11A6F8A05FA8BC801CBA0BA61A981F57E91B8B598BF8061CB", new Asset("ibc/3BCCC93AD5DF58D11A6F8A05FA8BC801CBA0BA61A981F57E91B8B598BF8061CB", "MediBloc", "MED", 6, "medibloc", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/med.png"));
+ASSET_REGISTRY.set("ibc/FE2CD1E6828EC0FAB8AF39BAC45BC25B965BA67CCBC50C13A14BD610B0D1E2C4", new Asset("ibc/FE2CD1E6828EC0FAB8AF39BAC45BC25B965BA67CCBC50C13A14BD610B0D1E2C4", "Bostrom", "BOOT", 0, "bostrom", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/boot.png"));
+ASSET_REGISTRY.set("ibc/EA3E1640F9B1532AB129A571203A0B9F789A7F14BB66E350DCBFA18E1A1931F0", new Asset("ibc/EA3E1640F9B1532AB129A571203A0B9F789A7F14BB66E350DCBFA18E1A1931F0", "Comdex", "CMDX", 6, "comdex", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/cmdx.png"));
+ASSET_REGISTRY.set("ibc/7A08C6F11EF0F59EB841B9F788A87EC9F2361C7D9703157EC13D940DC53031FA", new Asset("ibc/7A08C6F11EF0F59EB841B9F788A87EC9F2361C7D9703157EC13D940DC53031FA", "cheqd", "CHEQ", 9, "cheqd-network", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/cheq.png"));
+ASSET_REGISTRY.set("ibc/8A34AF0C1943FD0DFCDE9ADBF0B2C9959C45E87E6088EA2FC6ADACD59261B8A2", new Asset("ibc/8A34AF0C1943FD0DFCDE9ADBF0B2C9959C45E87E6088EA2FC6ADACD59261B8A2", "Lum", "LUM", 6, "lum-network", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/lum.png"));
+ASSET_REGISTRY.set("ibc/E7B35499CFBEB0FF5778127ABA4FB2C4B79A6B8D3D831D4379C4048C238796BD", new Asset("ibc/E7B35499CFBEB0FF5778127ABA4FB2C4B79A6B8D3D831D4379C4048C238796BD", "Vidulum", "VDL", 6, "vidulum", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/vdl.png"));
+ASSET_REGISTRY.set("ibc/EA4C0A9F72E2CEDF10D0E7A9A6A22954DB3444910DB5BE980DF59B05A46DAD1C", new Asset("ibc/EA4C0A9F72E2CEDF10D0E7A9A6A22954DB3444910DB5BE980DF59B05A46DAD1C", "Desmos", "DSM", 6, "desmos", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/dsm.png"));
+ASSET_REGISTRY.set("ibc/307E5C96C8F60D1CBEE269A9A86C0834E1DB06F2B3788AE4F716EDB97A48B97D", new Asset("ibc/307E5C96C8F60D1CBEE269A9A86C0834E1DB06F2B3788AE4F716EDB97A48B97D", "Dig Chain", "DIG", 6, "dig-chain", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/dig.png"));
+ASSET_REGISTRY.set("ibc/9BBA9A1C257E971E38C1422780CE6F0B0686F0A3085E2D61118D904BFE0F5F5E", new Asset("ibc/9BBA9A1C257E971E38C1422780CE6F0B0686F0A3085E2D61118D904BFE0F5F5E", "Somm", "SOMM", 6, "sommelier", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/somm.png"));
+ASSET_REGISTRY.set("ibc/F867AE2112EFE646EC71A25CD2DFABB8927126AC1E19F1BBF0FF693A4ECA05DE", new Asset("ibc/F867AE2112EFE646EC71A25CD2DFABB8927126AC1E19F1BBF0FF693A4ECA05DE", "Band Protocol", "BAND", 6, "band-protocol", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/band.png"));
+ASSET_REGISTRY.set("ibc/346786EA82F41FE55FAD14BF69AD8BA9B36985406E43F3CB23E6C45A285A9593", new Asset("ibc/346786EA82F41FE55FAD14BF69AD8BA9B36985406E43F3CB23E6C45A285A9593", "DARC", "DARC", 6, "", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/darc.png"));
+ASSET_REGISTRY.set("ibc/67795E528DF67C5606FC20F824EA39A6EF55BA133F4DC79C90A8C47A0901E17C", new Asset("ibc/67795E528DF67C5606FC20F824EA39A6EF55BA133F4DC79C90A8C47A0901E17C", "Umee", "UMEE", 6, "umee", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/umee.png"));
+ASSET_REGISTRY.set("ibc/E97634A40119F1898989C2A23224ED83FDD0A57EA46B3A094E287288D1672B44", new Asset("ibc/E97634A40119F1898989C2A23224ED83FDD0A57EA46B3A094E287288D1672B44", "Graviton", "GRAV", 6, "graviton", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/grav.png"));
+ASSET_REGISTRY.set("ibc/9BCB27203424535B6230D594553F1659C77EC173E36D9CF4759E7186EE747E84", new Asset("ibc/9BCB27203424535B6230D594553F1659C77EC173E36D9CF4759E7186EE747E84", "Decentr", "DEC", 6, "decentr", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/dec.png"));
+ASSET_REGISTRY.set("ibc/F6B691D5F7126579DDC87357B09D653B47FDCE0A3383FF33C8D8B544FE29A8A6", new Asset("ibc/F6B691D5F7126579DDC87357B09D653B47FDCE0A3383FF33C8D8B544FE29A8A6", "Marble", "MARBLE", 6, "", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/marble.png"));
+ASSET_REGISTRY.set("ibc/8FEFAE6AECF6E2A255585617F781F35A8D5709A545A804482A261C0C9548A9D3", new Asset("ibc/8FEFAE6AECF6E2A255585617F781F35A8D5709A545A804482A261C0C9548A9D3", "Carbon", "SWTH", 8, "switcheo", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/swth.png"));
+ASSET_REGISTRY.set("ibc/41999DF04D9441DAC0DF5D8291DF4333FBCBA810FFD63FDCE34FDF41EF37B6F7", new Asset("ibc/41999DF04D9441DAC0DF5D8291DF4333FBCBA810FFD63FDCE34FDF41EF37B6F7", "Cerberus", "CRBRUS", 6, "", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/crbrus.png"));
+ASSET_REGISTRY.set("ibc/5D1F516200EE8C6B2354102143B78A2DEDA25EDE771AC0F8DC3C1837C8FD4447", new Asset("ibc/5D1F516200EE8C6B2354102143B78A2DEDA25EDE771AC0F8DC3C1837C8FD4447", "fetch-ai", "FET", 18, "fetch-ai", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/fet.png"));
+ASSET_REGISTRY.set("ibc/CBA34207E969623D95D057D9B11B0C8B32B89A71F170577D982FDDE623813FFC", new Asset("ibc/CBA34207E969623D95D057D9B11B0C8B32B89A71F170577D982FDDE623813FFC", "AssetMantle", "MNTL", 6, "assetmantle", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/mntl.png"));
+ASSET_REGISTRY.set("ibc/297C64CC42B5A8D8F82FE2EBE208A6FE8F94B86037FA28C4529A23701C228F7A", new Asset("ibc/297C64CC42B5A8D8F82FE2EBE208A6FE8F94B86037FA28C4529A23701C228F7A", "Neta", "NETA", 6, "", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/neta.png"));
+ASSET_REGISTRY.set("ibc/64BA6E31FE887D66C6F8F31C7B1A80C7CA179239677B4088BB55F5EA07DBE273", new Asset("ibc/64BA6E31FE887D66C6F8F31C7B1A80C7CA179239677B4088BB55F5EA07DBE273", "Injective", "INJ", 18, "injective-protocol", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/inj.png"));
+ASSET_REGISTRY.set("ibc/204A582244FC241613DBB50B04D1D454116C58C4AF7866C186AA0D6EEAD42780", new Asset("ibc/204A582244FC241613DBB50B04D1D454116C58C4AF7866C186AA0D6EEAD42780", "TerraClassicKRW", "KRTC", 6, "", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/krtc.png"));
+ASSET_REGISTRY.set("ibc/655BCEF3CDEBE32863FF281DBBE3B06160339E9897DC9C9C9821932A5F8BA6F8", new Asset("ibc/655BCEF3CDEBE32863FF281DBBE3B06160339E9897DC9C9C9821932A5F8BA6F8", "Microtick", "TICK", 6, "", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/tick.png"));
+ASSET_REGISTRY.set("ibc/8318FD63C42203D16DDCAF49FE10E8590669B3219A3E87676AC9DA50722687FB", new Asset("ibc/8318FD63C42203D16DDCAF49FE10E8590669B3219A3E87676AC9DA50722687FB", "Sifchain Rowan", "ROWAN", 18, "sifchain", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/rowan.png"));
+ASSET_REGISTRY.set("ibc/7ED954CFFFC06EE8419387F3FC688837FF64EF264DE14219935F724EEEDBF8D3", new Asset("ibc/7ED954CFFFC06EE8419387F3FC688837FF64EF264DE14219935F724EEEDBF8D3", "Shentu", "CTK", 6, "certik", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/ctk.png"));
+ASSET_REGISTRY.set("ibc/C2A2E9CA95DDD4828B75124B5E27B8401C7D8493BC48353D418CBFC04565899B", new Asset("ibc/C2A2E9CA95DDD4828B75124B5E27B8401C7D8493BC48353D418CBFC04565899B", "Hope Galaxy", "HOPE", 6, "", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/hope.png"));
+ASSET_REGISTRY.set("ibc/6BDB4C8CCD45033F9604E4B93ED395008A753E01EECD6992E7D1EA23D9D3B788", new Asset("ibc/6BDB4C8CCD45033F9604E4B93ED395008A753E01EECD6992E7D1EA23D9D3B788", "Racoon", "RAC", 6, "", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/rac.png"));
+ASSET_REGISTRY.set("ibc/0E43EDE2E2A3AFA36D0CD38BDDC0B49FECA64FA426A82E102F304E430ECF46EE", new Asset("ibc/0E43EDE2E2A3AFA36D0CD38BDDC0B49FECA64FA426A82E102F304E430ECF46EE", "Frax", "FRAX", 18, "frax", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/frax.png"));
+ASSET_REGISTRY.set("ibc/C9B0D48FD2C5B91135F118FF2484551888966590D7BDC20F6A87308DBA670796", new Asset("ibc/C9B0D48FD2C5B91135F118FF2484551888966590D7BDC20F6A87308DBA670796", "Wrapped Bitcoin (Gravity Bridge)", "gWBTC", 8, "", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/gwbtc.png"));
+ASSET_REGISTRY.set("ibc/65381C5F3FD21442283D56925E62EA524DED8B6927F0FF94E21E0020954C40B5", new Asset("ibc/65381C5F3FD21442283D56925E62EA524DED8B6927F0FF94E21E0020954C40B5", "Wrapped Ether (Gravity Bridge)", "gWETH", 18, "", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/gweth.png"));
+ASSET_REGISTRY.set("ibc/9F9B07EF9AD291167CF5700628145DE1DEB777C2CFC7907553B24446515F6D0E", new Asset("ibc/9F9B07EF9AD291167CF5700628145DE1DEB777C2CFC7907553B24446515F6D0E", "USD Coin (Gravity Bridge)", "gUSDC", 6, "", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/gusdc.png"));
+ASSET_REGISTRY.set("ibc/F292A17CF920E3462C816CBE6B042E779F676CAB59096904C4C1C966413E3DF5", new Asset("ibc/F292A17CF920E3462C816CBE6B042E779F676CAB59096904C4C1C966413E3DF5", "Dai Stablecoin (Gravity Bridge)", "gDAI", 18, "", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/gdai.png"));
+ASSET_REGISTRY.set("ibc/71B441E27F1BBB44DD0891BCD370C2794D404D60A4FFE5AECCD9B1E28BC89805", new Asset("ibc/71B441E27F1BBB44DD0891BCD370C2794D404D60A4FFE5AECCD9B1E28BC89805", "Tether USD (Gravity Bridge)", "gUSDT", 6, "", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/gusdt.png"));
+ASSET_REGISTRY.set("ibc/DB9755CB6FE55192948AE074D18FA815E1429D3D374D5BDA8D89623C6CF235C3", new Asset("ibc/DB9755CB6FE55192948AE074D18FA815E1429D3D374D5BDA8D89623C6CF235C3", "Block", "BLOCK", 6, "", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/block.png"));
+ASSET_REGISTRY.set("ibc/CE5BFF1D9BADA03BB5CCA5F56939392A761B53A10FBD03B37506669C3218D3B2", new Asset("ibc/CE5BFF1D9BADA03BB5CCA5F56939392A761B53A10FBD03B37506669C3218D3B2", "Hash", "HASH", 9, "", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/hash.png"));
+ASSET_REGISTRY.set("ibc/F49DE040EBA5AB2FAD5F660C2A1DDF98A68470FAE82229818BE775EBF3EE79F2", new Asset("ibc/F49DE040EBA5AB2FAD5F660C2A1DDF98A68470FAE82229818BE775EBF3EE79F2", "Galaxy", "GLX", 6, "", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/glx.png"));
+ASSET_REGISTRY.set("ibc/52E12CF5CA2BB903D84F5298B4BFD725D66CAB95E09AA4FC75B2904CA5485FEB", new Asset("ibc/52E12CF5CA2BB903D84F5298B4BFD725D66CAB95E09AA4FC75B2904CA5485FEB", "DHK", "DHK", 6, "", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/dhk.png"));
+ASSET_REGISTRY.set("ibc/00B6E60AD3D65CBEF5579AC8AF609527C0B57535B6E32D96C80A735344FD9DCC", new Asset("ibc/00B6E60AD3D65CBEF5579AC8AF609527C0B57535B6E32D96C80A735344FD9DCC", "JunoSwap", "RAW", 6, "", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/raw.png"));
+ASSET_REGISTRY.set("ibc/67C89B8B0A70C08F093C909A4DD996DD10E0494C87E28FD9A551697BF173D4CA", new Asset("ibc/67C89B8B0A70C08F093C909A4DD996DD10E0494C87E28FD9A551697BF173D4CA", "MEME", "MEME", 6, "", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/meme.png"));
+ASSET_REGISTRY.set("ibc/AA1C80225BCA7B32ED1FC6ABF8B8E899BEB48ECDB4B417FD69873C6D715F97E7", new Asset("ibc/AA1C80225BCA7B32ED1FC6ABF8B8E899BEB48ECDB4B417FD69873C6D715F97E7", "Another.Software Validator Token", "ASVT", 6, "", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/asvt.png"));
+ASSET_REGISTRY.set("ibc/0CB9DB3441D0D50F35699DEE22B9C965487E83FB2D9F483D1CC5CA34E856C484", new Asset("ibc/0CB9DB3441D0D50F35699DEE22B9C965487E83FB2D9F483D1CC5CA34E856C484", "JoeDAO", "JOE", 6, "", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/joe.png"));
+ASSET_REGISTRY.set("ibc/785AFEC6B3741100D15E7AF01374E3C4C36F24888E96479B1C33F5C71F364EF9", new Asset("ibc/785AFEC6B3741100D15E7AF01374E3C4C36F24888E96479B1C33F5C71F364EF9", "Luna", "LUNA", 6, "terra-luna-2", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/luna.png"));
+ASSET_REGISTRY.set("ibc/2716E3F2E146664BEFA9217F1A03BFCEDBCD5178B3C71CACB1A0D7584451D219", new Asset("ibc/2716E3F2E146664BEFA9217F1A03BFCEDBCD5178B3C71CACB1A0D7584451D219", "Rizon Chain", "ATOLO", 6, "", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/atolo.png"));
+ASSET_REGISTRY.set("ibc/D6C28E07F7343360AC41E15DDD44D79701DDCA2E0C2C41279739C8D4AE5264BC", new Asset("ibc/D6C28E07F7343360AC41E15DDD44D79701DDCA2E0C2C41279739C8D4AE5264BC", "Hard", "HARD", 6, "", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/hard.png"));
+ASSET_REGISTRY.set("ibc/70CF1A54E23EA4E480DEDA9E12082D3FD5684C3483CBDCE190C5C807227688C5", new Asset("ibc/70CF1A54E23EA4E480DEDA9E12082D3FD5684C3483CBDCE190C5C807227688C5", "Swap", "SWP", 6, "", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/swp.png"));
+ASSET_REGISTRY.set("ibc/D3327A763C23F01EC43D1F0DB3CEFEC390C362569B6FD191F40A5192F8960049", new Asset("ibc/D3327A763C23F01EC43D1F0DB3CEFEC390C362569B6FD191F40A5192F8960049", "Chainlink", "LINK", 18, "chainlink", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/link.png"));
+ASSET_REGISTRY.set("ibc/F16FDC11A7662B86BC0B9CE61871CBACF7C20606F95E86260FD38915184B75B4", new Asset("ibc/F16FDC11A7662B86BC0B9CE61871CBACF7C20606F95E86260FD38915184B75B4", "GenesisL1", "L1", 18, "", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/l1.png"));
+ASSET_REGISTRY.set("ibc/384E5DD50BDE042E1AAF51F312B55F08F95BC985C503880189258B4D9374CBBE", new Asset("ibc/384E5DD50BDE042E1AAF51F312B55F08F95BC985C503880189258B4D9374CBBE", "Aave", "AAVE", 18, "aave", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/aave.png"));
+ASSET_REGISTRY.set("ibc/F83CC6471DA4D4B508F437244F10B9E4C68975344E551A2DEB6B8617AB08F0D4", new Asset("ibc/F83CC6471DA4D4B508F437244F10B9E4C68975344E551A2DEB6B8617AB08F0D4", "ApeCoin", "APE", 18, "apecoin", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/ape.png"));
+ASSET_REGISTRY.set("ibc/6C0CB8653012DC2BC1820FD0B6B3AFF8A07D18630BDAEE066FEFB2D92F477C24", new Asset("ibc/6C0CB8653012DC2BC1820FD0B6B3AFF8A07D18630BDAEE066FEFB2D92F477C24", "Axie Infinity Shard", "AXS", 18, "axie-infinity", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/axs.png"));
+ASSET_REGISTRY.set("ibc/D27DDDF34BB47E5D5A570742CC667DE53277867116CCCA341F27785E899A70F3", new Asset("ibc/D27DDDF34BB47E5D5A570742CC667DE53277867116CCCA341F27785E899A70F3", "Maker", "MKR", 18, "maker", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/mkr.png"));
+ASSET_REGISTRY.set("ibc/BD796662F8825327D41C96355DF62045A5BA225BAE31C0A86289B9D88ED3F44E", new Asset("ibc/BD796662F8825327D41C96355DF62045A5BA225BAE31C0A86289B9D88ED3F44E", "Rai Reflex Index", "RAI", 18, "", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/rai.png"));
+ASSET_REGISTRY.set("ibc/19305E20681911F14D1FB275E538CDE524C3BF88CF9AE5D5F78F4D4DA05E85B2", new Asset("ibc/19305E20681911F14D1FB275E538CDE524C3BF88CF9AE5D5F78F4D4DA05E85B2", "Shiba Inu", "SHIB", 18, "shiba-inu", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/shib.png"));
+ASSET_REGISTRY.set("ibc/AE2719773D6FCDD05AC17B1ED63F672F5F9D84144A61965F348C86C2A83AD161", new Asset("ibc/AE2719773D6FCDD05AC17B1ED63F672F5F9D84144A61965F348C86C2A83AD161", "Uniswap", "UNI", 18, "uniswap", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/uni.png"));
+ASSET_REGISTRY.set("ibc/B901BEC1B71D0573E6EE874FEC39E2DF4C2BDB1DB74CB3DA0A9CACC4A435B0EC", new Asset("ibc/B901BEC1B71D0573E6EE874FEC39E2DF4C2BDB1DB74CB3DA0A9CACC4A435B0EC", "Chain", "XCN", 18, "", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/xcn.png"));
+ASSET_REGISTRY.set("ibc/BB6BCDB515050BAE97516111873CCD7BCF1FD0CCB723CC12F3C4F704D6C646CE", new Asset("ibc/BB6BCDB515050BAE97516111873CCD7BCF1FD0CCB723CC12F3C4F704D6C646CE", "Kuji", "KUJI", 6, "kujira", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/kuji.png"));
+ASSET_REGISTRY.set("ibc/1E09CB0F506ACF12FDE4683FB6B34DA62FB4BE122641E0D93AAF98A87675676C", new Asset("ibc/1E09CB0F506ACF12FDE4683FB6B34DA62FB4BE122641E0D93AAF98A87675676C", "Tgrade", "TGD", 6, "", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/tgd.png"));
+ASSET_REGISTRY.set("ibc/47EE224A9B33CF0ABEAC82106E52F0F6E8D8CEC5BA80B9D9A6F55172CBB0177D", new Asset("ibc/47EE224A9B33CF0ABEAC82106E52F0F6E8D8CEC5BA80B9D9A6F55172CBB0177D", "Echelon", "ECH", 18, "", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/ech.png"));
+ASSET_REGISTRY.set("ibc/C360EF34A86D334F625E4CBB7DA3223AEA97174B61F35BB3758081A8160F7D9B", new Asset("ibc/C360EF34A86D334F625E4CBB7DA3223AEA97174B61F35BB3758081A8160F7D9B", "ODIN", "ODIN", 6, "", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/odin.png"));
+ASSET_REGISTRY.set("ibc/9B6FBABA36BB4A3BF127AE5E96B572A5197FD9F3111D895D8919B07BC290764A", new Asset("ibc/9B6FBABA36BB4A3BF127AE5E96B572A5197FD9F3111D895D8919B07BC290764A", "GEO", "GEO", 6, "", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/geo.png"));
+ASSET_REGISTRY.set("ibc/0CD46223FEABD2AEAAAF1F057D01E63BCA79B7D4BD6B68F1EB973A987344695D", new Asset("ibc/0CD46223FEABD2AEAAAF1F057D01E63BCA79B7D4BD6B68F1EB973A987344695D", "O9W", "O9W", 6, "", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/o9w.png"));
+ASSET_REGISTRY.set("ibc/AD185F62399F770CCCE8A36A180A77879FF6C26A0398BD3D2A74E087B0BFA121", new Asset("ibc/AD185F62399F770CCCE8A36A180A77879FF6C26A0398BD3D2A74E087B0BFA121", "LVN", "LVN", 6, "", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/lvn.png"));
+ASSET_REGISTRY.set("ibc/1E26DB0E5122AED464D98462BD384FCCB595732A66B3970AE6CE0B58BAE0FC49", new Asset("ibc/1E26DB0E5122AED464D98462BD384FCCB595732A66B3970AE6CE0B58BAE0FC49", "Wrapped Moonbeam", "wGLMR", 18, "", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/wglmr.png"));
+ASSET_REGISTRY.set("ibc/52C57FCA7D6854AA178E7A183DDBE4EF322B904B1D719FC485F6FFBC1F72A19E", new Asset("ibc/52C57FCA7D6854AA178E7A183DDBE4EF322B904B1D719FC485F6FFBC1F72A19E", "Gelotto", "GLTO", 6, "", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/glto.png"));
+ASSET_REGISTRY.set("ibc/7C781B4C2082CD62129A972D47486D78EC17155C299270E3C89348EA026BEAF8", new Asset("ibc/7C781B4C2082CD62129A972D47486D78EC17155C299270E3C89348EA026BEAF8", "GKey", "GKEY", 6, "", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/gkey.png"));
+ASSET_REGISTRY.set("ibc/5A7C219BA5F7582B99629BA3B2A01A61BFDA0F6FD1FE95B5366F7334C4BC0580", new Asset("ibc/5A7C219BA5F7582B99629BA3B2A01A61BFDA0F6FD1FE95B5366F7334C4BC0580", "Crescent", "CRE", 6, "crescent-network", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/cre.png"));
+ASSET_REGISTRY.set("ibc/FFA652599C77E853F017193E36B5AB2D4D9AFC4B54721A74904F80C9236BF3B7", new Asset("ibc/FFA652599C77E853F017193E36B5AB2D4D9AFC4B54721A74904F80C9236BF3B7", "LUMEN", "LUMEN", 6, "", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/lumen.png"));
+ASSET_REGISTRY.set("ibc/161D7D62BAB3B9C39003334F1671208F43C06B643CC9EDBBE82B64793C857F1D", new Asset("ibc/161D7D62BAB3B9C39003334F1671208F43C06B643CC9EDBBE82B64793C857F1D", "Oraichain", "ORAI", 6, "oraichain-token", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/orai.png"));
+ASSET_REGISTRY.set("ibc/E09ED39F390EC51FA9F3F69BEA08B5BBE6A48B3057B2B1C3467FAAE9E58B021B", new Asset("ibc/E09ED39F390EC51FA9F3F69BEA08B5BBE6A48B3057B2B1C3467FAAE9E58B021B", "Cudos", "CUDOS", 18, "cudos", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/cudos.png"));
+ASSET_REGISTRY.set("ibc/C78F65E1648A3DFE0BAEB6C4CDA69CC2A75437F1793C0E6386DFDA26393790AE", new Asset("ibc/C78F65E1648A3DFE0BAEB6C4CDA69CC2A75437F1793C0E6386DFDA26393790AE", "USDX", "USDX", 6, "", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/usdx.png"));
+ASSET_REGISTRY.set("ibc/2DA9C149E9AD2BD27FEFA635458FB37093C256C1A940392634A16BEA45262604", new Asset("ibc/2DA9C149E9AD2BD27FEFA635458FB37093C256C1A940392634A16BEA45262604", "Agoric", "BLD", 6, "agoric", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/bld.png"));
+ASSET_REGISTRY.set("ibc/92BE0717F4678905E53F4E45B2DED18BC0CB97BF1F8B6A25AFEDF3D5A879B4D5", new Asset("ibc/92BE0717F4678905E53F4E45B2DED18BC0CB97BF1F8B6A25AFEDF3D5A879B4D5", "Inter Stable Token", "IST", 6, "", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/ist.png"));
+ASSET_REGISTRY.set("ibc/C6B6BFCB6EE49A7CAB1A7E7B021DE35B99D525AC660844952F0F6C78DCB2A57B", new Asset("ibc/C6B6BFCB6EE49A7CAB1A7E7B021DE35B99D525AC660844952F0F6C78DCB2A57B", "StakeEasy seJUNO", "SEJUNO", 6, "", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/sejuno.png"));
+ASSET_REGISTRY.set("ibc/C2DF5C3949CA835B221C575625991F09BAB4E48FB9C11A4EE357194F736111E3", new Asset("ibc/C2DF5C3949CA835B221C575625991F09BAB4E48FB9C11A4EE357194F736111E3", "StakeEasy bJUNO", "BJUNO", 6, "", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/bjuno.png"));
+ASSET_REGISTRY.set("ibc/A8CA5EE328FA10C9519DF6057DA1F69682D28F7D0F5CCC7ECB72E3DCA2D157A4", new Asset("ibc/A8CA5EE328FA10C9519DF6057DA1F69682D28F7D0F5CCC7ECB72E3DCA2D157A4", "Stride", "STRD", 6, "stride", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/strd.png"));
+ASSET_REGISTRY.set("ibc/C140AFD542AE77BD7DCC83F13FDD8C5E5BB8C4929785E6EC2F4C636F98F17901", new Asset("ibc/C140AFD542AE77BD7DCC83F13FDD8C5E5BB8C4929785E6EC2F4C636F98F17901", "stATOM", "stATOM", 6, "stride-staked-atom", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/statom.png"));
+ASSET_REGISTRY.set("ibc/5DD1F95ED336014D00CE2520977EC71566D282F9749170ADC83A392E0EA7426A", new Asset("ibc/5DD1F95ED336014D00CE2520977EC71566D282F9749170ADC83A392E0EA7426A", "stSTARS", "stSTARS", 6, "", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/ststars.png"));
+ASSET_REGISTRY.set("ibc/C3FC4DED273E7D1DD2E7BAA3317EC9A53CD3252B577AA33DC00D9DF2BDF3ED5C", new Asset("ibc/C3FC4DED273E7D1DD2E7BAA3317EC9A53CD3252B577AA33DC00D9DF2BDF3ED5C", "Solarbank DAO", "SOLAR", 6, "", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/solar.png"));
+ASSET_REGISTRY.set("ibc/18A676A074F73B9B42DA4F9DFC8E5AEF334C9A6636DDEC8D34682F52F1DECDF6", new Asset("ibc/18A676A074F73B9B42DA4F9DFC8E5AEF334C9A6636DDEC8D34682F52F1DECDF6", "StakeEasy SEASY", "SEASY", 6, "", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/seasy.png"));
+ASSET_REGISTRY.set("ibc/903A61A498756EA560B85A85132D3AEE21B5DEDD41213725D22ABF276EA6945E", new Asset("ibc/903A61A498756EA560B85A85132D3AEE21B5DEDD41213725D22ABF276EA6945E", "Axelar", "AXL", 6, "axelar", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/axl.png"));
+ASSET_REGISTRY.set("ibc/A1AC7F9EE2F643A68E3A35BCEB22040120BEA4059773BB56985C76BDFEBC71D9", new Asset("ibc/A1AC7F9EE2F643A68E3A35BCEB22040120BEA4059773BB56985C76BDFEBC71D9", "Rebus", "REBUS", 18, "", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/rebus.png"));
+ASSET_REGISTRY.set("ibc/EB7FB9C8B425F289B63703413327C2051030E848CE4EAAEA2E51199D6D39D3EC", new Asset("ibc/EB7FB9C8B425F289B63703413327C2051030E848CE4EAAEA2E51199D6D39D3EC", "Teritori", "TORI", 6, "", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/tori.png"));
+ASSET_REGISTRY.set("ibc/84502A75BCA4A5F68D464C00B3F610CE2585847D59B52E5FFB7C3C9D2DDCD3FE", new Asset("ibc/84502A75BCA4A5F68D464C00B3F610CE2585847D59B52E5FFB7C3C9D2DDCD3FE", "stJUNO", "stJUNO", 6, "", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/stjuno.png"));
+ASSET_REGISTRY.set("ibc/D176154B0C63D1F9C6DCFB4F70349EBF2E2B5A87A05902F57A6AE92B863E9AEC", new Asset("ibc/D176154B0C63D1F9C6DCFB4F70349EBF2E2B5A87A05902F57A6AE92B863E9AEC", "stOSMO", "stOSMO", 6, "", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/stosmo.png"));
+ASSET_REGISTRY.set("ibc/6B982170CE024689E8DD0E7555B129B488005130D4EDA426733D552D10B36D8F", new Asset("ibc/6B982170CE024689E8DD0E7555B129B488005130D4EDA426733D552D10B36D8F", "MuseDAO", "MUSE", 6, "", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/muse.png"));
+ASSET_REGISTRY.set("ibc/80825E8F04B12D914ABEADB1F4D39C04755B12C8402F6876EE3168450C0A90BB", new Asset("ibc/80825E8F04B12D914ABEADB1F4D39C04755B12C8402F6876EE3168450C0A90BB", "Lambda", "LAMB", 18, "", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/lamb.png"));
+ASSET_REGISTRY.set("ibc/44492EAB24B72E3FB59B9FA619A22337FB74F95D8808FE6BC78CC0E6C18DC2EC", new Asset("ibc/44492EAB24B72E3FB59B9FA619A22337FB74F95D8808FE6BC78CC0E6C18DC2EC", "USK", "USK", 6, "", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/usk.png"));
+ASSET_REGISTRY.set("ibc/608EF5C0CE64FEA097500DB39657BDD36CA708CC5DCC2E250A024B6981DD36BC", new Asset("ibc/608EF5C0CE64FEA097500DB39657BDD36CA708CC5DCC2E250A024B6981DD36BC", "Unification Network", "FUND", 9, "", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/fund.png"));
+ASSET_REGISTRY.set("ibc/8E697BDABE97ACE8773C6DF7402B2D1D5104DD1EEABE12608E3469B7F64C15BA", new Asset("ibc/8E697BDABE97ACE8773C6DF7402B2D1D5104DD1EEABE12608E3469B7F64C15BA", "Jackal", "JKL", 6, "jackal-protocol", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/jkl.png"));
+ASSET_REGISTRY.set("ibc/A6383B6CF5EA23E067666C06BC34E2A96869927BD9744DC0C1643E589C710AA3", new Asset("ibc/A6383B6CF5EA23E067666C06BC34E2A96869927BD9744DC0C1643E589C710AA3", "Alter", "ALTER", 6, "", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/alter.png"));
+ASSET_REGISTRY.set("ibc/1FBA9E763B8679BEF7BAAAF2D16BCA78C3B297D226C3F31312C769D7B8F992D8", new Asset("ibc/1FBA9E763B8679BEF7BAAAF2D16BCA78C3B297D226C3F31312C769D7B8F992D8", "Button", "BUTT", 6, "", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/butt.png"));
+ASSET_REGISTRY.set("ibc/71055835C7639739EAE03AACD1324FE162DBA41D09F197CB72D966D014225B1C", new Asset("ibc/71055835C7639739EAE03AACD1324FE162DBA41D09F197CB72D966D014225B1C", "Shade", "SHD", 8, "", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/shd.png"));
+ASSET_REGISTRY.set("ibc/9A8A93D04917A149C8AC7C16D3DA8F470D59E8D867499C4DA97450E1D7363213", new Asset("ibc/9A8A93D04917A149C8AC7C16D3DA8F470D59E8D867499C4DA97450E1D7363213", "SIENNA", "SIENNA", 18, "", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/sienna.png"));
+ASSET_REGISTRY.set("ibc/D0E5BF2940FB58D9B283A339032DE88111407AAD7D94A7F1F3EB78874F8616D4", new Asset("ibc/D0E5BF2940FB58D9B283A339032DE88111407AAD7D94A7F1F3EB78874F8616D4", "SCRT Staking Derivatives", "stkd-SCRT", 6, "", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/stkd-scrt.png"));
+ASSET_REGISTRY.set("ibc/C822645522FC3EECF817609AA38C24B64D04F5C267A23BCCF8F2E3BC5755FA88", new Asset("ibc/C822645522FC3EECF817609AA38C24B64D04F5C267A23BCCF8F2E3BC5755FA88", "BeeZee", "BZE", 6, "", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/bze.png"));
+ASSET_REGISTRY.set("ibc/7CE5F388D661D82A0774E47B5129DA51CC7129BD1A70B5FA6BCEBB5B0A2FAEAF", new Asset("ibc/7CE5F388D661D82A0774E47B5129DA51CC7129BD1A70B5FA6BCEBB5B0A2FAEAF", "Fanfury", "FURY", 6, "", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/fury.png"));
+ASSET_REGISTRY.set("ibc/BB936517F7E5D77A63E0ADB05217A6608B0C4CF8FBA7EA2F4BAE4107A7238F06", new Asset("ibc/BB936517F7E5D77A63E0ADB05217A6608B0C4CF8FBA7EA2F4BAE4107A7238F06", "Acre", "ACRE", 18, "acrechain", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/acre.png"));
+ASSET_REGISTRY.set("ibc/23CA6C8D1AB2145DD13EB1E089A2E3F960DC298B468CCE034E19E5A78B61136E", new Asset("ibc/23CA6C8D1AB2145DD13EB1E089A2E3F960DC298B468CCE034E19E5A78B61136E", "CMST", "CMST", 6, "", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/cmst.png"));
+ASSET_REGISTRY.set("ibc/92B223EBFA74DB99BEA92B23DEAA6050734FEEAABB84689CB8E1AE8F9C9F9AF4", new Asset("ibc/92B223EBFA74DB99BEA92B23DEAA6050734FEEAABB84689CB8E1AE8F9C9F9AF4", "IMV", "IMV", 6, "", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/imv.png"));
+ASSET_REGISTRY.set("ibc/01E94A5FF29B8DDEFC86F412CC3927F7330E9B523CC63A6194B1108F5276025C", new Asset("ibc/01E94A5FF29B8DDEFC86F412CC3927F7330E9B523CC63A6194B1108F5276025C", "Medas Digital", "MEDAS", 6, "", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/medas.png"));
+ASSET_REGISTRY.set("ibc/D3B574938631B0A1BA704879020C696E514CFADAA7643CDE4BD5EB010BDE327B", new Asset("ibc/D3B574938631B0A1BA704879020C696E514CFADAA7643CDE4BD5EB010BDE327B", "POSTHUMAN", "PHMN", 6, "", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/phmn.png"));
+ASSET_REGISTRY.set("ibc/18A1B70E3205A48DE8590C0D11030E7146CDBF1048789261D53FFFD7527F8B55", new Asset("ibc/18A1B70E3205A48DE8590C0D11030E7146CDBF1048789261D53FFFD7527F8B55", "Amber", "AMBER", 6, "", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/amber.png"));
+ASSET_REGISTRY.set("ibc/B9606D347599F0F2FDF82BA3EE339000673B7D274EA50F59494DC51EFCD42163", new Asset("ibc/B9606D347599F0F2FDF82BA3EE339000673B7D274EA50F59494DC51EFCD42163", "Nom", "NOM", 18, "", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/nom.png"));
+ASSET_REGISTRY.set("ibc/CAA179E40F0266B0B29FB5EAA288FB9212E628822265D4141EBD1C47C3CBFCBC", new Asset("ibc/CAA179E40F0266B0B29FB5EAA288FB9212E628822265D4141EBD1C47C3CBFCBC", "PSTAKE staked ATOM", "stkATOM", 6, "", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/stkatom.png"));
+ASSET_REGISTRY.set("ibc/E27CD305D33F150369AB526AEB6646A76EC3FFB1A6CA58A663B5DE657A89D55D", new Asset("ibc/E27CD305D33F150369AB526AEB6646A76EC3FFB1A6CA58A663B5DE657A89D55D", "Dys", "DYS", 6, "", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/dys.png"));
+ASSET_REGISTRY.set("ibc/D3ADAF73F84CDF205BCB72C142FDAEEA2C612AB853CEE6D6C06F184FA38B1099", new Asset("ibc/D3ADAF73F84CDF205BCB72C142FDAEEA2C612AB853CEE6D6C06F184FA38B1099", "Hopers", "HOPERS", 6, "", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/hopers.png"));
+ASSET_REGISTRY.set("ibc/5D270A584B1078FBE07D14570ED5E88EC1FEDA8518B76C322606291E6FD8286F", new Asset("ibc/5D270A584B1078FBE07D14570ED5E88EC1FEDA8518B76C322606291E6FD8286F", "Arable USD", "arUSD", 18, "", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/arusd.png"));
+ASSET_REGISTRY.set("ibc/B1E0166EA0D759FDF4B207D1F5F12210D8BFE36F2345CEFC76948CE2B36DFBAF", new Asset("ibc/B1E0166EA0D759FDF4B207D1F5F12210D8BFE36F2345CEFC76948CE2B36DFBAF", "Planq", "PLQ", 18, "", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/plq.png"));
+ASSET_REGISTRY.set("ibc/5E2DFDF1734137302129EA1C1BA21A580F96F778D4F021815EA4F6DB378DA1A4", new Asset("ibc/5E2DFDF1734137302129EA1C1BA21A580F96F778D4F021815EA4F6DB378DA1A4", "Wrapped FTM", "wFTM", 18, "fantom", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/wftm.png"));
+ASSET_REGISTRY.set("ibc/47CAF2DB8C016FAC960F33BC492FD8E454593B65CC59D70FA9D9F30424F9C32F", new Asset("ibc/47CAF2DB8C016FAC960F33BC492FD8E454593B65CC59D70FA9D9F30424F9C32F", "Canto", "CANTO", 18, "canto", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/canto.png"));
+ASSET_REGISTRY.set("ibc/46C83BB054E12E189882B5284542DB605D94C99827E367C9192CF0579CD5BC83", new Asset("ibc/46C83BB054E12E189882B5284542DB605D94C99827E367C9192CF0579CD5BC83", "Quicksilver Liquid Staked STARS", "qSTARS", 6, "", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/qstars.png"));
+ASSET_REGISTRY.set("ibc/2FBAC4BF296D7844796844B35978E5899984BA5A6314B2DD8F83C215550010B3", new Asset("ibc/2FBAC4BF296D7844796844B35978E5899984BA5A6314B2DD8F83C215550010B3", "Wynd DAO Governance Token", "WYND", 6, "wynd", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/wynd.png"));
+ASSET_REGISTRY.set("ibc/573FCD90FACEE750F55A8864EF7D38265F07E5A9273FA0E8DAFD39951332B580", new Asset("ibc/573FCD90FACEE750F55A8864EF7D38265F07E5A9273FA0E8DAFD39951332B580", "Mars", "MARS", 6, "", "https://raw.githubusercontent.com/osmosis-labs/assetlists/main/images/mars.png"));
@@ -0,0 +1,82 @@
+import {
+  CandleSize,
+  TIMEFRAME_DAY,
+  TIMEFRAME_HOUR,
+  TIMEFRAME_MINUTE,
+  TIMEFRAME_MONTH,
+  TIMEFRAME_WEEK
+} from "./types";
+
+/**
+ * The candle sizes the subgraph can build, ordered from the smallest.
+ * Disable a size to trade granularity for storage, every enabled size adds
+ * a candle per pair for each of its intervals
+ */
+export const CANDLE_SIZE_CONFIG: CandleSize[] = [
+  {
+    interval: "1m",
+    timeframe: TIMEFRAME_MINUTE,
+    divisor: 1,
+    enabled: true
+  },
+  {
+    interval: "5m",
+    timeframe: TIMEFRAME_MINUTE,
+    divisor: 5,
+    enabled: true
+  },
+  {
+    interval: "15m",
+    timeframe: TIMEFRAME_MINUTE,
+    divisor: 15,
+    enabled: true
+  },
+  {
+    interval: "30m",
+    timeframe: TIMEFRAME_MINUTE,
+    divisor: 30,
+    enabled: true
+  },
+  {
+    interval: "1h",
+    timeframe: TIMEFRAME_HOUR,
+    divisor: 1,
+    enabled: true
+  },
+  {
+    interval: "4h",
+    timeframe: TIMEFRAME_HOUR,
+    divisor: 4,
+    enabled: true
+  },
+  {
+    interval: "8h",
+    timeframe: TIMEFRAME_HOUR,
+    divisor: 8,
+    enabled: true
+  },
+  {
+    interval: "12h",
+    timeframe: TIMEFRAME_HOUR,
+    divisor: 12,
+    enabled: true
+  },
+  {
+    interval: "1d",
+    timeframe: TIMEFRAME_DAY,
+    divisor: 1,
+    enabled: true
+  },
+  {
+    interval: "1w",
+    timeframe: TIMEFRAME_WEEK,
+    divisor: 1,
+    enabled: true
+  },
+  {
+    interval: "1M",
+    timeframe: TIMEFRAME_MONTH,
+    divisor: 1,
+    enabled: true
+  }
+];
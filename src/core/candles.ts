@@ -0,0 +1,206 @@
+import { BigDecimal, BigInt } from "@graphprotocol/graph-ts";
+
+import { safeDiv } from "./math";
+
+/**
+ * CandleTrade is a trade as it's added to a candle, the volumes and fees are
+ * in display units
+ */
+export class CandleTrade {
+  rate: BigDecimal;
+  baseVolume: BigDecimal;
+  quoteVolume: BigDecimal;
+  volumeUSD: BigDecimal;
+  fees: BigDecimal;
+  feesUSD: BigDecimal;
+  priceImpact: BigDecimal | null;
+  movesPrice: boolean;
+  timestamp: BigInt;
+
+  constructor(rate: BigDecimal, baseVolume: BigDecimal, quoteVolume: BigDecimal, volumeUSD: BigDecimal, fees: BigDecimal, feesUSD: BigDecimal, priceImpact: BigDecimal | null, movesPrice: boolean, timestamp: BigInt) {
+    this.rate = rate;
+    this.baseVolume = baseVolume;
+    this.quoteVolume = quoteVolume;
+    this.volumeUSD = volumeUSD;
+    this.fees = fees;
+    this.feesUSD = feesUSD;
+    this.priceImpact = priceImpact;
+    this.movesPrice = movesPrice;
+    this.timestamp = timestamp;
+  }
+}
+
+/**
+ * CandleState is the part of a candle that trades change
+ */
+export class CandleState {
+  open: BigDecimal;
+  high: BigDecimal;
+  low: BigDecimal;
+  close: BigDecimal;
+  baseVolume: BigDecimal;
+  quoteVolume: BigDecimal;
+  volumeUSD: BigDecimal;
+  tradeCount: i32;
+  filteredTradeCount: i32;
+  vwap: BigDecimal;
+  fees: BigDecimal;
+  feesUSD: BigDecimal;
+  maxPriceImpact: BigDecimal | null;
+  firstTradeTimestamp: BigInt | null;
+  lastTradeTimestamp: BigInt | null;
+
+  /**
+   * Create the state of a flat, zero volume candle
+   * 
+   * @param open The rate the candle opens at
+   */
+  constructor(open: BigDecimal) {
+    this.open = open;
+    this.high = open;
+    this.low = open;
+    this.close = open;
+    this.baseVolume = BigDecimal.zero();
+    this.quoteVolume = BigDecimal.zero();
+    this.volumeUSD = BigDecimal.zero();
+    this.tradeCount = 0;
+    this.filteredTradeCount = 0;
+    this.vwap = open;
+    this.fees = BigDecimal.zero();
+    this.feesUSD = BigDecimal.zero();
+    this.maxPriceImpact = null;
+    this.firstTradeTimestamp = null;
+    this.lastTradeTimestamp = null;
+  }
+}
+
+/**
+ * Create the trade of a swap for a pair's candle. The rate is the quote
+ * paid per base. The swap's fee is charged on the token swapped in and is
+ * added in the quote asset, converted at the rate if the base asset was
+ * swapped in
+ * 
+ * @param baseVolume The traded amount of the base asset
+ * @param quoteVolume The traded amount of the quote asset
+ * @param volumeUSD The USD value of the trade, zero if it can't be priced
+ * @param feeAmount The fee in the token swapped in, null if the pool's swap
+ *                  fee isn't known
+ * @param isBaseIn True if the base asset was swapped in
+ * @param feeUSD The USD value of the fee, null if it isn't known
+ * @param priceImpact The price impact of the swap, null if it has none
+ * @param movesPrice False if the swap only counts toward volume
+ * @param timestamp The time of the swap
+ * @returns The trade
+ */
+export function createPairTrade(baseVolume: BigDecimal, quoteVolume: BigDecimal, volumeUSD: BigDecimal, feeAmount: BigDecimal | null, isBaseIn: boolean, feeUSD: BigDecimal | null, priceImpact: BigDecimal | null, movesPrice: boolean, timestamp: BigInt): CandleTrade {
+  const rate = safeDiv(quoteVolume, baseVolume);
+  let fees = BigDecimal.zero();
+  if (feeAmount !== null) {
+    fees = isBaseIn ? feeAmount.times(rate) : feeAmount;
+  }
+  let feesUSD = BigDecimal.zero();
+  if (feeUSD !== null) {
+    feesUSD = feeUSD;
+  }
+  return new CandleTrade(rate, baseVolume, quoteVolume, volumeUSD, fees, feesUSD, priceImpact, movesPrice, timestamp);
+}
+
+/**
+ * Create the trades of a token's USD candles, in the token quoted in USDC
+ * and in USDC quoted in the token. The token's USD price is the rate, and
+ * the swapped amount of the token is the volume
+ * 
+ * @param tokenVolume The swapped amount of the token
+ * @param priceUSD The USD price of the token
+ * @param movesPrice False if the swap only counts toward volume
+ * @param timestamp The time of the swap
+ * @returns The token to USDC trade and the USDC to token trade
+ */
+export function createUSDTrades(tokenVolume: BigDecimal, priceUSD: BigDecimal, movesPrice: boolean, timestamp: BigInt): CandleTrade[] {
+  const usdcVolume = tokenVolume.times(priceUSD);
+  const usdcRate = safeDiv(BigDecimal.fromString("1"), priceUSD);
+  return [
+    new CandleTrade(priceUSD, tokenVolume, usdcVolume, usdcVolume, BigDecimal.zero(), BigDecimal.zero(), null, movesPrice, timestamp),
+    new CandleTrade(usdcRate, usdcVolume, tokenVolume, usdcVolume, BigDecimal.zero(), BigDecimal.zero(), null, movesPrice, timestamp)
+  ];
+}
+
+/**
+ * Add a trade to a candle, the high, low and close are moved, the volumes,
+ * fees, trade count and VWAP are accumulated and the largest price impact
+ * is kept. A trade that doesn't move the price only adds its volume and
+ * fees
+ * 
+ * @param state The state of the candle
+ * @param trade The trade to add
+ */
+export function applyTrade(state: CandleState, trade: CandleTrade): void {
+  const rate = trade.rate;
+  if (state.tradeCount == 0) {
+    state.firstTradeTimestamp = trade.timestamp;
+  }
+  if (trade.movesPrice) {
+    if (rate.gt(state.high)) {
+      state.high = rate;
+    }
+    if (rate.lt(state.low)) {
+      state.low = rate;
+    }
+    state.close = rate;
+    const priceImpact = trade.priceImpact;
+    if (priceImpact !== null) {
+      const maxPriceImpact = state.maxPriceImpact;
+      if (maxPriceImpact === null || priceImpact.gt(maxPriceImpact)) {
+        state.maxPriceImpact = priceImpact;
+      }
+    }
+  } else {
+    state.filteredTradeCount = state.filteredTradeCount + 1;
+  }
+  state.baseVolume = state.baseVolume.plus(trade.baseVolume);
+  state.quoteVolume = state.quoteVolume.plus(trade.quoteVolume);
+  state.volumeUSD = state.volumeUSD.plus(trade.volumeUSD);
+  state.fees = state.fees.plus(trade.fees);
+  state.feesUSD = state.feesUSD.plus(trade.feesUSD);
+  state.tradeCount = state.tradeCount + 1;
+  // The VWAP of a pair is the total quote paid for the total base traded
+  state.vwap = state.baseVolume.equals(BigDecimal.zero()) ? rate : state.quoteVolume.div(state.baseVolume);
+  state.lastTradeTimestamp = trade.timestamp;
+}
+
+/**
+ * Get the ID of the series of candles of a base and quote asset at a size
+ * 
+ * @param candleIdPrefix The prefix of the candle ids of the series
+ * @param quoteDenom The quote asset denom
+ * @param interval The candle interval
+ * @returns The series ID
+ */
+export function getCandleSeriesId(candleIdPrefix: string, quoteDenom: string, interval: string): string {
+  return `${candleIdPrefix}-${quoteDenom}-${interval}`;
+}
+
+/**
+ * Get the ID of the candle of a series at the given time
+ * 
+ * @param candleIdPrefix The prefix of the candle ids of the series
+ * @param quoteDenom The quote asset denom
+ * @param interval The candle interval
+ * @param candleTime The start of the candle's interval
+ * @returns The candle ID
+ */
+export function getCandleId(candleIdPrefix: string, quoteDenom: string, interval: string, candleTime: i64): string {
+  return `${candleIdPrefix}-${candleTime}-${quoteDenom}-${interval}`;
+}
+
+/**
+ * Get the prefix of the candle ids of a pool's pair. Candle ids include both
+ * denoms, pools can hold more than two assets
+ * 
+ * @param poolId The pool ID
+ * @param baseDenom The base asset denom
+ * @returns The prefix
+ */
+export function getPoolCandleIdPrefix(poolId: string, baseDenom: string): string {
+  return `${poolId}-${baseDenom}`;
+}
@@ -0,0 +1,109 @@
+import { BigInt } from "@graphprotocol/graph-ts";
+
+// Denoms follow the Cosmos SDK grammar [a-zA-Z][a-zA-Z0-9/:._-]{2,127}
+const DENOM_MIN_LENGTH = 3;
+const DENOM_MAX_LENGTH = 128;
+
+/**
+ * Coin is a single amount of a denom, the amount is kept in base units
+ */
+export class Coin {
+  amount: BigInt;
+  denom: string;
+
+  constructor(amount: BigInt, denom: string) {
+    this.amount = amount;
+    this.denom = denom;
+  }
+}
+
+/**
+ * CoinsParseResult holds the coins parsed from a coin string, or the reason
+ * the string could not be parsed
+ */
+export class CoinsParseResult {
+  coins: Coin[];
+  error: string;
+
+  constructor(coins: Coin[], error: string) {
+    this.coins = coins;
+    this.error = error;
+  }
+
+  isValid(): boolean {
+    return this.error == "";
+  }
+}
+
+/**
+ * Parse a Cosmos SDK coin string such as tokens_in or tokens_out into its
+ * coins. The format is {amount}{denom}, multiple coins are comma separated.
+ * Example: 1234uosmo,5678ibc/27394FB092D2ECCD56123C74F36E4C1F926001CEADA9CA97EA622B25F41E5EB2
+ * (seems regular expressions aren't supported, so this walks the characters)
+ *
+ * @param input The coin string to parse
+ * @returns The parsed coins, or the reason the input is invalid
+ */
+export function parseCoins(input: string): CoinsParseResult {
+  const coins: Coin[] = [];
+  if (input.trim() == "") {
+    return new CoinsParseResult(coins, "empty coin string");
+  }
+
+  const parts = input.split(",");
+  for (let i = 0; i < parts.length; i++) {
+    const part = parts[i].trim();
+
+    // Read the amount, all the digits up to the first non-digit
+    let amountEnd = 0;
+    while (amountEnd < part.length && isDigit(part.charAt(amountEnd))) {
+      amountEnd++;
+    }
+    if (amountEnd == 0) {
+      return new CoinsParseResult(coins, `coin "${part}" has no amount`);
+    }
+    if (amountEnd < part.length && part.charAt(amountEnd) == ".") {
+      return new CoinsParseResult(coins, `coin "${part}" has a decimal amount`);
+    }
+
+    const denom = part.substring(amountEnd).trim();
+    const denomError = validateDenom(denom);
+    if (denomError != "") {
+      return new CoinsParseResult(coins, `coin "${part}" ${denomError}`);
+    }
+
+    coins.push(new Coin(BigInt.fromString(part.substring(0, amountEnd)), denom));
+  }
+
+  return new CoinsParseResult(coins, "");
+}
+
+/**
+ * Check the denom against the Cosmos SDK denom grammar
+ *
+ * @param denom The denom to check
+ * @returns The reason the denom is invalid, or an empty string if it is valid
+ */
+export function validateDenom(denom: string): string {
+  if (denom.length < DENOM_MIN_LENGTH || denom.length > DENOM_MAX_LENGTH) {
+    return `has a denom of invalid length ${denom.length}`;
+  }
+  if (!isLetter(denom.charAt(0))) {
+    return `has a denom "${denom}" that doesn't start with a letter`;
+  }
+  for (let i = 1; i < denom.length; i++) {
+    const ch = denom.charAt(i);
+    if (!isLetter(ch) && !isDigit(ch) && ch != "/" && ch != ":" && ch != "." && ch != "_" && ch != "-") {
+      return `has a denom "${denom}" with invalid character "${ch}"`;
+    }
+  }
+  return "";
+}
+
+function isDigit(ch: string): boolean {
+  return ch >= "0" && ch <= "9";
+}
+
+function isLetter(ch: string): boolean {
+  return (ch >= "a" && ch <= "z") || (ch >= "A" && ch <= "Z");
+}
@@ -0,0 +1,114 @@
+import { BigDecimal } from "@graphprotocol/graph-ts";
+
+import { MAX_CLOSE_DEVIATION, MAX_DEVIATING_SWAPS, MIN_NOTIONAL_USD, MIN_QUOTE_NOTIONALS } from "../network";
+import { convertTokenToDecimal, safeDiv } from "./math";
+import { getLatestClose } from "./series";
+import { PairRecord, Store, SwapRecord, TokenRecord } from "./store";
+
+// The reasons a swap is filtered, the values of the SwapFilterReason enum
+export const FILTER_DUST_USD = "DUST_USD";
+export const FILTER_DUST_QUOTE = "DUST_QUOTE";
+export const FILTER_PRICE_DEVIATION = "PRICE_DEVIATION";
+
+/**
+ * Flag a swap that is too small, or too far from the previous close, to be
+ * trusted with the price. Filtered swaps count toward candle volume but don't
+ * move the open, high, low and close
+ *
+ * Filtered swaps leave the close where it was, so after MAX_DEVIATING_SWAPS
+ * swaps of the pair in a row deviate from it, the next one is taken as the
+ * new price rather than freezing the candles. Dust swaps don't count
+ *
+ * @param store The store
+ * @param swap The swap, priced and saved with its filter flag
+ * @param pair The pair of the swap, tokenIn is its base, it is saved with
+ *             its deviating swaps
+ * @param tokenIn The token that was swapped in
+ * @param tokenOut The token that was swapped out
+ */
+export function filterSwap(store: Store, swap: SwapRecord, pair: PairRecord, tokenIn: TokenRecord, tokenOut: TokenRecord): void {
+  let reason = getFilterReason(
+    swap.amountUSD,
+    tokenIn.denom,
+    convertTokenToDecimal(swap.tokenInAmount, tokenIn.decimals),
+    tokenOut.denom,
+    convertTokenToDecimal(swap.tokenOutAmount, tokenOut.decimals),
+    swap.executionPrice,
+    getLatestClose(store, pair),
+    MIN_NOTIONAL_USD,
+    MAX_CLOSE_DEVIATION,
+    MIN_QUOTE_NOTIONALS
+  );
+  if (reason == FILTER_PRICE_DEVIATION) {
+    if (pair.deviatingSwaps >= MAX_DEVIATING_SWAPS) {
+      reason = null;
+      pair.deviatingSwaps = 0;
+    } else {
+      pair.deviatingSwaps = pair.deviatingSwaps + 1;
+    }
+    store.savePair(pair);
+  } else if (reason === null && pair.deviatingSwaps > 0) {
+    pair.deviatingSwaps = 0;
+    store.savePair(pair);
+  }
+  swap.isFiltered = reason !== null;
+  swap.filterReason = reason;
+  store.saveSwap(swap);
+}
+
+/**
+ * Get the reason to filter a swap. A swap that can be priced is filtered on
+ * its USD value, otherwise on the amount of either side that has a minimum
+ * configured for its denom
+ *
+ * @param amountUSD The USD value of the swap, null or zero if it can't be
+ *                  priced
+ * @param denomIn The denom swapped in
+ * @param amountIn The amount swapped in, in display units
+ * @param denomOut The denom swapped out
+ * @param amountOut The amount swapped out, in display units
+ * @param executionPrice The execution price of the swap
+ * @param close The latest close of the swap's pair, null if it has none
+ * @param minNotionalUSD The minimum USD value of a swap, zero disables it
+ * @param maxCloseDeviation The largest fraction a swap's price may deviate
+ *                          from the close, zero disables it
+ * @param minimums The minimum amount of each denom, in display units
+ * @returns The filter reason, or null if the swap isn't filtered
+ */
+export function getFilterReason(amountUSD: BigDecimal | null, denomIn: string, amountIn: BigDecimal, denomOut: string, amountOut: BigDecimal, executionPrice: BigDecimal | null, close: BigDecimal | null, minNotionalUSD: string, maxCloseDeviation: string, minimums: Map<string, string>): string | null {
+  if (amountUSD !== null && !amountUSD.equals(BigDecimal.zero())) {
+    if (amountUSD.lt(BigDecimal.fromString(minNotionalUSD))) {
+      return FILTER_DUST_USD;
+    }
+  } else if (isBelowMinimum(denomIn, amountIn, minimums) || isBelowMinimum(denomOut, amountOut, minimums)) {
+    return FILTER_DUST_QUOTE;
+  }
+
+  const maxDeviation = BigDecimal.fromString(maxCloseDeviation);
+  if (maxDeviation.gt(BigDecimal.zero()) && executionPrice !== null && close !== null) {
+    let deviation = safeDiv(executionPrice.minus(close), close);
+    if (deviation.lt(BigDecimal.zero())) {
+      deviation = deviation.neg();
+    }
+    if (deviation.gt(maxDeviation)) {
+      return FILTER_PRICE_DEVIATION;
+    }
+  }
+  return null;
+}
+
+/**
+ * Check a swapped amount against the minimum configured for its denom
+ *
+ * @param denom The swapped denom
+ * @param amount The swapped amount in display units
+ * @param minimums The minimum amount of each denom, in display units
+ * @returns True if the amount is below the minimum, false if it isn't or
+ *          the denom has no minimum
+ */
+function isBelowMinimum(denom: string, amount: BigDecimal, minimums: Map<string, string>): boolean {
+  if (!minimums.has(denom)) {
+    return false;
+  }
+  return amount.lt(BigDecimal.fromString(minimums.get(denom)!));
+}
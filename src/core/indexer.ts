@@ -0,0 +1,312 @@
+import { Coin, parseCoins } from "./coins";
+import { filterSwap } from "./filters";
+import { convertTokenToDecimal } from "./math";
+import { createPair } from "./pairs";
+import { loadOrCreatePool, trackPool, updatePoolReserve, updatePoolShareToken, updatePoolSwapFee, updatePoolTVL } from "./pools";
+import { updatePrices } from "./pricing";
+import { RouteHop, addRouteHop, getSwapId } from "./routes";
+import { CANDLE_SIZES, closeCandles, createCandles, createUSDCandles } from "./series";
+import { EventBlock, PairRecord, PoolRecord, RouteRecord, Store, SwapRecord, TokenRecord } from "./store";
+import { getExecutionPrice, getPriceImpact } from "./swaps";
+import { POOL_SHARE_DENOM_PREFIX, getPoolIdFromShareDenom, isOwnPoolShare, loadOrCreateToken } from "./tokens";
+import { SwapValidation, getAttribute, validateSwapFee } from "./validation";
+
+// The event types that are indexed
+export const EVENT_TOKEN_SWAPPED = "token_swapped";
+export const EVENT_POOL_CREATED = "pool_created";
+export const EVENT_POOL_JOINED = "pool_joined";
+export const EVENT_POOL_EXITED = "pool_exited";
+export const EVENT_COINBASE = "coinbase";
+export const EVENT_BURN = "burn";
+
+/**
+ * IndexedSwap is a swap indexed from an event and the records it updated
+ */
+export class IndexedSwap {
+  swap: SwapRecord;
+  // The route the swap is a hop of, as of this hop
+  route: RouteRecord;
+  // The previous hop of the swap's path, null if the swap starts a path
+  previousHop: SwapRecord | null;
+  tokenIn: TokenRecord;
+  tokenOut: TokenRecord;
+  pair: PairRecord;
+  reversePair: PairRecord;
+  // Why the event's swap fee was ignored, empty if it wasn't
+  swapFeeError: string;
+  // False if the swap joined or exited its pool with the pool's own LP
+  // shares, those swaps get no candles
+  isTrade: boolean;
+  // False if the USD candles were skipped because the token swapped in has
+  // no USD price yet
+  hasUSDCandles: boolean;
+
+  constructor(swap: SwapRecord, hop: RouteHop, tokenIn: TokenRecord, tokenOut: TokenRecord, pair: PairRecord, reversePair: PairRecord, swapFeeError: string) {
+    this.swap = swap;
+    this.route = hop.route;
+    this.previousHop = hop.previous;
+    this.tokenIn = tokenIn;
+    this.tokenOut = tokenOut;
+    this.pair = pair;
+    this.reversePair = reversePair;
+    this.swapFeeError = swapFeeError;
+    this.isTrade = true;
+    this.hasUSDCandles = true;
+  }
+}
+
+/**
+ * Index a block, the candles whose interval has passed by its time are
+ * closed
+ *
+ * @param store The store
+ * @param block The block
+ */
+export function indexBlock(store: Store, block: EventBlock): void {
+  closeCandles(store, block.timestamp.toI64());
+}
+
+/**
+ * Index a validated swap event. The tokens, pair, pool reserves, prices and
+ * candles are updated and the swap is recorded
+ *
+ * GAMM, concentrated liquidity and CosmWasm pools all emit swap events,
+ * each is validated into the same swap
+ *
+ * @param store The store
+ * @param block The block of the event
+ * @param txHash The hash of the transaction that emitted the event
+ * @param eventIndex The index of the event among its transaction's swap
+ *                   events
+ * @param validation The validated swap event
+ * @param attributes The event attributes
+ * @returns The indexed swap
+ */
+export function indexSwap(store: Store, block: EventBlock, txHash: string, eventIndex: i32, validation: SwapValidation, attributes: Map<string, string>): IndexedSwap {
+  const coinIn = validation.coinIn!;
+  const coinOut = validation.coinOut!;
+
+  // Capture the tokens for this swap
+  const tokenIn = loadOrCreateToken(store, coinIn.denom);
+  const tokenOut = loadOrCreateToken(store, coinOut.denom);
+
+  // Capture the pair
+  const poolId = validation.poolId;
+  const pair = createPair(store, tokenIn, tokenOut, poolId, validation.poolType);
+  const reversePair = store.loadPair(pair.reverse!)!;
+
+  // The swapped coins move in and out of the pool's reserves
+  const pool = loadOrCreatePool(store, poolId, block);
+  pool.poolType = validation.poolType;
+  updatePoolSwapFee(pool, attributes);
+  updatePoolReserve(store, pool, tokenIn, coinIn.amount);
+  updatePoolReserve(store, pool, tokenOut, coinOut.amount.neg());
+  pool.swapCount = pool.swapCount + 1;
+
+  // Capture the swap as a hop of its route
+  const swap = createSwap(store, block, txHash, eventIndex, validation, tokenIn, tokenOut, pair, pool);
+  const hop = addRouteHop(store, swap, attributes);
+  const indexed = new IndexedSwap(swap, hop, tokenIn, tokenOut, pair, reversePair, validateSwapFee(attributes));
+
+  // Update the USD prices of the tokens and the swap
+  updatePrices(store, tokenIn, tokenOut, swap, block);
+
+  // Flag dust and outlier swaps so they don't move the candles' prices
+  filterSwap(store, swap, pair, tokenIn, tokenOut);
+
+  // Value the pool at the updated prices
+  updatePoolTVL(store, pool, block);
+
+  // Swapping a pool's own LP shares in it joins or exits the pool, it isn't
+  // a trade of the shares and gets no candles
+  if (isOwnPoolShare(tokenIn.denom, poolId) || isOwnPoolShare(tokenOut.denom, poolId)) {
+    indexed.isTrade = false;
+    return indexed;
+  }
+
+  // Create candles for the given intervals, and token <> USDC candles
+  createCandles(store, swap, pair, reversePair, tokenIn, tokenOut, CANDLE_SIZES);
+  indexed.hasUSDCandles = createUSDCandles(store, tokenIn, swap, CANDLE_SIZES);
+
+  return indexed;
+}
+
+/**
+ * Index a pool_created event, the pool is recorded with its creation block
+ * and its reserves and share supply are tracked from it
+ *
+ * @param store The store
+ * @param block The block of the event
+ * @param attributes The event attributes
+ */
+export function indexPoolCreated(store: Store, block: EventBlock, attributes: Map<string, string>): void {
+  const pool = loadOrCreatePool(store, getAttribute(attributes, "pool_id"), block);
+  pool.createdAtHeight = block.height;
+  pool.createdAtTimestamp = block.timestamp;
+  updatePoolSwapFee(pool, attributes);
+  trackPool(store, pool, block);
+  updatePoolTVL(store, pool, block);
+}
+
+/**
+ * Index a liquidity deposit into a pool, the deposited coins are added to
+ * the pool's reserves
+ *
+ * @param store The store
+ * @param block The block of the event
+ * @param attributes The pool_joined event attributes
+ */
+export function indexPoolJoined(store: Store, block: EventBlock, attributes: Map<string, string>): void {
+  const coins = getEventCoins(store, block, EVENT_POOL_JOINED, attributes, "tokens_in");
+  if (coins === null) {
+    return;
+  }
+
+  const pool = loadOrCreatePool(store, getAttribute(attributes, "pool_id"), block);
+  for (let i = 0; i < coins.length; i++) {
+    updatePoolReserve(store, pool, loadOrCreateToken(store, coins[i].denom), coins[i].amount);
+  }
+  pool.joinCount = pool.joinCount + 1;
+  updatePoolTVL(store, pool, block);
+}
+
+/**
+ * Index a liquidity withdrawal from a pool, the withdrawn coins are taken
+ * from the pool's reserves
+ *
+ * @param store The store
+ * @param block The block of the event
+ * @param attributes The pool_exited event attributes
+ */
+export function indexPoolExited(store: Store, block: EventBlock, attributes: Map<string, string>): void {
+  const coins = getEventCoins(store, block, EVENT_POOL_EXITED, attributes, "tokens_out");
+  if (coins === null) {
+    return;
+  }
+
+  const pool = loadOrCreatePool(store, getAttribute(attributes, "pool_id"), block);
+  for (let i = 0; i < coins.length; i++) {
+    updatePoolReserve(store, pool, loadOrCreateToken(store, coins[i].denom), coins[i].amount.neg());
+  }
+  pool.exitCount = pool.exitCount + 1;
+  updatePoolTVL(store, pool, block);
+}
+
+/**
+ * Index a mint or burn, minted LP shares are added to their pool's share
+ * supply and burned ones are taken from it. The supply of a pool that isn't
+ * tracked isn't known, only its net mints are counted
+ *
+ * @param store The store
+ * @param block The block of the event
+ * @param attributes The coinbase or burn event attributes
+ * @param burned True if the coins were burned
+ */
+export function indexPoolShares(store: Store, block: EventBlock, attributes: Map<string, string>, burned: boolean): void {
+  // Most mints and burns aren't LP shares, check before parsing
+  if (!getAttribute(attributes, "amount").includes(POOL_SHARE_DENOM_PREFIX)) {
+    return;
+  }
+  const coins = getEventCoins(store, block, burned ? EVENT_BURN : EVENT_COINBASE, attributes, "amount");
+  if (coins === null) {
+    return;
+  }
+
+  for (let i = 0; i < coins.length; i++) {
+    const poolId = getPoolIdFromShareDenom(coins[i].denom);
+    if (poolId == "") {
+      continue;
+    }
+    loadOrCreateToken(store, coins[i].denom);
+    const pool = loadOrCreatePool(store, poolId, block);
+    const shares = burned ? coins[i].amount.neg() : coins[i].amount;
+    pool.netSharesMinted = pool.netSharesMinted.plus(shares);
+    const totalShares = pool.totalShares;
+    if (totalShares !== null) {
+      pool.totalShares = totalShares.plus(shares);
+    }
+    store.savePool(pool);
+    updatePoolShareToken(store, pool);
+  }
+}
+
+/**
+ * Create the swap of a validated swap event
+ *
+ * The price impact is how much worse the swap executed than the previous
+ * swap in the same pool and direction, negative if it executed better
+ *
+ * @param store The store
+ * @param block The block of the event
+ * @param txHash The hash of the transaction that emitted the event
+ * @param eventIndex The index of the event among its transaction's swap
+ *                   events
+ * @param validation The validated swap event
+ * @param tokenIn The token that was swapped in
+ * @param tokenOut The token that was swapped out
+ * @param pair The pair that was traded, tokenIn is its base, it is saved
+ *             with the execution price
+ * @param pool The pool the swap was made in
+ * @returns The swap, it is saved
+ */
+function createSwap(store: Store, block: EventBlock, txHash: string, eventIndex: i32, validation: SwapValidation, tokenIn: TokenRecord, tokenOut: TokenRecord, pair: PairRecord, pool: PoolRecord): SwapRecord {
+  const amountIn = validation.coinIn!.amount;
+  const amountOut = validation.coinOut!.amount;
+
+  // Swaps are keyed by the transaction hash and the index of the event
+  // among the transaction's swap events, so every hop of a route is kept
+  const swap = new SwapRecord(getSwapId(txHash, eventIndex), block, txHash, eventIndex);
+  swap.sender = validation.sender;
+  swap.account = validation.sender;
+  swap.poolId = validation.poolId;
+  swap.pool = validation.poolId;
+  swap.poolType = validation.poolType;
+  swap.pair = pair.id;
+  swap.tokens = [tokenIn.denom, tokenOut.denom];
+  swap.tokenIn = tokenIn.denom;
+  swap.tokenInAmount = amountIn;
+  swap.tokenOut = tokenOut.denom;
+  swap.tokenOutAmount = amountOut;
+  // The price the swap executed at in display units, tokenOut per tokenIn
+  const amountInDecimal = convertTokenToDecimal(amountIn, tokenIn.decimals);
+  const executionPrice = getExecutionPrice(amountInDecimal, convertTokenToDecimal(amountOut, tokenOut.decimals));
+  swap.executionPrice = executionPrice;
+
+  const lastExecutionPrice = pair.lastExecutionPrice;
+  if (lastExecutionPrice !== null) {
+    swap.priceImpact = getPriceImpact(lastExecutionPrice, executionPrice);
+  }
+  pair.lastExecutionPrice = executionPrice;
+  store.savePair(pair);
+
+  // The fee is charged on the amount swapped in
+  const swapFee = pool.swapFee;
+  if (swapFee !== null) {
+    swap.swapFee = swapFee;
+    swap.feeAmount = amountInDecimal.times(swapFee);
+  }
+  store.saveSwap(swap);
+
+  return swap;
+}
+
+/**
+ * Parse the coins in the given event attribute, if they can't be parsed the
+ * event is reported as passed over and null is returned
+ *
+ * @param store The store
+ * @param block The block of the event
+ * @param eventType The type of the event
+ * @param attributes The event attributes
+ * @param key The attribute holding the coins
+ * @returns The coins, or null if the attribute can't be parsed
+ */
+function getEventCoins(store: Store, block: EventBlock, eventType: string, attributes: Map<string, string>, key: string): Coin[] | null {
+  const value = getAttribute(attributes, key);
+  const result = parseCoins(value);
+  if (!result.isValid()) {
+    store.warn(`Skipping ${eventType} at height ${block.height.toString()}: ${key} "${value}" ${result.error}`);
+    return null;
+  }
+  return result.coins;
+}
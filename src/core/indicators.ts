@@ -0,0 +1,212 @@
+import { BigDecimal } from "@graphprotocol/graph-ts";
+
+import { safeDiv, sqrt } from "./math";
+
+const SMA_PERIOD = 20;
+const RSI_PERIOD = 14;
+// Bollinger bands are drawn this many standard deviations either side of
+// the SMA
+const BOLLINGER_DEVIATIONS = 2;
+
+/**
+ * IndicatorState is what the indicators of a series' open candle are
+ * updated from, the indicators at the close of its latest closed candle.
+ * It's kept on the series and moves on as each candle closes
+ */
+export class IndicatorState {
+  // The number of closed candles
+  count: i32;
+  // The closes of the latest closed candles the SMA needs besides the open
+  // candle's own, oldest first, and their sum
+  closes: BigDecimal[];
+  closesSum: BigDecimal;
+  close: BigDecimal | null;
+  ema9: BigDecimal | null;
+  ema21: BigDecimal | null;
+  ema50: BigDecimal | null;
+  avgGain: BigDecimal;
+  avgLoss: BigDecimal;
+
+  /**
+   * Create the state of a series without closed candles
+   */
+  constructor() {
+    this.count = 0;
+    this.closes = [];
+    this.closesSum = BigDecimal.zero();
+    this.close = null;
+    this.ema9 = null;
+    this.ema21 = null;
+    this.ema50 = null;
+    this.avgGain = BigDecimal.zero();
+    this.avgLoss = BigDecimal.zero();
+  }
+}
+
+/**
+ * Indicators are the indicators of a candle at its current close
+ */
+export class Indicators {
+  ema9: BigDecimal;
+  ema21: BigDecimal;
+  ema50: BigDecimal;
+  sma20: BigDecimal | null;
+  rsi14: BigDecimal | null;
+  bollingerWidth: BigDecimal | null;
+
+  constructor(ema9: BigDecimal, ema21: BigDecimal, ema50: BigDecimal, sma20: BigDecimal | null, rsi14: BigDecimal | null, bollingerWidth: BigDecimal | null) {
+    this.ema9 = ema9;
+    this.ema21 = ema21;
+    this.ema50 = ema50;
+    this.sma20 = sma20;
+    this.rsi14 = rsi14;
+    this.bollingerWidth = bollingerWidth;
+  }
+}
+
+/**
+ * Compute the indicators of a series' open candle at its current close.
+ * Each is a step on from the state, so updates cost the same however long
+ * the series is. The Bollinger band width is left empty until the candle
+ * closes, the SMA, band width and RSI until the series has enough candles
+ *
+ * @param state The indicator state of the series
+ * @param close The close of the candle
+ * @returns The indicators
+ */
+export function computeIndicators(state: IndicatorState, close: BigDecimal): Indicators {
+  const ema9 = getEma(state.ema9, close, 9);
+  const ema21 = getEma(state.ema21, close, 21);
+  const ema50 = getEma(state.ema50, close, 50);
+
+  let sma20: BigDecimal | null = null;
+  if (state.closes.length == SMA_PERIOD - 1) {
+    sma20 = state.closesSum.plus(close).div(BigDecimal.fromString(SMA_PERIOD.toString()));
+  }
+
+  let rsi14: BigDecimal | null = null;
+  if (state.count >= RSI_PERIOD) {
+    const averages = getAverageGainAndLoss(state, close);
+    rsi14 = getRsi(averages[0], averages[1]);
+  }
+
+  return new Indicators(ema9, ema21, ema50, sma20, rsi14, null);
+}
+
+/**
+ * Close a series' open candle: its final indicators are computed, with the
+ * Bollinger band width, and the state moves on to them
+ *
+ * @param state The indicator state of the series, it is updated
+ * @param close The final close of the candle
+ * @returns The final indicators of the candle
+ */
+export function closeIndicators(state: IndicatorState, close: BigDecimal): Indicators {
+  const indicators = computeIndicators(state, close);
+  const sma20 = indicators.sma20;
+  if (sma20 !== null) {
+    indicators.bollingerWidth = getBollingerWidth(state.closes, close, sma20);
+  }
+
+  const averages = getAverageGainAndLoss(state, close);
+  state.avgGain = averages[0];
+  state.avgLoss = averages[1];
+
+  // Keep the closes the next candle's SMA needs
+  let closes = state.closes.slice(0);
+  let closesSum = state.closesSum.plus(close);
+  closes.push(close);
+  if (closes.length > SMA_PERIOD - 1) {
+    closesSum = closesSum.minus(closes[0]);
+    closes = closes.slice(1);
+  }
+  state.closes = closes;
+  state.closesSum = closesSum;
+
+  state.count = state.count + 1;
+  state.close = close;
+  state.ema9 = indicators.ema9;
+  state.ema21 = indicators.ema21;
+  state.ema50 = indicators.ema50;
+  return indicators;
+}
+
+/**
+ * Get the average gain and loss between closes up to a candle, over the
+ * changes seen so far until there are RSI_PERIOD of them and with Wilder's
+ * smoothing after
+ *
+ * @param state The indicator state of the series
+ * @param close The close of the candle
+ * @returns The average gain and the average loss
+ */
+function getAverageGainAndLoss(state: IndicatorState, close: BigDecimal): BigDecimal[] {
+  const previousClose = state.close;
+  if (previousClose === null) {
+    return [BigDecimal.zero(), BigDecimal.zero()];
+  }
+  const change = close.minus(previousClose);
+  const gain = change.gt(BigDecimal.zero()) ? change : BigDecimal.zero();
+  const loss = change.lt(BigDecimal.zero()) ? change.neg() : BigDecimal.zero();
+  const period = state.count < RSI_PERIOD ? state.count : RSI_PERIOD;
+  const periodDecimal = BigDecimal.fromString(period.toString());
+  const carried = BigDecimal.fromString((period - 1).toString());
+  return [
+    state.avgGain.times(carried).plus(gain).div(periodDecimal),
+    state.avgLoss.times(carried).plus(loss).div(periodDecimal)
+  ];
+}
+
+/**
+ * Get the Bollinger band width, the distance between the bands relative to
+ * the SMA
+ *
+ * @param closes The closes before the candle's over the SMA period
+ * @param close The close of the candle
+ * @param sma The SMA at the candle's close
+ * @returns The band width
+ */
+function getBollingerWidth(closes: BigDecimal[], close: BigDecimal, sma: BigDecimal): BigDecimal {
+  let difference = close.minus(sma);
+  let squares = difference.times(difference);
+  for (let i = 0; i < closes.length; i++) {
+    difference = closes[i].minus(sma);
+    squares = squares.plus(difference.times(difference));
+  }
+  const deviation = sqrt(squares.div(BigDecimal.fromString(SMA_PERIOD.toString())));
+  const bands = BigDecimal.fromString((2 * BOLLINGER_DEVIATIONS).toString());
+  return safeDiv(deviation.times(bands), sma);
+}
+
+/**
+ * Get the exponential moving average at a close
+ *
+ * @param previousEma The EMA of the previous candle, null for the first
+ *                    candle of a series, which seeds the EMA with its close
+ * @param close The close of the candle
+ * @param period The number of candles the EMA is over
+ * @returns The EMA
+ */
+function getEma(previousEma: BigDecimal | null, close: BigDecimal, period: i32): BigDecimal {
+  if (previousEma === null) {
+    return close;
+  }
+  const multiplier = BigDecimal.fromString("2").div(BigDecimal.fromString((period + 1).toString()));
+  return previousEma.plus(close.minus(previousEma).times(multiplier));
+}
+
+/**
+ * Get the relative strength index from the average gain and loss
+ *
+ * @param avgGain The average gain between closes
+ * @param avgLoss The average loss between closes
+ * @returns The RSI from 0 to 100, 50 if the price hasn't moved
+ */
+function getRsi(avgGain: BigDecimal, avgLoss: BigDecimal): BigDecimal {
+  const hundred = BigDecimal.fromString("100");
+  if (avgLoss.equals(BigDecimal.zero())) {
+    return avgGain.equals(BigDecimal.zero()) ? BigDecimal.fromString("50") : hundred;
+  }
+  const relativeStrength = avgGain.div(avgLoss);
+  return hundred.minus(hundred.div(BigDecimal.fromString("1").plus(relativeStrength)));
+}
@@ -0,0 +1,190 @@
+import {
+  CandleSize,
+  TIMEFRAME_DAY,
+  TIMEFRAME_HOUR,
+  TIMEFRAME_MINUTE,
+  TIMEFRAME_MONTH,
+  TIMEFRAME_WEEK
+} from "../types";
+
+const SECONDS_PER_MINUTE: i64 = 60;
+const SECONDS_PER_HOUR: i64 = 3600;
+const SECONDS_PER_DAY: i64 = 86400;
+const SECONDS_PER_WEEK: i64 = 7 * SECONDS_PER_DAY;
+// 1970-01-05, the first Monday after the epoch, weeks are counted from here
+const FIRST_MONDAY: i64 = 4 * SECONDS_PER_DAY;
+
+/**
+ * Get the candle sizes that are enabled in the configuration
+ * 
+ * @param config The configured candle sizes
+ * @returns The enabled candle sizes
+ */
+export function getEnabledCandleSizes(config: CandleSize[]): CandleSize[] {
+  const sizes: CandleSize[] = [];
+  for (let i = 0; i < config.length; i++) {
+    if (config[i].enabled) {
+      sizes.push(config[i]);
+    }
+  }
+  return sizes;
+}
+
+/**
+ * Get the name of the Interval enum value for a candle size, the timeframe
+ * in upper case followed by the divisor. Example: HOUR_4
+ * 
+ * @param timeframe The timeframe of the candle size
+ * @param divisor The number of timeframe units in the candle size
+ * @returns The Interval enum value
+ */
+export function getIntervalName(timeframe: string, divisor: i32): string {
+  return `${timeframe.toUpperCase()}_${divisor}`;
+}
+
+/**
+ * Get the short label of a candle size that candle IDs are keyed by, the
+ * divisor followed by the timeframe's unit. Example: 4h, 1M for a month
+ * 
+ * @param timeframe The timeframe of the candle size
+ * @param divisor The number of timeframe units in the candle size
+ * @returns The label
+ */
+export function getIntervalLabel(timeframe: string, divisor: i32): string {
+  let unit = "";
+  if (timeframe == TIMEFRAME_MINUTE) {
+    unit = "m";
+  } else if (timeframe == TIMEFRAME_HOUR) {
+    unit = "h";
+  } else if (timeframe == TIMEFRAME_DAY) {
+    unit = "d";
+  } else if (timeframe == TIMEFRAME_WEEK) {
+    unit = "w";
+  } else if (timeframe == TIMEFRAME_MONTH) {
+    unit = "M";
+  }
+  return `${divisor}${unit}`;
+}
+
+/**
+ * Get the candle interval for a given timestamp and divisor
+ * 
+ * @param timestamp The block timestamp
+ * @param timeframe The timeframe of the candle size
+ * @param divisor The number of timeframe units in the candle size
+ * @returns The start of the interval the timestamp falls in
+ */
+export function getInterval(timestamp: i64, timeframe: string, divisor: i32): i64 {
+  const date = new Date(timestamp * 1000);
+  if (timeframe == TIMEFRAME_MINUTE) {
+    const minutes = date.getUTCMinutes();
+    const minutesToPreviousInterval = minutes - (minutes % divisor);
+    date.setUTCMinutes(minutesToPreviousInterval);
+    date.setUTCSeconds(0);
+    return date.getTime() / 1000;
+  }
+  if (timeframe == TIMEFRAME_HOUR) {
+    const hours = date.getUTCHours();
+    const hoursToPreviousInterval = hours - (hours % divisor);
+    date.setUTCHours(hoursToPreviousInterval);
+    date.setUTCMinutes(0);
+    date.setUTCSeconds(0);
+    return date.getTime() / 1000;
+  }
+  if (timeframe == TIMEFRAME_DAY) {
+    date.setUTCHours(0);
+    date.setUTCMinutes(0);
+    date.setUTCSeconds(0);
+    return date.getTime() / 1000;
+  }
+  if (timeframe == TIMEFRAME_WEEK) {
+    // ISO weeks start on Monday, getUTCDay is 0 for Sunday
+    const daysSinceMonday: i64 = (date.getUTCDay() + 6) % 7;
+    const weeks: i64 = divisor;
+    const monday = timestamp - (timestamp % SECONDS_PER_DAY) - daysSinceMonday * SECONDS_PER_DAY;
+    return monday - ((monday - FIRST_MONDAY) % (weeks * SECONDS_PER_WEEK));
+  }
+  if (timeframe == TIMEFRAME_MONTH) {
+    const month = date.getUTCMonth();
+    return getMonthStart(date.getUTCFullYear(), month - (month % divisor));
+  }
+  return 0;
+}
+
+/**
+ * Get the start of the candle interval following the one that starts at
+ * the given timestamp
+ * 
+ * @param timestamp The start of a candle interval
+ * @param timeframe The timeframe of the candle size
+ * @param divisor The number of timeframe units in the candle size
+ * @returns The start of the next interval
+ */
+export function getNextInterval(timestamp: i64, timeframe: string, divisor: i32): i64 {
+  const units: i64 = divisor;
+  if (timeframe == TIMEFRAME_MINUTE) {
+    return timestamp + units * SECONDS_PER_MINUTE;
+  }
+  if (timeframe == TIMEFRAME_HOUR) {
+    return timestamp + units * SECONDS_PER_HOUR;
+  }
+  if (timeframe == TIMEFRAME_DAY) {
+    return timestamp + units * SECONDS_PER_DAY;
+  }
+  if (timeframe == TIMEFRAME_WEEK) {
+    return timestamp + units * SECONDS_PER_WEEK;
+  }
+  if (timeframe == TIMEFRAME_MONTH) {
+    // Months vary in length, so step the calendar instead of adding seconds
+    const date = new Date(timestamp * 1000);
+    return getMonthStart(date.getUTCFullYear(), date.getUTCMonth() + divisor);
+  }
+  return 0;
+}
+
+/**
+ * Get the start of the candle interval a number of intervals before the one
+ * that starts at the given timestamp
+ * 
+ * @param timestamp The start of a candle interval
+ * @param timeframe The timeframe of the candle size
+ * @param divisor The number of timeframe units in the candle size
+ * @param count The number of intervals to step back
+ * @returns The start of the earlier interval
+ */
+export function getPreviousInterval(timestamp: i64, timeframe: string, divisor: i32, count: i32): i64 {
+  const units: i64 = (divisor as i64) * (count as i64);
+  if (timeframe == TIMEFRAME_MINUTE) {
+    return timestamp - units * SECONDS_PER_MINUTE;
+  }
+  if (timeframe == TIMEFRAME_HOUR) {
+    return timestamp - units * SECONDS_PER_HOUR;
+  }
+  if (timeframe == TIMEFRAME_DAY) {
+    return timestamp - units * SECONDS_PER_DAY;
+  }
+  if (timeframe == TIMEFRAME_WEEK) {
+    return timestamp - units * SECONDS_PER_WEEK;
+  }
+  if (timeframe == TIMEFRAME_MONTH) {
+    // Count months from year 0 so the month stays positive
+    const date = new Date(timestamp * 1000);
+    return getMonthStart(0, date.getUTCFullYear() * 12 + date.getUTCMonth() - (units as i32));
+  }
+  return 0;
+}
+
+/**
+ * Get the timestamp of the first second of a calendar month
+ * 
+ * @param year The year
+ * @param month The zero based month, months past December roll over into
+ * the following years
+ * @returns The start of the month
+ */
+function getMonthStart(year: i32, month: i32): i64 {
+  // Whole years are divided out exactly, so the result is the same in
+  // AssemblyScript's integer division and JavaScript's
+  const monthOfYear = month % 12;
+  return Date.UTC(year + (month - monthOfYear) / 12, monthOfYear, 1) / 1000;
+}
@@ -0,0 +1,69 @@
+import { BigDecimal, BigInt } from "@graphprotocol/graph-ts";
+
+/**
+ * Get 10^decimals as a BigDecimal
+ *
+ * @param decimals The number of decimals
+ * @returns The scaling factor for the given decimals
+ */
+export function exponentToBigDecimal(decimals: i32): BigDecimal {
+  return BigInt.fromI32(10).pow(decimals as u8).toBigDecimal();
+}
+
+/**
+ * Convert an amount in base units to display units, for example
+ * 1500000uosmo to 1.5 OSMO
+ *
+ * @param amount The amount in base units
+ * @param decimals The number of decimals of the token
+ * @returns The amount in display units
+ */
+export function convertTokenToDecimal(amount: BigInt, decimals: i32): BigDecimal {
+  if (decimals == 0) {
+    return amount.toBigDecimal();
+  }
+  return amount.toBigDecimal().div(exponentToBigDecimal(decimals));
+}
+
+/**
+ * Divide two decimals, returning zero rather than failing when the divisor
+ * is zero
+ *
+ * @param amount The dividend
+ * @param divisor The divisor
+ * @returns The quotient or zero
+ */
+export function safeDiv(amount: BigDecimal, divisor: BigDecimal): BigDecimal {
+  if (divisor.equals(BigDecimal.zero())) {
+    return BigDecimal.zero();
+  }
+  return amount.div(divisor);
+}
+
+// Newton's method doubles the correct digits with each step, from a float
+// estimate it reaches a decimal's precision within this many
+const SQRT_ITERATIONS = 8;
+
+/**
+ * Get the square root of a decimal, graph-ts has none so it's found with
+ * Newton's method from the float square root
+ *
+ * @param value The decimal
+ * @returns The square root, or zero for values that aren't positive
+ */
+export function sqrt(value: BigDecimal): BigDecimal {
+  const two = BigDecimal.fromString("2");
+  if (value.le(BigDecimal.zero())) {
+    return BigDecimal.zero();
+  }
+
+  let guess = BigDecimal.fromString(Math.sqrt(parseFloat(value.toString())).toString());
+  for (let i = 0; i < SQRT_ITERATIONS; i++) {
+    const next = guess.plus(value.div(guess)).div(two);
+    if (next.equals(guess)) {
+      break;
+    }
+    guess = next;
+  }
+  return guess;
+}
@@ -0,0 +1,77 @@
+import { PairRecord, Store, TokenRecord } from "./store";
+
+/**
+ * Get the ID of the pair of a base and quote asset in a pool
+ *
+ * @param baseDenom The base asset denom
+ * @param quoteDenom The quote asset denom
+ * @param poolId The pool the assets are traded in
+ * @returns The pair ID
+ */
+export function getPairId(baseDenom: string, quoteDenom: string, poolId: string): string {
+  return `${baseDenom}-${quoteDenom}-${poolId}`;
+}
+
+/**
+ * Get the ID shared by both directions of a pool's pair, made from the pool
+ * ID and the denoms in sorted order
+ *
+ * @param baseDenom The base asset denom
+ * @param quoteDenom The quote asset denom
+ * @param poolId The pool the assets are traded in
+ * @returns The canonical pair ID
+ */
+export function getCanonicalPairId(baseDenom: string, quoteDenom: string, poolId: string): string {
+  return baseDenom < quoteDenom
+    ? `${poolId}-${baseDenom}-${quoteDenom}`
+    : `${poolId}-${quoteDenom}-${baseDenom}`;
+}
+
+/**
+ * Create the pair of the base and quote tokens in a pool if it doesn't
+ * exist, in both directions since an AMM trades both ways. Otherwise return
+ * the existing pair
+ *
+ * @param store The store
+ * @param base The base token
+ * @param quote The quote token
+ * @param poolId The pool the tokens are traded in
+ * @param poolType The type of the pool
+ * @returns The created or existing pair, its reverse is linked
+ */
+export function createPair(store: Store, base: TokenRecord, quote: TokenRecord, poolId: string, poolType: string): PairRecord {
+  const canonicalId = getCanonicalPairId(base.denom, quote.denom, poolId);
+  const pair = savePair(store, base, quote, poolId, poolType, canonicalId);
+  const reversePair = savePair(store, quote, base, poolId, poolType, canonicalId);
+
+  pair.reverse = reversePair.id;
+  store.savePair(pair);
+  reversePair.reverse = pair.id;
+  store.savePair(reversePair);
+
+  return pair;
+}
+
+/**
+ * Create or update the pair of the base and quote tokens in a pool
+ *
+ * @param store The store
+ * @param base The base token
+ * @param quote The quote token
+ * @param poolId The pool the tokens are traded in
+ * @param poolType The type of the pool
+ * @param canonicalId The ID shared by both directions of the pair
+ * @returns The created or existing pair, the caller saves it
+ */
+function savePair(store: Store, base: TokenRecord, quote: TokenRecord, poolId: string, poolType: string, canonicalId: string): PairRecord {
+  const pairId = getPairId(base.denom, quote.denom, poolId);
+  let pair = store.loadPair(pairId);
+  if (pair === null) {
+    pair = new PairRecord(pairId, canonicalId, poolId, base.denom, quote.denom);
+  }
+  pair.symbol = `${base.symbol}-${quote.symbol}`;
+  pair.name = `${base.name} - ${quote.name}`;
+  pair.poolType = poolType;
+
+  return pair as PairRecord;
+}
@@ -0,0 +1,232 @@
+import { BigDecimal, BigInt } from "@graphprotocol/graph-ts";
+
+import { POOL_SNAPSHOT_RESERVES, POOL_SNAPSHOT_SHARES, POOL_SWAP_FEES, REFERENCE_DENOM, START_BLOCK } from "../network";
+import { parseCoins } from "./coins";
+import { convertTokenToDecimal, safeDiv } from "./math";
+import { EventBlock, PoolAssetRecord, PoolRecord, Store, TokenRecord } from "./store";
+import { SWAP_FEE_ATTRIBUTES } from "./swaps";
+import { getPoolSharePrice, getShareDenom, loadOrCreateToken } from "./tokens";
+import { getAttribute, isDecimal } from "./validation";
+
+/**
+ * Load the pool with the given ID, or create it if it hasn't been seen yet.
+ * Pools created before the start block are created by their first event,
+ * seeded from their snapshot if the network configuration has one
+ *
+ * @param store The store
+ * @param poolId The pool ID
+ * @param block The block of the event
+ * @returns The existing or created pool, the caller saves it
+ */
+export function loadOrCreatePool(store: Store, poolId: string, block: EventBlock): PoolRecord {
+  let pool = store.loadPool(poolId);
+  if (pool === null) {
+    pool = new PoolRecord(poolId, block);
+    if (POOL_SNAPSHOT_SHARES.has(poolId)) {
+      seedPool(store, pool, block);
+    }
+  }
+  return pool as PoolRecord;
+}
+
+/**
+ * Start tracking a pool's reserves and share supply from its creation. Its
+ * reserves start empty, and its shares are those minted since it was first
+ * seen, as the initial shares are minted before the pool_created event
+ *
+ * @param store The store
+ * @param pool The pool, the caller saves it
+ * @param block The block of the pool_created event
+ */
+export function trackPool(store: Store, pool: PoolRecord, block: EventBlock): void {
+  if (pool.trackedFromHeight !== null) {
+    return;
+  }
+  pool.trackedFromHeight = block.height;
+  pool.totalShares = pool.netSharesMinted;
+  const tokens = pool.tokens;
+  for (let i = 0; i < tokens.length; i++) {
+    const asset = store.loadPoolAsset(getPoolAssetId(pool.id, tokens[i]));
+    if (asset !== null) {
+      asset.reserve = BigInt.zero();
+      asset.amount = BigDecimal.zero();
+      store.savePoolAsset(asset);
+    }
+  }
+}
+
+/**
+ * Take the pool's swap fee from the event if it carries one, otherwise use
+ * the configured fee of the pool if it doesn't have one yet. GAMM swap
+ * events don't carry one
+ *
+ * @param pool The pool, the caller saves it
+ * @param attributes The event attributes
+ */
+export function updatePoolSwapFee(pool: PoolRecord, attributes: Map<string, string>): void {
+  for (let i = 0; i < SWAP_FEE_ATTRIBUTES.length; i++) {
+    const value = getAttribute(attributes, SWAP_FEE_ATTRIBUTES[i]);
+    if (value != "") {
+      // An invalid fee is recorded as an issue of the swap, the pool
+      // keeps the fee it has
+      if (isDecimal(value)) {
+        pool.swapFee = BigDecimal.fromString(value);
+        return;
+      }
+      break;
+    }
+  }
+  if (pool.swapFee === null && POOL_SWAP_FEES.has(pool.id)) {
+    pool.swapFee = BigDecimal.fromString(POOL_SWAP_FEES.get(pool.id)!);
+  }
+}
+
+/**
+ * Add an amount to the pool's reserve of a token, a negative amount takes
+ * it out. The reserves of a pool that isn't tracked aren't known, so only
+ * the token is added to the pool
+ *
+ * @param store The store
+ * @param pool The pool, the caller saves it
+ * @param token The token of the reserve
+ * @param amount The amount to add in base units
+ * @returns The updated reserve
+ */
+export function updatePoolReserve(store: Store, pool: PoolRecord, token: TokenRecord, amount: BigInt): PoolAssetRecord {
+  const assetId = getPoolAssetId(pool.id, token.denom);
+  let asset = store.loadPoolAsset(assetId);
+  if (asset === null) {
+    asset = new PoolAssetRecord(assetId, pool.id, token.id);
+
+    const tokens = pool.tokens;
+    tokens.push(token.id);
+    pool.tokens = tokens;
+  }
+  if (pool.trackedFromHeight !== null) {
+    const reserve = asset.reserve;
+    const updated = reserve !== null ? reserve.plus(amount) : amount;
+    asset.reserve = updated;
+    asset.amount = convertTokenToDecimal(updated, token.decimals);
+  }
+  store.savePoolAsset(asset);
+
+  return asset as PoolAssetRecord;
+}
+
+/**
+ * Get the pool's reserve of a token in display units
+ *
+ * @param store The store
+ * @param poolId The pool ID
+ * @param denom The denom of the token
+ * @returns The reserve, or null if it isn't known
+ */
+export function getPoolReserve(store: Store, poolId: string, denom: string): BigDecimal | null {
+  const asset = store.loadPoolAsset(getPoolAssetId(poolId, denom));
+  if (asset === null) {
+    return null;
+  }
+  return asset.amount;
+}
+
+/**
+ * Value the pool's reserves at their tokens' USD prices and record when the
+ * pool was last updated. Reserves of tokens without a price aren't counted,
+ * and a pool that isn't tracked has no TVL
+ *
+ * @param store The store
+ * @param pool The pool, it is saved
+ * @param block The block of the event
+ */
+export function updatePoolTVL(store: Store, pool: PoolRecord, block: EventBlock): void {
+  if (pool.trackedFromHeight !== null) {
+    let tvlUSD = BigDecimal.zero();
+    const tokens = pool.tokens;
+    for (let i = 0; i < tokens.length; i++) {
+      const asset = store.loadPoolAsset(getPoolAssetId(pool.id, tokens[i]));
+      const token = store.loadToken(tokens[i]);
+      if (asset === null || token === null) {
+        continue;
+      }
+      const amount = asset.amount;
+      const priceUSD = token.priceUSD;
+      if (amount !== null && priceUSD !== null) {
+        const valueUSD = amount.times(priceUSD);
+        asset.valueUSD = valueUSD;
+        store.savePoolAsset(asset);
+        tvlUSD = tvlUSD.plus(valueUSD);
+      }
+    }
+    pool.tvlUSD = tvlUSD;
+  }
+  pool.lastUpdatedHeight = block.height;
+  pool.lastUpdatedTimestamp = block.timestamp;
+  store.savePool(pool);
+  updatePoolShareToken(store, pool);
+}
+
+/**
+ * Update the LP share token of a pool, if it has been seen, with the pool's
+ * assets and price it from the pool's reserves. Shares of a pool that isn't
+ * tracked aren't priced
+ *
+ * @param store The store
+ * @param pool The pool
+ */
+export function updatePoolShareToken(store: Store, pool: PoolRecord): void {
+  const token = store.loadToken(getShareDenom(pool.id));
+  if (token === null) {
+    return;
+  }
+  token.underlyingAssets = pool.tokens;
+  const tvlUSD = pool.tvlUSD;
+  const totalShares = pool.totalShares;
+  const priceUSD = tvlUSD !== null && totalShares !== null ? getPoolSharePrice(tvlUSD, totalShares) : null;
+  if (priceUSD !== null) {
+    token.priceUSD = priceUSD;
+    const reference = store.loadToken(REFERENCE_DENOM);
+    if (reference !== null) {
+      const referencePriceUSD = reference.priceUSD;
+      if (referencePriceUSD !== null) {
+        token.referencePrice = safeDiv(priceUSD, referencePriceUSD);
+      }
+    }
+  }
+  store.saveToken(token);
+}
+
+/**
+ * Seed a pool created before the start block from its snapshot, its
+ * reserves and share supply are tracked from the start block. A snapshot
+ * whose reserves can't be parsed is logged and the pool isn't tracked
+ *
+ * @param store The store
+ * @param pool The new pool, the caller saves it
+ * @param block The block of the pool's first event
+ */
+function seedPool(store: Store, pool: PoolRecord, block: EventBlock): void {
+  const reserves = POOL_SNAPSHOT_RESERVES.get(pool.id)!;
+  const result = parseCoins(reserves);
+  if (!result.isValid()) {
+    store.warn(`Not seeding pool ${pool.id} at height ${block.height.toString()}: snapshot reserves "${reserves}" ${result.error}`);
+    return;
+  }
+
+  pool.trackedFromHeight = BigInt.fromString(START_BLOCK);
+  pool.totalShares = BigInt.fromString(POOL_SNAPSHOT_SHARES.get(pool.id)!);
+  const coins = result.coins;
+  for (let i = 0; i < coins.length; i++) {
+    updatePoolReserve(store, pool, loadOrCreateToken(store, coins[i].denom), coins[i].amount);
+  }
+}
+
+/**
+ * Get the ID of a pool's reserve of a token
+ *
+ * @param poolId The pool ID
+ * @param denom The denom of the token
+ * @returns The PoolAsset ID
+ */
+function getPoolAssetId(poolId: string, denom: string): string {
+  return `${poolId}-${denom}`;
+}
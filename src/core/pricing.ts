@@ -0,0 +1,261 @@
+import { BigDecimal } from "@graphprotocol/graph-ts";
+
+import { REFERENCE_DENOM, STABLECOIN_DENOMS, STABLECOIN_POOLS } from "../network";
+import { convertTokenToDecimal, safeDiv } from "./math";
+import { getPoolReserve } from "./pools";
+import { EventBlock, PriceSourceRecord, Store, SwapRecord, TokenPriceRecord, TokenRecord } from "./store";
+import { TOKEN_KIND_POOL_SHARE } from "./tokens";
+
+/**
+ * Update the USD prices of both tokens of a swap and the USD amount of the
+ * swap itself
+ *
+ * A token is priced through the pool that pairs it with the largest USD
+ * value of an anchor. Anchors are the reference asset (OSMO) in any pool,
+ * and the stablecoins in the configured stablecoin pools, which are taken
+ * to be worth 1 USD. Tokens priced in the reference asset are converted to
+ * USD at the reference asset's own price
+ *
+ * @param store The store
+ * @param tokenIn The token that was swapped in
+ * @param tokenOut The token that was swapped out
+ * @param swap The swap, it is saved with its USD amount and fee
+ * @param block The block of the swap
+ */
+export function updatePrices(store: Store, tokenIn: TokenRecord, tokenOut: TokenRecord, swap: SwapRecord, block: EventBlock): void {
+  const poolId = swap.poolId;
+  const amountIn = convertTokenToDecimal(swap.tokenInAmount, tokenIn.decimals);
+  const amountOut = convertTokenToDecimal(swap.tokenOutAmount, tokenOut.decimals);
+
+  // Each side of the swap is priced in the other if the other is an anchor
+  updatePriceSource(store, tokenIn, tokenOut, poolId, safeDiv(amountOut, amountIn), block);
+  updatePriceSource(store, tokenOut, tokenIn, poolId, safeDiv(amountIn, amountOut), block);
+
+  updateTokenPrice(store, tokenIn, block);
+  updateTokenPrice(store, tokenOut, block);
+
+  const amountUSD = getVolumeUSD(amountIn, tokenIn, amountOut, tokenOut);
+  swap.amountUSD = amountUSD;
+  // The fee is charged on the amount swapped in, it's valued at the USD
+  // price of tokenIn, or at its share of the trade if tokenIn has none
+  const feeAmount = swap.feeAmount;
+  const swapFee = swap.swapFee;
+  const priceUSD = tokenIn.priceUSD;
+  if (feeAmount !== null && priceUSD !== null) {
+    swap.feeUSD = feeAmount.times(priceUSD);
+  } else if (swapFee !== null) {
+    swap.feeUSD = amountUSD.times(swapFee);
+  }
+  store.saveSwap(swap);
+}
+
+/**
+ * Get the USD value of a trade from the USD price of either side,
+ * preferring the quote side
+ *
+ * @param baseVolume The volume of the trade in the base asset
+ * @param baseAsset The base asset
+ * @param quoteVolume The volume of the trade in the quote asset
+ * @param quoteAsset The quote asset
+ * @returns The USD value of the trade, or zero if neither side has a price
+ */
+export function getVolumeUSD(baseVolume: BigDecimal, baseAsset: TokenRecord, quoteVolume: BigDecimal, quoteAsset: TokenRecord): BigDecimal {
+  return getValueUSD(baseVolume, baseAsset.priceUSD, quoteVolume, quoteAsset.priceUSD);
+}
+
+/**
+ * Get the USD value of a trade from the USD price of either side,
+ * preferring the quote side
+ *
+ * @param baseVolume The volume of the trade in the base asset
+ * @param basePriceUSD The USD price of the base asset, if it has one
+ * @param quoteVolume The volume of the trade in the quote asset
+ * @param quotePriceUSD The USD price of the quote asset, if it has one
+ * @returns The USD value of the trade, or zero if neither side has a price
+ */
+export function getValueUSD(baseVolume: BigDecimal, basePriceUSD: BigDecimal | null, quoteVolume: BigDecimal, quotePriceUSD: BigDecimal | null): BigDecimal {
+  if (quotePriceUSD !== null) {
+    return quoteVolume.times(quotePriceUSD);
+  }
+  if (basePriceUSD !== null) {
+    return baseVolume.times(basePriceUSD);
+  }
+  return BigDecimal.zero();
+}
+
+/**
+ * Check if the denom is one of the configured stablecoins
+ *
+ * @param denom The denom to check
+ * @returns True if the denom is a stablecoin
+ */
+export function isStablecoin(denom: string): boolean {
+  return STABLECOIN_DENOMS.includes(denom);
+}
+
+/**
+ * Check if trades against the denom in the pool can be used to price the
+ * other side
+ *
+ * @param denom The denom to check
+ * @param poolId The pool the trade happened in
+ * @returns True if the denom is an anchor in the pool
+ */
+export function isAnchor(denom: string, poolId: string): boolean {
+  if (denom == REFERENCE_DENOM) {
+    return true;
+  }
+  return isStablecoin(denom) && STABLECOIN_POOLS.includes(poolId);
+}
+
+/**
+ * Record the price of a token in an anchor from a trade in the given pool,
+ * and make the pool the token's price source if it is the most liquid one
+ *
+ * @param store The store
+ * @param token The token to price
+ * @param anchor The token it was traded against
+ * @param poolId The pool the trade happened in
+ * @param price The price of the token in the anchor
+ * @param block The block of the trade
+ */
+function updatePriceSource(store: Store, token: TokenRecord, anchor: TokenRecord, poolId: string, price: BigDecimal, block: EventBlock): void {
+  // Stablecoins aren't priced from trades, they are worth 1 USD, and LP
+  // shares are priced from their pool's reserves
+  if (token.denom == anchor.denom || isStablecoin(token.denom) || token.kind == TOKEN_KIND_POOL_SHARE || !isAnchor(anchor.denom, poolId)) {
+    return;
+  }
+  if (price.equals(BigDecimal.zero())) {
+    return;
+  }
+
+  const sourceId = `${token.denom}-${anchor.denom}-${poolId}`;
+  let source = store.loadPriceSource(sourceId);
+  if (source === null) {
+    source = new PriceSourceRecord(sourceId, token.id, anchor.id, poolId);
+  }
+  source.price = price;
+  source.liquidityUSD = getLiquidityUSD(store, poolId, anchor);
+  source.height = block.height;
+  source.timestamp = block.timestamp;
+  store.savePriceSource(source);
+
+  const bestId = token.priceSource;
+  if (bestId === null || bestId == sourceId) {
+    token.priceSource = sourceId;
+  } else {
+    const best = store.loadPriceSource(bestId);
+    if (best === null) {
+      token.priceSource = sourceId;
+    } else {
+      // The current source's pool may have changed since it last traded,
+      // its liquidity is refreshed before they are compared
+      const bestAnchor = best.anchor == anchor.denom ? anchor : store.loadToken(best.anchor);
+      if (bestAnchor !== null) {
+        best.liquidityUSD = getLiquidityUSD(store, best.poolId, bestAnchor);
+        store.savePriceSource(best);
+      }
+      if (isMoreLiquid(source.liquidityUSD, best.liquidityUSD)) {
+        token.priceSource = sourceId;
+      }
+    }
+  }
+  store.saveToken(token);
+}
+
+/**
+ * Get the USD value of a pool's reserve of an anchor, the measure of how
+ * liquid a price source is. Reserves compare across anchors once they are
+ * valued in USD
+ *
+ * @param store The store
+ * @param poolId The pool
+ * @param anchor The anchor
+ * @returns The value, or null if the reserve isn't known, isn't positive,
+ *          or the anchor has no USD price yet
+ */
+function getLiquidityUSD(store: Store, poolId: string, anchor: TokenRecord): BigDecimal | null {
+  const reserve = getPoolReserve(store, poolId, anchor.denom);
+  if (reserve === null || reserve.le(BigDecimal.zero())) {
+    return null;
+  }
+  if (isStablecoin(anchor.denom)) {
+    return reserve;
+  }
+  const priceUSD = anchor.priceUSD;
+  if (priceUSD === null) {
+    return null;
+  }
+  return reserve.times(priceUSD);
+}
+
+/**
+ * Check if a price source is more liquid than the token's current one. A
+ * known liquidity beats an unknown one, and if neither is known the latest
+ * trade wins
+ *
+ * @param liquidity The liquidity of the price source, if it is known
+ * @param current The liquidity of the current price source, if it is known
+ * @returns True if the price source should replace the current one
+ */
+function isMoreLiquid(liquidity: BigDecimal | null, current: BigDecimal | null): boolean {
+  if (current === null) {
+    return true;
+  }
+  if (liquidity === null) {
+    return false;
+  }
+  return liquidity.gt(current);
+}
+
+/**
+ * Update the USD and reference prices of a token from its price source and
+ * record them in the token's price history
+ *
+ * @param store The store
+ * @param token The token to price
+ * @param block The block of the trade
+ */
+function updateTokenPrice(store: Store, token: TokenRecord, block: EventBlock): void {
+  const one = BigDecimal.fromString("1");
+  const reference = token.denom == REFERENCE_DENOM ? token : store.loadToken(REFERENCE_DENOM);
+  let referencePriceUSD: BigDecimal | null = null;
+  if (reference !== null) {
+    referencePriceUSD = reference.priceUSD;
+  }
+
+  let priceUSD: BigDecimal | null = null;
+  const sourceId = token.priceSource;
+  if (isStablecoin(token.denom)) {
+    priceUSD = one;
+  } else if (sourceId !== null) {
+    const source = store.loadPriceSource(sourceId);
+    if (source === null) {
+      return;
+    }
+    if (source.anchor == REFERENCE_DENOM) {
+      if (referencePriceUSD === null) {
+        // The reference asset hasn't been priced yet
+        return;
+      }
+      priceUSD = source.price.times(referencePriceUSD);
+    } else {
+      priceUSD = source.price;
+    }
+  }
+  if (priceUSD === null) {
+    return;
+  }
+
+  token.priceUSD = priceUSD;
+  if (token.denom == REFERENCE_DENOM) {
+    token.referencePrice = one;
+  } else if (referencePriceUSD !== null) {
+    token.referencePrice = safeDiv(priceUSD, referencePriceUSD);
+  }
+  store.saveToken(token);
+
+  // Prices are recorded once per block, the last swap in the block wins
+  const priceId = `${token.denom}-${block.height.toString()}`;
+  store.saveTokenPrice(new TokenPriceRecord(priceId, token.id, priceUSD, token.referencePrice, sourceId, block));
+}
@@ -0,0 +1,116 @@
+import { BigInt } from "@graphprotocol/graph-ts";
+
+import { EventBlock, RouteRecord, Store, SwapRecord } from "./store";
+import { getAttribute, isUnsignedInteger } from "./validation";
+
+/**
+ * RouteHop is a swap added to its route
+ */
+export class RouteHop {
+  route: RouteRecord;
+  // The previous hop of the swap's path, null if the swap starts a path
+  previous: SwapRecord | null;
+
+  constructor(route: RouteRecord, previous: SwapRecord | null) {
+    this.route = route;
+    this.previous = previous;
+  }
+}
+
+/**
+ * Add a swap to the route it is a hop of, the swap is saved with its route
+ * and its index among the route's hops
+ *
+ * A route is the swaps of one message. Swap events carry the index of their
+ * message as msg_index where the chain emits it, the hops of the message's
+ * route are linked by it. Without it, a swap continues the route of the
+ * transaction's previous swap event if it has the same sender and swaps in
+ * the token that swap swapped out, otherwise it starts a route
+ *
+ * A split route swaps through several paths. A hop that doesn't swap in the
+ * token the previous hop swapped out starts a path, the route's input is
+ * the sum of its paths' inputs and its output the sum of their outputs
+ *
+ * @param store The store
+ * @param swap The swap, keyed by its event index
+ * @param attributes The event attributes
+ * @returns The hop, its route is saved
+ */
+export function addRouteHop(store: Store, swap: SwapRecord, attributes: Map<string, string>): RouteHop {
+  const value = getAttribute(attributes, "msg_index");
+  const msgIndex = isUnsignedInteger(value) ? BigInt.fromString(value) : null;
+
+  // The transaction's previous swap event, if it was indexed
+  let previous: SwapRecord | null = null;
+  if (swap.eventIndex > 0) {
+    previous = store.loadSwap(getSwapId(swap.txHash, swap.eventIndex - 1));
+  }
+
+  let route: RouteRecord | null = null;
+  let continuesPath = false;
+  if (previous !== null) {
+    const previousRoute = store.loadRoute(previous.route);
+    if (previousRoute !== null && isSameRoute(previousRoute, previous, swap, msgIndex)) {
+      route = previousRoute;
+      continuesPath = previous.tokenOut == swap.tokenIn;
+    }
+  }
+
+  if (route === null) {
+    // Routes are keyed by their first hop
+    route = new RouteRecord(swap.id, new EventBlock(swap.height, swap.timestamp), swap.txHash, msgIndex, swap.sender);
+    route.tokenIn = swap.tokenIn;
+  }
+
+  if (continuesPath) {
+    // The path's output so far is replaced with the output of its next hop
+    route.tokenOutAmount = route.tokenOutAmount.minus(previous!.tokenOutAmount).plus(swap.tokenOutAmount);
+  } else {
+    if (swap.tokenIn == route.tokenIn) {
+      route.tokenInAmount = route.tokenInAmount.plus(swap.tokenInAmount);
+    }
+    route.tokenOutAmount = route.tokenOutAmount.plus(swap.tokenOutAmount);
+    route.pathCount = route.pathCount + 1;
+  }
+  route.tokenOut = swap.tokenOut;
+
+  swap.route = route.id;
+  swap.hopIndex = route.hopCount;
+  store.saveSwap(swap);
+  route.hopCount = route.hopCount + 1;
+  store.saveRoute(route);
+
+  return new RouteHop(route as RouteRecord, continuesPath ? previous : null);
+}
+
+/**
+ * Get the ID of a swap
+ *
+ * @param txHash The hash of the transaction that emitted the swap event
+ * @param eventIndex The index of the event among the transaction's swap
+ *                   events
+ * @returns The swap ID
+ */
+export function getSwapId(txHash: string, eventIndex: i32): string {
+  return `${txHash}-${eventIndex.toString()}`;
+}
+
+/**
+ * Check if a swap is a hop of the route of the transaction's previous swap
+ *
+ * @param route The route of the previous swap
+ * @param previous The previous swap
+ * @param swap The swap
+ * @param msgIndex The index of the swap's message, if its event carries it
+ * @returns True if the swap is a hop of the route
+ */
+function isSameRoute(route: RouteRecord, previous: SwapRecord, swap: SwapRecord, msgIndex: BigInt | null): boolean {
+  const routeMsgIndex = route.msgIndex;
+  if (msgIndex !== null && routeMsgIndex !== null) {
+    return msgIndex.equals(routeMsgIndex);
+  }
+  if (msgIndex !== null || routeMsgIndex !== null) {
+    return false;
+  }
+  return previous.sender == swap.sender && previous.tokenOut == swap.tokenIn;
+}
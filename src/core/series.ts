@@ -0,0 +1,410 @@
+import { BigDecimal, BigInt } from "@graphprotocol/graph-ts";
+
+import { CANDLE_SIZE_CONFIG } from "../config";
+import { USDC_DENOM } from "../network";
+import { CandleSize } from "../types";
+import {
+  CandleState,
+  CandleTrade,
+  applyTrade,
+  createPairTrade,
+  createUSDTrades,
+  getCandleId,
+  getCandleSeriesId,
+  getPoolCandleIdPrefix
+} from "./candles";
+import { closeIndicators, computeIndicators } from "./indicators";
+import { getEnabledCandleSizes, getInterval, getIntervalLabel, getIntervalName, getNextInterval, getPreviousInterval } from "./intervals";
+import { convertTokenToDecimal } from "./math";
+import { getVolumeUSD } from "./pricing";
+import { CandleCloseQueueRecord, CandleCloseRecord, CandleRecord, CandleSeriesRecord, PairRecord, Store, SwapRecord, TokenRecord } from "./store";
+import { loadOrCreateToken } from "./tokens";
+
+// The most candles filled in one go when a series has been idle. Only the
+// intervals this close to the next candle are filled in larger gaps, the
+// candle after the hole records where it starts
+const MAX_GAP_FILL = 1000;
+// The ID of the queue of pending candle closes
+const CANDLE_CLOSE_QUEUE_ID = "candles";
+
+// CANDLE_SIZES is ordered from the smallest size
+export const CANDLE_SIZES: CandleSize[] = getEnabledCandleSizes(CANDLE_SIZE_CONFIG);
+
+/**
+ * Create candles for all the given sizes. An AMM trade prices the pair in
+ * both directions, so candles are created for the pair and its reverse
+ *
+ * @param store The store
+ * @param swap The swap
+ * @param pair The pair, tokenIn is its base
+ * @param reversePair The reverse of the pair, tokenOut is its base
+ * @param tokenIn The token that was swapped in
+ * @param tokenOut The token that was swapped out
+ * @param sizes The candle sizes to create
+ */
+export function createCandles(store: Store, swap: SwapRecord, pair: PairRecord, reversePair: PairRecord, tokenIn: TokenRecord, tokenOut: TokenRecord, sizes: CandleSize[]): void {
+  for (let i = 0; i < sizes.length; i++) {
+    createCandle(store, pair, swap, tokenIn, tokenOut, swap.tokenInAmount, swap.tokenOutAmount, sizes[i]);
+    createCandle(store, reversePair, swap, tokenOut, tokenIn, swap.tokenOutAmount, swap.tokenInAmount, sizes[i]);
+  }
+}
+
+/**
+ * Create token <> USDC and USDC <> token candles for the token swapped in,
+ * priced by the pricing engine. USDC doesn't need candles against itself,
+ * and networks without USDC have none
+ *
+ * @param store The store
+ * @param tokenIn The token to create candles for
+ * @param swap The swap
+ * @param sizes The candle sizes to create
+ * @returns False if the candles were skipped because the token has no USD
+ *          price yet
+ */
+export function createUSDCandles(store: Store, tokenIn: TokenRecord, swap: SwapRecord, sizes: CandleSize[]): boolean {
+  if (USDC_DENOM == "" || tokenIn.denom == USDC_DENOM) {
+    return true;
+  }
+
+  const priceUSD = tokenIn.priceUSD;
+  if (priceUSD === null || priceUSD.equals(BigDecimal.zero())) {
+    return false;
+  }
+
+  // The candles reference USDC, make sure it's recorded even if it hasn't
+  // been swapped yet
+  if (store.loadToken(USDC_DENOM) === null) {
+    loadOrCreateToken(store, USDC_DENOM);
+  }
+
+  // The swapped amount of tokenIn is the volume of these candles
+  const tokenInVolume = convertTokenToDecimal(swap.tokenInAmount, tokenIn.decimals);
+  const trades = createUSDTrades(tokenInVolume, priceUSD, !swap.isFiltered, swap.timestamp);
+  const blockTime = swap.timestamp.toI64();
+  for (let i = 0; i < sizes.length; i++) {
+    createCandleWithRate(store, tokenIn.denom, USDC_DENOM, trades[0], blockTime, sizes[i]);
+    createCandleWithRate(store, USDC_DENOM, tokenIn.denom, trades[1], blockTime, sizes[i]);
+  }
+  return true;
+}
+
+/**
+ * Get the close of the latest candle of the pair's smallest candle size
+ *
+ * @param store The store
+ * @param pair The pair
+ * @returns The close, or null if the pair has no candles yet
+ */
+export function getLatestClose(store: Store, pair: PairRecord): BigDecimal | null {
+  const series = store.loadCandleSeries(getCandleSeriesId(getPoolCandleIdPrefix(pair.poolId, pair.baseAsset), pair.quoteAsset, CANDLE_SIZES[0].interval));
+  if (series === null) {
+    return null;
+  }
+  const latestId = series.latest;
+  if (latestId === null) {
+    return null;
+  }
+  return store.loadCandle(latestId)!.state.close;
+}
+
+/**
+ * Close the candles whose interval has passed by the given block time, so
+ * the last candle of a series that stops trading still closes with its
+ * final indicators. Candles are queued by the time they end as they are
+ * created, a block without closes due only loads the queue
+ *
+ * @param store The store
+ * @param blockTime The block time in Unix seconds
+ */
+export function closeCandles(store: Store, blockTime: i64): void {
+  const queue = store.loadCandleCloseQueue(CANDLE_CLOSE_QUEUE_ID);
+  if (queue === null) {
+    return;
+  }
+
+  const timestamps = queue.timestamps;
+  let due = 0;
+  while (due < timestamps.length && timestamps[due].toI64() <= blockTime) {
+    const id = timestamps[due].toString();
+    const close = store.loadCandleClose(id);
+    if (close !== null) {
+      const seriesIds = close.series;
+      for (let i = 0; i < seriesIds.length; i++) {
+        closeLatestCandle(store, seriesIds[i], blockTime);
+      }
+      store.removeCandleClose(id);
+    }
+    due++;
+  }
+
+  if (due > 0) {
+    queue.timestamps = timestamps.slice(due);
+    store.saveCandleCloseQueue(queue);
+  }
+}
+
+/**
+ * Create the candle of a pair's swap at a size
+ *
+ * The rate and volume are calculated in display units, so pairs of tokens
+ * with different decimals chart at their real price
+ *
+ * @param store The store
+ * @param pair The pair
+ * @param swap The swap
+ * @param baseAsset The base asset of the pair
+ * @param quoteAsset The quote asset of the pair
+ * @param baseAmount The traded amount of the base asset in base units
+ * @param quoteAmount The traded amount of the quote asset in base units
+ * @param size The candle size to create
+ */
+function createCandle(store: Store, pair: PairRecord, swap: SwapRecord, baseAsset: TokenRecord, quoteAsset: TokenRecord, baseAmount: BigInt, quoteAmount: BigInt, size: CandleSize): void {
+  const baseVolume = convertTokenToDecimal(baseAmount, baseAsset.decimals);
+  const volume = convertTokenToDecimal(quoteAmount, quoteAsset.decimals);
+  const volumeUSD = getVolumeUSD(baseVolume, baseAsset, volume, quoteAsset);
+  const trade = createPairTrade(baseVolume, volume, volumeUSD, swap.feeAmount, baseAsset.denom == swap.tokenIn, swap.feeUSD, swap.priceImpact, !swap.isFiltered, swap.timestamp);
+
+  const candleTime = getInterval(swap.timestamp.toI64(), size.timeframe, size.divisor as i32);
+  const prefix = getPoolCandleIdPrefix(pair.poolId, pair.baseAsset);
+  const series = loadOrCreateCandleSeries(store, prefix, pair.poolId, pair.pool, pair.id, pair.poolType, pair.baseAsset, pair.quoteAsset, size);
+  const candle = loadOrCreateCandle(store, series, candleTime, trade.rate);
+  updateCandle(candle, series, trade);
+  store.saveCandle(candle);
+}
+
+/**
+ * Create the candle of a trade at a given rate at a size
+ *
+ * @param store The store
+ * @param baseDenom The base asset denom
+ * @param quoteDenom The quote asset denom
+ * @param trade The trade, its rate is for the base asset in the quote asset
+ * @param blockTime The time of the trade
+ * @param size The candle size to create
+ */
+function createCandleWithRate(store: Store, baseDenom: string, quoteDenom: string, trade: CandleTrade, blockTime: i64, size: CandleSize): void {
+  const poolId = `calc-${baseDenom}-${quoteDenom}`;
+  const candleTime = getInterval(blockTime, size.timeframe, size.divisor as i32);
+  const series = loadOrCreateCandleSeries(store, `calc-${baseDenom}`, poolId, null, null, null, baseDenom, quoteDenom, size);
+  const candle = loadOrCreateCandle(store, series, candleTime, trade.rate);
+  updateCandle(candle, series, trade);
+  store.saveCandle(candle);
+}
+
+/**
+ * Load the candle for the given interval of a series, or create it. A new
+ * candle is linked to the previous candle of the series and opens at its
+ * close, intervals without trades in between are filled with flat candles.
+ * Series are only filled when they trade, so idle series cost nothing. The
+ * new candle is queued to close when its interval ends
+ *
+ * @param store The store
+ * @param series The series of the candle, it is saved if a candle is
+ *               created
+ * @param candleTime The start of the candle's interval
+ * @param rate The rate to open at if the series has no previous candle
+ * @returns The existing or created candle, the caller saves it
+ */
+function loadOrCreateCandle(store: Store, series: CandleSeriesRecord, candleTime: i64, rate: BigDecimal): CandleRecord {
+  const candle = store.loadCandle(getCandleId(series.candleIdPrefix, series.quote, getIntervalLabel(series.timeframe, series.divisor), candleTime));
+  if (candle !== null) {
+    return candle as CandleRecord;
+  }
+
+  let previous: CandleRecord | null = null;
+  let open = rate;
+  const latestId = series.latest;
+  if (latestId !== null) {
+    previous = fillCandleGap(store, series, store.loadCandle(latestId)!, candleTime);
+    open = previous.state.close;
+  }
+
+  const created = newCandle(series, candleTime, open, previous);
+  series.latest = created.id;
+  store.saveCandleSeries(series);
+  scheduleCandleClose(store, series, getNextInterval(candleTime, series.timeframe, series.divisor));
+  return created;
+}
+
+/**
+ * Load the series for the given candles, or create it
+ *
+ * @param store The store
+ * @param candleIdPrefix The prefix of the candle ids of the series
+ * @param poolId The pool ID of the candles
+ * @param pool The pool of the candles, null for calculated candles
+ * @param pair The pair of the candles, null for calculated candles
+ * @param poolType The type of the pool, null for calculated candles
+ * @param baseDenom The base asset denom
+ * @param quoteDenom The quote asset denom
+ * @param size The candle size
+ * @returns The existing or created series, the caller saves it
+ */
+function loadOrCreateCandleSeries(store: Store, candleIdPrefix: string, poolId: string, pool: string | null, pair: string | null, poolType: string | null, baseDenom: string, quoteDenom: string, size: CandleSize): CandleSeriesRecord {
+  const seriesId = getCandleSeriesId(candleIdPrefix, quoteDenom, size.interval);
+  let series = store.loadCandleSeries(seriesId);
+  if (series === null) {
+    series = new CandleSeriesRecord(seriesId, candleIdPrefix, poolId, baseDenom, quoteDenom, getIntervalName(size.timeframe, size.divisor as i32), size.timeframe, size.divisor as i32);
+    series.pool = pool;
+    series.pair = pair;
+    series.poolType = poolType;
+  }
+  return series as CandleSeriesRecord;
+}
+
+/**
+ * Create a flat, zero volume candle in the series that opens at the given
+ * rate, its indicators carry on from the previous candle
+ *
+ * @param series The series of the candle
+ * @param candleTime The start of the candle's interval
+ * @param open The rate the candle opens at
+ * @param previous The previous candle in the series, if any
+ * @returns The new candle, the caller saves it
+ */
+function newCandle(series: CandleSeriesRecord, candleTime: i64, open: BigDecimal, previous: CandleRecord | null): CandleRecord {
+  const candle = new CandleRecord(
+    getCandleId(series.candleIdPrefix, series.quote, getIntervalLabel(series.timeframe, series.divisor), candleTime),
+    series.poolId,
+    series.base,
+    series.quote,
+    series.interval,
+    BigInt.fromString(candleTime.toString()),
+    new CandleState(open),
+    computeIndicators(series.indicatorState, open)
+  );
+  candle.pool = series.pool;
+  candle.poolType = series.poolType;
+  candle.pair = series.pair;
+  if (previous !== null) {
+    candle.previous = previous.id;
+  }
+  return candle;
+}
+
+/**
+ * Close the latest candle of a series and fill the intervals from it up to,
+ * but not including, the given time with flat candles at its close. Gaps
+ * larger than MAX_GAP_FILL are filled from that many intervals before the
+ * given time, the first filled candle links back across the hole
+ *
+ * @param store The store
+ * @param series The series to fill
+ * @param latest The latest candle of the series
+ * @param until The start of the interval to fill up to
+ * @returns The last candle of the series after the fill
+ */
+function fillCandleGap(store: Store, series: CandleSeriesRecord, latest: CandleRecord, until: i64): CandleRecord {
+  let previous = latest;
+  closeCandle(store, series, previous);
+
+  let candleTime = getNextInterval(previous.timestamp.toI64(), series.timeframe, series.divisor);
+  let skippedFrom: BigInt | null = null;
+  const fillFrom = getPreviousInterval(until, series.timeframe, series.divisor, MAX_GAP_FILL);
+  if (candleTime < fillFrom) {
+    store.warn(`Candle series ${series.id} skipped the intervals from ${candleTime.toString()} to ${fillFrom.toString()}, its gap is larger than ${MAX_GAP_FILL.toString()} candles`);
+    skippedFrom = BigInt.fromString(candleTime.toString());
+    candleTime = fillFrom;
+  }
+
+  while (candleTime < until) {
+    previous = newCandle(series, candleTime, previous.state.close, previous);
+    previous.skippedFrom = skippedFrom;
+    skippedFrom = null;
+    closeCandle(store, series, previous);
+    candleTime = getNextInterval(candleTime, series.timeframe, series.divisor);
+  }
+  return previous;
+}
+
+/**
+ * Queue a series to have its latest candle closed at the time the candle
+ * ends
+ *
+ * @param store The store
+ * @param series The series
+ * @param closeTime The end of the latest candle's interval
+ */
+function scheduleCandleClose(store: Store, series: CandleSeriesRecord, closeTime: i64): void {
+  let close = store.loadCandleClose(closeTime.toString());
+  if (close === null) {
+    close = new CandleCloseRecord(BigInt.fromString(closeTime.toString()));
+    queueCandleClose(store, close.timestamp);
+  }
+  close.series.push(series.id);
+  store.saveCandleClose(close as CandleCloseRecord);
+}
+
+/**
+ * Add a close time to the queue of pending candle closes, keeping it in
+ * order. Sizes end at different times, so a close can be queued before
+ * those of smaller sizes
+ *
+ * @param store The store
+ * @param timestamp The close time
+ */
+function queueCandleClose(store: Store, timestamp: BigInt): void {
+  let queue = store.loadCandleCloseQueue(CANDLE_CLOSE_QUEUE_ID);
+  if (queue === null) {
+    queue = new CandleCloseQueueRecord(CANDLE_CLOSE_QUEUE_ID);
+  }
+
+  const timestamps = queue.timestamps;
+  let index = timestamps.length;
+  while (index > 0 && timestamps[index - 1].gt(timestamp)) {
+    index--;
+  }
+  const queued = timestamps.slice(0, index);
+  queued.push(timestamp);
+  queue.timestamps = queued.concat(timestamps.slice(index));
+  store.saveCandleCloseQueue(queue as CandleCloseQueueRecord);
+}
+
+/**
+ * Close the latest candle of a series that was queued to close, unless the
+ * series has traded into a later candle since
+ *
+ * @param store The store
+ * @param seriesId The ID of the series
+ * @param blockTime The block time in Unix seconds
+ */
+function closeLatestCandle(store: Store, seriesId: string, blockTime: i64): void {
+  const series = store.loadCandleSeries(seriesId)!;
+  const latest = store.loadCandle(series.latest!)!;
+  if (latest.isClosed || getNextInterval(latest.timestamp.toI64(), series.timeframe, series.divisor) > blockTime) {
+    return;
+  }
+  closeCandle(store, series, latest);
+  store.saveCandleSeries(series);
+}
+
+/**
+ * Mark the candle as closed, its interval has passed. Its final indicators
+ * are computed and the series' indicators move on from them
+ *
+ * @param store The store
+ * @param series The series of the candle, the caller saves it
+ * @param candle The candle to close, it is saved
+ */
+function closeCandle(store: Store, series: CandleSeriesRecord, candle: CandleRecord): void {
+  if (!candle.isClosed) {
+    candle.indicators = closeIndicators(series.indicatorState, candle.state.close);
+    candle.isClosed = true;
+  }
+  store.saveCandle(candle);
+}
+
+/**
+ * Add a trade to the candle, when it moves the price the indicators are
+ * updated to the new close
+ *
+ * @param candle The candle to update, the caller saves it
+ * @param series The series of the candle
+ * @param trade The trade to add
+ */
+function updateCandle(candle: CandleRecord, series: CandleSeriesRecord, trade: CandleTrade): void {
+  applyTrade(candle.state, trade);
+  if (trade.movesPrice) {
+    candle.indicators = computeIndicators(series.indicatorState, candle.state.close);
+  }
+}
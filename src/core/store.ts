@@ -0,0 +1,453 @@
+import { BigDecimal, BigInt } from "@graphprotocol/graph-ts";
+
+import { CandleState } from "./candles";
+import { IndicatorState, Indicators } from "./indicators";
+
+/**
+ * EventBlock is the block an event was emitted in
+ */
+export class EventBlock {
+  height: BigInt;
+  // Block time in Unix seconds
+  timestamp: BigInt;
+
+  constructor(height: BigInt, timestamp: BigInt) {
+    this.height = height;
+    this.timestamp = timestamp;
+  }
+}
+
+/**
+ * TokenRecord holds the fields of a Token entity
+ */
+export class TokenRecord {
+  id: string;
+  kind: string;
+  name: string;
+  denom: string;
+  symbol: string;
+  decimals: i32;
+  pool: string | null;
+  underlyingAssets: string[];
+  coingeckoId: string | null;
+  logoURI: string | null;
+  priceUSD: BigDecimal | null;
+  referencePrice: BigDecimal | null;
+  priceSource: string | null;
+
+  constructor(denom: string) {
+    this.id = denom;
+    this.kind = "";
+    this.name = denom;
+    this.denom = denom;
+    this.symbol = denom;
+    this.decimals = 0;
+    this.pool = null;
+    this.underlyingAssets = [];
+    this.coingeckoId = null;
+    this.logoURI = null;
+    this.priceUSD = null;
+    this.referencePrice = null;
+    this.priceSource = null;
+  }
+}
+
+/**
+ * PriceSourceRecord holds the fields of a PriceSource entity
+ */
+export class PriceSourceRecord {
+  id: string;
+  token: string;
+  anchor: string;
+  poolId: string;
+  price: BigDecimal;
+  // The USD value of the pool's reserve of the anchor, null while it isn't known
+  liquidityUSD: BigDecimal | null;
+  height: BigInt;
+  timestamp: BigInt;
+
+  constructor(id: string, token: string, anchor: string, poolId: string) {
+    this.id = id;
+    this.token = token;
+    this.anchor = anchor;
+    this.poolId = poolId;
+    this.price = BigDecimal.zero();
+    this.liquidityUSD = null;
+    this.height = BigInt.zero();
+    this.timestamp = BigInt.zero();
+  }
+}
+
+/**
+ * TokenPriceRecord holds the fields of a TokenPrice entity
+ */
+export class TokenPriceRecord {
+  id: string;
+  token: string;
+  priceUSD: BigDecimal;
+  referencePrice: BigDecimal | null;
+  source: string | null;
+  height: BigInt;
+  timestamp: BigInt;
+
+  constructor(id: string, token: string, priceUSD: BigDecimal, referencePrice: BigDecimal | null, source: string | null, block: EventBlock) {
+    this.id = id;
+    this.token = token;
+    this.priceUSD = priceUSD;
+    this.referencePrice = referencePrice;
+    this.source = source;
+    this.height = block.height;
+    this.timestamp = block.timestamp;
+  }
+}
+
+/**
+ * PoolRecord holds the fields of a Pool entity
+ */
+export class PoolRecord {
+  id: string;
+  poolType: string | null;
+  createdAtHeight: BigInt | null;
+  createdAtTimestamp: BigInt | null;
+  tokens: string[];
+  // The height its reserves and share supply are known from, null until
+  // they are seeded from a snapshot or the pool is seen created
+  trackedFromHeight: BigInt | null;
+  // Null while the pool isn't tracked
+  totalShares: BigInt | null;
+  tvlUSD: BigDecimal | null;
+  // LP shares minted less those burned since the pool was first seen
+  netSharesMinted: BigInt;
+  swapFee: BigDecimal | null;
+  swapCount: i32;
+  joinCount: i32;
+  exitCount: i32;
+  lastUpdatedHeight: BigInt;
+  lastUpdatedTimestamp: BigInt;
+
+  constructor(id: string, block: EventBlock) {
+    this.id = id;
+    this.poolType = null;
+    this.createdAtHeight = null;
+    this.createdAtTimestamp = null;
+    this.tokens = [];
+    this.trackedFromHeight = null;
+    this.totalShares = null;
+    this.tvlUSD = null;
+    this.netSharesMinted = BigInt.zero();
+    this.swapFee = null;
+    this.swapCount = 0;
+    this.joinCount = 0;
+    this.exitCount = 0;
+    this.lastUpdatedHeight = block.height;
+    this.lastUpdatedTimestamp = block.timestamp;
+  }
+}
+
+/**
+ * PoolAssetRecord holds the fields of a PoolAsset entity
+ */
+export class PoolAssetRecord {
+  id: string;
+  pool: string;
+  token: string;
+  // Null while the pool isn't tracked
+  reserve: BigInt | null;
+  amount: BigDecimal | null;
+  valueUSD: BigDecimal | null;
+
+  constructor(id: string, pool: string, token: string) {
+    this.id = id;
+    this.pool = pool;
+    this.token = token;
+    this.reserve = null;
+    this.amount = null;
+    this.valueUSD = null;
+  }
+}
+
+/**
+ * PairRecord holds the fields of a Pair entity
+ */
+export class PairRecord {
+  id: string;
+  canonicalId: string;
+  reverse: string | null;
+  poolId: string;
+  pool: string;
+  poolType: string;
+  symbol: string;
+  baseAsset: string;
+  quoteAsset: string;
+  name: string;
+  lastExecutionPrice: BigDecimal | null;
+  // The swaps in a row filtered for deviating from the close
+  deviatingSwaps: i32;
+
+  constructor(id: string, canonicalId: string, poolId: string, baseAsset: string, quoteAsset: string) {
+    this.id = id;
+    this.canonicalId = canonicalId;
+    this.reverse = null;
+    this.poolId = poolId;
+    this.pool = poolId;
+    this.poolType = "";
+    this.symbol = "";
+    this.baseAsset = baseAsset;
+    this.quoteAsset = quoteAsset;
+    this.name = "";
+    this.lastExecutionPrice = null;
+    this.deviatingSwaps = 0;
+  }
+}
+
+/**
+ * SwapRecord holds the fields of a Swap entity
+ */
+export class SwapRecord {
+  id: string;
+  height: BigInt;
+  timestamp: BigInt;
+  txHash: string;
+  // The index of the event among its transaction's swap events
+  eventIndex: i32;
+  // The index of the swap among its route's hops
+  hopIndex: i32;
+  transaction: string;
+  route: string;
+  sender: string;
+  account: string;
+  poolId: string;
+  pool: string;
+  poolType: string;
+  pair: string;
+  tokens: string[];
+  tokenIn: string;
+  tokenInAmount: BigInt;
+  tokenOut: string;
+  tokenOutAmount: BigInt;
+  executionPrice: BigDecimal;
+  priceImpact: BigDecimal | null;
+  swapFee: BigDecimal | null;
+  feeAmount: BigDecimal | null;
+  feeUSD: BigDecimal | null;
+  amountUSD: BigDecimal | null;
+  isFiltered: boolean;
+  filterReason: string | null;
+
+  constructor(id: string, block: EventBlock, txHash: string, eventIndex: i32) {
+    this.id = id;
+    this.height = block.height;
+    this.timestamp = block.timestamp;
+    this.txHash = txHash;
+    this.eventIndex = eventIndex;
+    this.hopIndex = 0;
+    this.transaction = txHash;
+    this.route = "";
+    this.sender = "";
+    this.account = "";
+    this.poolId = "";
+    this.pool = "";
+    this.poolType = "";
+    this.pair = "";
+    this.tokens = [];
+    this.tokenIn = "";
+    this.tokenInAmount = BigInt.zero();
+    this.tokenOut = "";
+    this.tokenOutAmount = BigInt.zero();
+    this.executionPrice = BigDecimal.zero();
+    this.priceImpact = null;
+    this.swapFee = null;
+    this.feeAmount = null;
+    this.feeUSD = null;
+    this.amountUSD = null;
+    this.isFiltered = false;
+    this.filterReason = null;
+  }
+}
+
+/**
+ * RouteRecord holds the fields of a Route entity
+ */
+export class RouteRecord {
+  id: string;
+  height: BigInt;
+  timestamp: BigInt;
+  transaction: string;
+  // The index of the message the route was swapped in, null if its events
+  // don't carry it
+  msgIndex: BigInt | null;
+  sender: string;
+  hopCount: i32;
+  // The paths a split route took, 1 for a route through a single path
+  pathCount: i32;
+  tokenIn: string;
+  tokenInAmount: BigInt;
+  tokenOut: string;
+  tokenOutAmount: BigInt;
+
+  constructor(id: string, block: EventBlock, txHash: string, msgIndex: BigInt | null, sender: string) {
+    this.id = id;
+    this.height = block.height;
+    this.timestamp = block.timestamp;
+    this.transaction = txHash;
+    this.msgIndex = msgIndex;
+    this.sender = sender;
+    this.hopCount = 0;
+    this.pathCount = 0;
+    this.tokenIn = "";
+    this.tokenInAmount = BigInt.zero();
+    this.tokenOut = "";
+    this.tokenOutAmount = BigInt.zero();
+  }
+}
+
+/**
+ * CandleSeriesRecord holds the fields of a CandleSeries entity, with the
+ * state its open candle's indicators are updated from
+ */
+export class CandleSeriesRecord {
+  id: string;
+  candleIdPrefix: string;
+  poolId: string;
+  pool: string | null;
+  poolType: string | null;
+  pair: string | null;
+  base: string;
+  quote: string;
+  // The Interval enum value, candle IDs are keyed by the size's label
+  interval: string;
+  timeframe: string;
+  divisor: i32;
+  latest: string | null;
+  indicatorState: IndicatorState;
+
+  constructor(id: string, candleIdPrefix: string, poolId: string, base: string, quote: string, interval: string, timeframe: string, divisor: i32) {
+    this.id = id;
+    this.candleIdPrefix = candleIdPrefix;
+    this.poolId = poolId;
+    this.pool = null;
+    this.poolType = null;
+    this.pair = null;
+    this.base = base;
+    this.quote = quote;
+    this.interval = interval;
+    this.timeframe = timeframe;
+    this.divisor = divisor;
+    this.latest = null;
+    this.indicatorState = new IndicatorState();
+  }
+}
+
+/**
+ * CandleRecord holds the fields of a Candle entity, with the state trades
+ * change
+ */
+export class CandleRecord {
+  id: string;
+  poolId: string;
+  pool: string | null;
+  poolType: string | null;
+  pair: string | null;
+  base: string;
+  quote: string;
+  interval: string;
+  timestamp: BigInt;
+  state: CandleState;
+  indicators: Indicators;
+  previous: string | null;
+  // The start of the intervals between the previous candle and this one
+  // that were too many to fill, null if there are none
+  skippedFrom: BigInt | null;
+  isClosed: boolean;
+
+  constructor(id: string, poolId: string, base: string, quote: string, interval: string, timestamp: BigInt, state: CandleState, indicators: Indicators) {
+    this.id = id;
+    this.poolId = poolId;
+    this.pool = null;
+    this.poolType = null;
+    this.pair = null;
+    this.base = base;
+    this.quote = quote;
+    this.interval = interval;
+    this.timestamp = timestamp;
+    this.state = state;
+    this.indicators = indicators;
+    this.previous = null;
+    this.skippedFrom = null;
+    this.isClosed = false;
+  }
+}
+
+/**
+ * CandleCloseRecord holds the fields of a CandleClose entity, the series
+ * whose latest candle ends at its time
+ */
+export class CandleCloseRecord {
+  id: string;
+  timestamp: BigInt;
+  series: string[];
+
+  constructor(timestamp: BigInt) {
+    this.id = timestamp.toString();
+    this.timestamp = timestamp;
+    this.series = [];
+  }
+}
+
+/**
+ * CandleCloseQueueRecord holds the fields of a CandleCloseQueue entity, the
+ * times of the pending candle closes in order
+ */
+export class CandleCloseQueueRecord {
+  id: string;
+  timestamps: BigInt[];
+
+  constructor(id: string) {
+    this.id = id;
+    this.timestamps = [];
+  }
+}
+
+/**
+ * Store is where the indexer loads and saves its records. The subgraph's
+ * store reads and writes entities, the replay's keeps them in memory
+ */
+export abstract class Store {
+  abstract loadToken(id: string): TokenRecord | null;
+  abstract saveToken(token: TokenRecord): void;
+
+  abstract loadPriceSource(id: string): PriceSourceRecord | null;
+  abstract savePriceSource(source: PriceSourceRecord): void;
+  abstract saveTokenPrice(price: TokenPriceRecord): void;
+
+  abstract loadPool(id: string): PoolRecord | null;
+  abstract savePool(pool: PoolRecord): void;
+  abstract loadPoolAsset(id: string): PoolAssetRecord | null;
+  abstract savePoolAsset(asset: PoolAssetRecord): void;
+
+  abstract loadPair(id: string): PairRecord | null;
+  abstract savePair(pair: PairRecord): void;
+
+  abstract loadSwap(id: string): SwapRecord | null;
+  abstract saveSwap(swap: SwapRecord): void;
+  abstract loadRoute(id: string): RouteRecord | null;
+  abstract saveRoute(route: RouteRecord): void;
+
+  abstract loadCandleSeries(id: string): CandleSeriesRecord | null;
+  abstract saveCandleSeries(series: CandleSeriesRecord): void;
+  abstract loadCandle(id: string): CandleRecord | null;
+  abstract saveCandle(candle: CandleRecord): void;
+  abstract loadCandleClose(id: string): CandleCloseRecord | null;
+  abstract saveCandleClose(close: CandleCloseRecord): void;
+  abstract removeCandleClose(id: string): void;
+  abstract loadCandleCloseQueue(id: string): CandleCloseQueueRecord | null;
+  abstract saveCandleCloseQueue(queue: CandleCloseQueueRecord): void;
+
+  /**
+   * Report something that was passed over, the subgraph logs it as a
+   * warning
+   *
+   * @param message What was passed over
+   */
+  abstract warn(message: string): void;
+}
@@ -0,0 +1,59 @@
+import { BigDecimal } from "@graphprotocol/graph-ts";
+
+import { safeDiv } from "./math";
+
+// The pool types swaps are recognised for, the values of the PoolType enum
+export const POOL_TYPE_GAMM = "GAMM";
+export const POOL_TYPE_CONCENTRATED = "CONCENTRATED";
+export const POOL_TYPE_COSMWASM = "COSMWASM";
+
+// Every pool module emits token_swapped, its module attribute names the
+// module. GAMM events from before the attribute was added have none
+const MODULE_GAMM = "gamm";
+const MODULE_CONCENTRATED = "concentratedliquidity";
+const MODULE_COSMWASM = "cosmwasmpool";
+
+// The event attributes a swap fee is read from, in order of preference
+export const SWAP_FEE_ATTRIBUTES: string[] = ["swap_fee", "spread_factor"];
+
+/**
+ * Get the type of the pool that emitted a swap event from its module
+ *
+ * @param moduleName The module attribute of the event, empty if it has none
+ * @returns The pool type, or an empty string if the module is unknown
+ */
+export function getPoolType(moduleName: string): string {
+  if (moduleName == "" || moduleName == MODULE_GAMM) {
+    return POOL_TYPE_GAMM;
+  }
+  if (moduleName == MODULE_CONCENTRATED) {
+    return POOL_TYPE_CONCENTRATED;
+  }
+  if (moduleName == MODULE_COSMWASM) {
+    return POOL_TYPE_COSMWASM;
+  }
+  return "";
+}
+
+/**
+ * Get the price a swap executed at, the amount out per amount in
+ *
+ * @param amountIn The amount swapped in, in display units
+ * @param amountOut The amount swapped out, in display units
+ * @returns The execution price
+ */
+export function getExecutionPrice(amountIn: BigDecimal, amountOut: BigDecimal): BigDecimal {
+  return safeDiv(amountOut, amountIn);
+}
+
+/**
+ * Get the price impact of a swap, how far it executed below the previous
+ * swap of the pair as a fraction of the previous execution price
+ *
+ * @param lastExecutionPrice The execution price of the pair's previous swap
+ * @param executionPrice The execution price of the swap
+ * @returns The price impact
+ */
+export function getPriceImpact(lastExecutionPrice: BigDecimal, executionPrice: BigDecimal): BigDecimal {
+  return safeDiv(lastExecutionPrice.minus(executionPrice), lastExecutionPrice);
+}
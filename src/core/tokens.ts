@@ -0,0 +1,136 @@
+import { BigDecimal, BigInt } from "@graphprotocol/graph-ts";
+
+import { ASSET_REGISTRY } from "../assets";
+import { Asset } from "../types";
+import { convertTokenToDecimal } from "./math";
+import { Store, TokenRecord } from "./store";
+
+// The kinds of tokens, the values of the TokenKind enum
+export const TOKEN_KIND_ASSET = "ASSET";
+export const TOKEN_KIND_POOL_SHARE = "POOL_SHARE";
+
+// LP shares of a GAMM pool are minted as gamm/pool/{pool id}, with 18
+// decimals
+export const POOL_SHARE_DENOM_PREFIX = "gamm/pool/";
+export const POOL_SHARE_DECIMALS = 18;
+
+// Denoms missing from the asset registry are assumed to have these decimals
+const DEFAULT_DECIMALS = 6;
+
+/**
+ * Load the token of a denom, or create it if it hasn't been seen yet. The
+ * display information is refreshed from the asset registry
+ *
+ * LP shares are named after their pool and linked to it, their underlying
+ * assets and price are kept up to date with the pool
+ *
+ * @param store The store
+ * @param denom The denom of the token. Example: uosmo
+ * @returns The created or existing token, it is saved
+ */
+export function loadOrCreateToken(store: Store, denom: string): TokenRecord {
+  let token = store.loadToken(denom);
+  if (token === null) {
+    token = new TokenRecord(denom);
+  }
+  token.kind = TOKEN_KIND_ASSET;
+  const sharePoolId = getPoolIdFromShareDenom(denom);
+  if (sharePoolId != "") {
+    token.kind = TOKEN_KIND_POOL_SHARE;
+    token.name = getPoolShareName(sharePoolId);
+    token.symbol = getPoolShareSymbol(sharePoolId);
+    token.decimals = POOL_SHARE_DECIMALS;
+    token.pool = sharePoolId;
+    const pool = store.loadPool(sharePoolId);
+    if (pool !== null) {
+      token.underlyingAssets = pool.tokens;
+    }
+  } else if (ASSET_REGISTRY.has(denom)) {
+    const asset: Asset = ASSET_REGISTRY.get(denom)!;
+    token.name = asset.name;
+    token.symbol = asset.symbol;
+    token.decimals = asset.decimals;
+    token.coingeckoId = asset.coingeckoId != "" ? asset.coingeckoId : null;
+    token.logoURI = asset.logoURI != "" ? asset.logoURI : null;
+  } else {
+    // Unknown denoms are named after themselves
+    token.name = denom;
+    token.symbol = denom;
+    token.decimals = DEFAULT_DECIMALS;
+  }
+  store.saveToken(token);
+
+  return token as TokenRecord;
+}
+
+/**
+ * Get the pool ID of an LP share denom
+ *
+ * @param denom The denom to check. Example: gamm/pool/1
+ * @returns The pool ID, or an empty string if the denom isn't an LP share
+ */
+export function getPoolIdFromShareDenom(denom: string): string {
+  if (!denom.startsWith(POOL_SHARE_DENOM_PREFIX)) {
+    return "";
+  }
+  return denom.substring(POOL_SHARE_DENOM_PREFIX.length);
+}
+
+/**
+ * Get the LP share denom of a pool
+ *
+ * @param poolId The pool ID
+ * @returns The share denom. Example: gamm/pool/1
+ */
+export function getShareDenom(poolId: string): string {
+  return `${POOL_SHARE_DENOM_PREFIX}${poolId}`;
+}
+
+/**
+ * Get the symbol of a pool's LP share, as Osmosis frontends show it
+ *
+ * @param poolId The pool ID
+ * @returns The symbol. Example: GAMM-1
+ */
+export function getPoolShareSymbol(poolId: string): string {
+  return `GAMM-${poolId}`;
+}
+
+/**
+ * Get the name of a pool's LP share
+ *
+ * @param poolId The pool ID
+ * @returns The name. Example: Pool 1 LP shares
+ */
+export function getPoolShareName(poolId: string): string {
+  return `Pool ${poolId} LP shares`;
+}
+
+/**
+ * Check if a denom swapped in a pool is that pool's own LP share. Those
+ * swaps join or exit the pool with a single asset rather than trade the
+ * share, LP shares held as the reserve of another pool are traded
+ *
+ * @param denom The swapped denom
+ * @param poolId The pool the swap was made in
+ * @returns True if the denom is the pool's LP share
+ */
+export function isOwnPoolShare(denom: string, poolId: string): boolean {
+  return getPoolIdFromShareDenom(denom) == poolId;
+}
+
+/**
+ * Get the USD price of a pool's LP share, the pool's TVL divided over its
+ * shares
+ *
+ * @param tvlUSD The USD value of the pool's reserves
+ * @param totalShares The pool's share supply in base units
+ * @returns The price, or null if the pool has no shares or no value
+ */
+export function getPoolSharePrice(tvlUSD: BigDecimal, totalShares: BigInt): BigDecimal | null {
+  const shares = convertTokenToDecimal(totalShares, POOL_SHARE_DECIMALS);
+  if (shares.le(BigDecimal.zero()) || tvlUSD.equals(BigDecimal.zero())) {
+    return null;
+  }
+  return tvlUSD.div(shares);
+}
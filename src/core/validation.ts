@@ -0,0 +1,185 @@
+import { Coin, CoinsParseResult, parseCoins } from "./coins";
+import { SWAP_FEE_ATTRIBUTES, getPoolType } from "./swaps";
+
+// The reasons a swap event is rejected or only partly processed, the values
+// of the IndexingIssueReason enum
+export const ISSUE_UNKNOWN_POOL_MODULE = "UNKNOWN_POOL_MODULE";
+export const ISSUE_MISSING_ATTRIBUTE = "MISSING_ATTRIBUTE";
+export const ISSUE_INVALID_POOL_ID = "INVALID_POOL_ID";
+export const ISSUE_INVALID_COINS = "INVALID_COINS";
+export const ISSUE_UNEXPECTED_COIN_COUNT = "UNEXPECTED_COIN_COUNT";
+export const ISSUE_ZERO_AMOUNT = "ZERO_AMOUNT";
+export const ISSUE_SAME_DENOM = "SAME_DENOM";
+export const ISSUE_INVALID_SWAP_FEE = "INVALID_SWAP_FEE";
+export const ISSUE_UNPRICED_USD_CANDLES = "UNPRICED_USD_CANDLES";
+
+// The attributes every pool module's swap event carries
+export const REQUIRED_SWAP_ATTRIBUTES: string[] = ["pool_id", "sender", "tokens_in", "tokens_out"];
+
+/**
+ * SwapValidation is a swap event checked before it is indexed. A valid event
+ * has its pool type and coins, a rejected one the reason and a message
+ */
+export class SwapValidation {
+  poolType: string;
+  poolId: string;
+  sender: string;
+  coinIn: Coin | null;
+  coinOut: Coin | null;
+  reason: string;
+  message: string;
+
+  constructor(poolType: string, poolId: string, sender: string, coinIn: Coin | null, coinOut: Coin | null, reason: string, message: string) {
+    this.poolType = poolType;
+    this.poolId = poolId;
+    this.sender = sender;
+    this.coinIn = coinIn;
+    this.coinOut = coinOut;
+    this.reason = reason;
+    this.message = message;
+  }
+
+  isValid(): boolean {
+    return this.reason == "";
+  }
+}
+
+/**
+ * Check a swap event's attributes before anything is indexed from it. The
+ * event is rejected if its pool module is unknown, an attribute it needs is
+ * missing or its coins aren't a single, non-zero coin of a different denom
+ * on each side
+ *
+ * @param attributes The event attributes, missing and empty attributes are
+ *                   treated alike as graph-node does
+ * @returns The validated swap, or the reason it was rejected
+ */
+export function validateSwap(attributes: Map<string, string>): SwapValidation {
+  const moduleName = getAttribute(attributes, "module");
+  const poolType = getPoolType(moduleName);
+  if (poolType == "") {
+    return rejectSwap(ISSUE_UNKNOWN_POOL_MODULE, `unknown pool module "${moduleName}"`);
+  }
+
+  for (let i = 0; i < REQUIRED_SWAP_ATTRIBUTES.length; i++) {
+    if (getAttribute(attributes, REQUIRED_SWAP_ATTRIBUTES[i]) == "") {
+      return rejectSwap(ISSUE_MISSING_ATTRIBUTE, `missing ${REQUIRED_SWAP_ATTRIBUTES[i]}`);
+    }
+  }
+
+  const poolId = getAttribute(attributes, "pool_id");
+  if (!isUnsignedInteger(poolId)) {
+    return rejectSwap(ISSUE_INVALID_POOL_ID, `pool_id "${poolId}" isn't a pool ID`);
+  }
+
+  // The pool modules share the attributes of GAMM's token_swapped
+  const tokensIn = getAttribute(attributes, "tokens_in");
+  const coinsIn = parseCoins(tokensIn);
+  const coinsInRejection = checkSwappedCoins("tokens_in", tokensIn, coinsIn);
+  if (coinsInRejection !== null) {
+    return coinsInRejection;
+  }
+  const tokensOut = getAttribute(attributes, "tokens_out");
+  const coinsOut = parseCoins(tokensOut);
+  const coinsOutRejection = checkSwappedCoins("tokens_out", tokensOut, coinsOut);
+  if (coinsOutRejection !== null) {
+    return coinsOutRejection;
+  }
+  const coinIn = coinsIn.coins[0];
+  const coinOut = coinsOut.coins[0];
+  if (coinIn.denom == coinOut.denom) {
+    return rejectSwap(ISSUE_SAME_DENOM, `swaps ${coinIn.denom} for itself`);
+  }
+
+  return new SwapValidation(poolType, poolId, getAttribute(attributes, "sender"), coinIn, coinOut, "", "");
+}
+
+/**
+ * Check the swap fee attributes of an event. An invalid fee doesn't reject
+ * the swap, it is indexed without the event's fee
+ *
+ * @param attributes The event attributes
+ * @returns Why the fee is invalid, or an empty string if it is valid or the
+ *          event carries none
+ */
+export function validateSwapFee(attributes: Map<string, string>): string {
+  for (let i = 0; i < SWAP_FEE_ATTRIBUTES.length; i++) {
+    const value = getAttribute(attributes, SWAP_FEE_ATTRIBUTES[i]);
+    if (value != "") {
+      return isDecimal(value) ? "" : `${SWAP_FEE_ATTRIBUTES[i]} "${value}" isn't a decimal`;
+    }
+  }
+  return "";
+}
+
+/**
+ * Check that a value is an unsigned decimal number such as 0.002, as swap
+ * fees and spread factors are emitted
+ *
+ * @param value The value to check
+ * @returns True if the value is a decimal number
+ */
+export function isDecimal(value: string): boolean {
+  let digits = 0;
+  let points = 0;
+  for (let i = 0; i < value.length; i++) {
+    const ch = value.charAt(i);
+    if (ch == ".") {
+      points++;
+    } else if (ch >= "0" && ch <= "9") {
+      digits++;
+    } else {
+      return false;
+    }
+  }
+  return digits > 0 && points <= 1;
+}
+
+/**
+ * Get an event attribute
+ *
+ * @param attributes The event attributes
+ * @param key The attribute key
+ * @returns The value, or an empty string if the attribute is missing
+ */
+export function getAttribute(attributes: Map<string, string>, key: string): string {
+  return attributes.has(key) ? attributes.get(key)! : "";
+}
+
+/**
+ * Check that a swap event attribute is a single, non-zero coin
+ *
+ * @returns The rejection, or null if the coins can be used
+ */
+function checkSwappedCoins(key: string, value: string, result: CoinsParseResult): SwapValidation | null {
+  if (!result.isValid()) {
+    return rejectSwap(ISSUE_INVALID_COINS, `${key} "${value}" ${result.error}`);
+  }
+  if (result.coins.length != 1) {
+    return rejectSwap(ISSUE_UNEXPECTED_COIN_COUNT, `${key} "${value}" has ${result.coins.length} coins, expected 1`);
+  }
+  if (result.coins[0].amount.isZero()) {
+    return rejectSwap(ISSUE_ZERO_AMOUNT, `${key} "${value}" has a zero amount`);
+  }
+  return null;
+}
+
+function rejectSwap(reason: string, message: string): SwapValidation {
+  return new SwapValidation("", "", "", null, null, reason, message);
+}
+
+/**
+ * Check that a value is an unsigned integer such as a pool ID
+ *
+ * @param value The value to check
+ * @returns True if the value is an unsigned integer
+ */
+export function isUnsignedInteger(value: string): boolean {
+  for (let i = 0; i < value.length; i++) {
+    const ch = value.charAt(i);
+    if (ch < "0" || ch > "9") {
+      return false;
+    }
+  }
+  return value.length > 0;
+}
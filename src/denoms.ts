@@ -1,161 +0,0 @@
-import { Token } from "../generated/schema";
-
-
-/**
- * This is a mapping of the token IBC denoms to their names and symbols for display
- * and is extracted from https://docs.osmosis.zone/osmosis-core/asset-info/
- * in this list we assume all tokens have 6 decimal places
- * 
- * In future we could script it to build this mapping from 
- * https://github.com/osmosis-labs/assetlists/blob/main/osmosis-1/osmosis-1.assetlist.json
- */
-export const DENOM_NAME_MAPPING = new Map<string, Token>();
-DENOM_NAME_MAPPING.set("uosmo", new Token("uosmo", "Osmosis", "OSMO", "6"));
-DENOM_NAME_MAPPING.set("uion", new Token("uion", "Ion", "ION", "6"));
-DENOM_NAME_MAPPING.set("ibc/D189335C6E4A68B513C10AB227BF1C1D38C746766278BA3EEB4FB14124F1D858", new Token("ibc/D189335C6E4A68B513C10AB227BF1C1D38C746766278BA3EEB4FB14124F1D858", "USD Coin", "USDC", "6"));
-DENOM_NAME_MAPPING.set("ibc/EA1D43981D5C9A1C4AAEA9C23BB1D4FA126BA9BC7020A25E0AE4AA841EA25DC5", new Token("ibc/EA1D43981D5C9A1C4AAEA9C23BB1D4FA126BA9BC7020A25E0AE4AA841EA25DC5", "Wrapped Ether", "wETH", "6"));
-DENOM_NAME_MAPPING.set("ibc/D1542AA8762DB13087D8364F3EA6509FD6F009A34F00426AF9E4F9FA85CBBF1F", new Token("ibc/D1542AA8762DB13087D8364F3EA6509FD6F009A34F00426AF9E4F9FA85CBBF1F", "Wrapped Bitcoin", "WBTC", "6"));
-DENOM_NAME_MAPPING.set("ibc/8242AD24008032E457D2E12D46588FD39FB54FB29680C6C7663D296B383C37C4", new Token("ibc/8242AD24008032E457D2E12D46588FD39FB54FB29680C6C7663D296B383C37C4", "Tether USD", "USDT", "6"));
-DENOM_NAME_MAPPING.set("ibc/0CD3A0285E1341859B5E86B6AB7682F023D03E97607CCC1DC95706411D866DF7", new Token("ibc/0CD3A0285E1341859B5E86B6AB7682F023D03E97607CCC1DC95706411D866DF7", "Dai Stablecoin", "DAI", "6"));
-DENOM_NAME_MAPPING.set("ibc/6329DD8CF31A334DD5BE3F68C846C9FE313281362B37686A62343BAC1EB1546D", new Token("ibc/6329DD8CF31A334DD5BE3F68C846C9FE313281362B37686A62343BAC1EB1546D", "Binance USD", "BUSD", "6"));
-DENOM_NAME_MAPPING.set("ibc/27394FB092D2ECCD56123C74F36E4C1F926001CEADA9CA97EA622B25F41E5EB2", new Token("ibc/27394FB092D2ECCD56123C74F36E4C1F926001CEADA9CA97EA622B25F41E5EB2", "Cosmos Hub Atom", "ATOM", "6"));
-DENOM_NAME_MAPPING.set("ibc/E6931F78057F7CC5DA0FD6CEF82FF39373A6E0452BF1FD76910B93292CF356C1", new Token("ibc/E6931F78057F7CC5DA0FD6CEF82FF39373A6E0452BF1FD76910B93292CF356C1", "Cronos", "CRO", "6"));
-DENOM_NAME_MAPPING.set("ibc/F4A070A6D78496D53127EA85C094A9EC87DFC1F36071B8CCDDBD020F933D213D", new Token("ibc/F4A070A6D78496D53127EA85C094A9EC87DFC1F36071B8CCDDBD020F933D213D", "Wrapped BNB", "wBNB", "6"));
-DENOM_NAME_MAPPING.set("ibc/AB589511ED0DD5FA56171A39978AFBF1371DB986EC1C3526CE138A16377E39BB", new Token("ibc/AB589511ED0DD5FA56171A39978AFBF1371DB986EC1C3526CE138A16377E39BB", "Wrapped Matic", "wMATIC", "6"));
-DENOM_NAME_MAPPING.set("ibc/6F62F01D913E3FFE472A38C78235B8F021B511BC6596ADFF02615C8F83D3B373", new Token("ibc/6F62F01D913E3FFE472A38C78235B8F021B511BC6596ADFF02615C8F83D3B373", "Wrapped AVAX", "wAVAX", "6"));
-DENOM_NAME_MAPPING.set("ibc/0EF15DF2F02480ADE0BB6E85D9EBB5DAEA2836D3860E9F97F9AADE4F57A31AA0", new Token("ibc/0EF15DF2F02480ADE0BB6E85D9EBB5DAEA2836D3860E9F97F9AADE4F57A31AA0", "Luna Classic", "LUNC", "6"));
-DENOM_NAME_MAPPING.set("ibc/46B44899322F3CD854D2D46DEEF881958467CDD4B3B10086DA49296BBED94BED", new Token("ibc/46B44899322F3CD854D2D46DEEF881958467CDD4B3B10086DA49296BBED94BED", "Juno", "JUNO", "6"));
-DENOM_NAME_MAPPING.set("ibc/3FF92D26B407FD61AE95D975712A7C319CDE28DE4D80BDC9978D935932B991D7", new Token("ibc/3FF92D26B407FD61AE95D975712A7C319CDE28DE4D80BDC9978D935932B991D7", "Wrapped Polkadot", "DOT", "6"));
-DENOM_NAME_MAPPING.set("ibc/6AE98883D4D5D5FF9E50D7130F1305DA2FFA0C652D1DD9C123657C6B4EB2DF8A", new Token("ibc/6AE98883D4D5D5FF9E50D7130F1305DA2FFA0C652D1DD9C123657C6B4EB2DF8A", "Evmos", "EVMOS", "6"));
-DENOM_NAME_MAPPING.set("ibc/57AA1A70A4BC9769C525EBF6386F7A21536E04A79D62E1981EFCEF9428EBB205", new Token("ibc/57AA1A70A4BC9769C525EBF6386F7A21536E04A79D62E1981EFCEF9428EBB205", "Kava", "KAVA", "6"));
-DENOM_NAME_MAPPING.set("ibc/0954E1C28EB7AF5B72D24F3BC2B47BBB2FDF91BDDFD57B74B99E133AED40972A", new Token("ibc/0954E1C28EB7AF5B72D24F3BC2B47BBB2FDF91BDDFD57B74B99E133AED40972A", "Secret Network", "SCRT", "6"));
-DENOM_NAME_MAPPING.set("ibc/BE1BB42D4BE3C30D50B68D7C41DB4DFCE9678E8EF8C539F6E6A9345048894FCC", new Token("ibc/BE1BB42D4BE3C30D50B68D7C41DB4DFCE9678E8EF8C539F6E6A9345048894FCC", "TerraClassicUSD", "USTC", "6"));
-DENOM_NAME_MAPPING.set("ibc/987C17B11ABC2B20019178ACE62929FE9840202CE79498E29FE8E5CB02B7C0A4", new Token("ibc/987C17B11ABC2B20019178ACE62929FE9840202CE79498E29FE8E5CB02B7C0A4", "Stargaze", "STARS", "6"));
-DENOM_NAME_MAPPING.set("ibc/B9E0A1A524E98BB407D3CED8720EFEFD186002F90C1B1B7964811DD0CCC12228", new Token("ibc/B9E0A1A524E98BB407D3CED8720EFEFD186002F90C1B1B7964811DD0CCC12228", "Chihuahua", "HUAHUA", "6"));
-DENOM_NAME_MAPPING.set("ibc/A0CC0CF735BFB30E730C70019D4218A1244FF383503FF7579C9201AB93CA9293", new Token("ibc/A0CC0CF735BFB30E730C70019D4218A1244FF383503FF7579C9201AB93CA9293", "Persistence", "XPRT", "6"));
-DENOM_NAME_MAPPING.set("ibc/8061A06D3BD4D52C4A28FFECF7150D370393AF0BA661C3776C54FF32836C3961", new Token("ibc/8061A06D3BD4D52C4A28FFECF7150D370393AF0BA661C3776C54FF32836C3961", "pSTAKE Finance", "PSTAKE", "6"));
-DENOM_NAME_MAPPING.set("ibc/1480B8FD20AD5FCAE81EA87584D269547DD4D436843C1D20F15E00EB64743EF4", new Token("ibc/1480B8FD20AD5FCAE81EA87584D269547DD4D436843C1D20F15E00EB64743EF4", "Akash Network", "AKT", "6"));
-DENOM_NAME_MAPPING.set("ibc/1DCC8A6CB5689018431323953344A9F6CC4D0BFB261E88C9F7777372C10CD076", new Token("ibc/1DCC8A6CB5689018431323953344A9F6CC4D0BFB261E88C9F7777372C10CD076", "Regen Network", "REGEN", "6"));
-DENOM_NAME_MAPPING.set("ibc/9712DBB13B9631EDFA9BF61B55F1B2D290B2ADB67E3A4EB3A875F3B6081B3B84", new Token("ibc/9712DBB13B9631EDFA9BF61B55F1B2D290B2ADB67E3A4EB3A875F3B6081B3B84", "Sentinel", "DVPN", "6"));
-DENOM_NAME_MAPPING.set("ibc/7C4D60AA95E5A7558B0A364860979CA34B7FF8AAF255B87AF9E879374470CEC0", new Token("ibc/7C4D60AA95E5A7558B0A364860979CA34B7FF8AAF255B87AF9E879374470CEC0", "IRISnet", "IRIS", "6"));
-DENOM_NAME_MAPPING.set("ibc/52B1AA623B34EB78FD767CEA69E8D7FA6C9CFE1FBF49C5406268FD325E2CC2AC", new Token("ibc/52B1AA623B34EB78FD767CEA69E8D7FA6C9CFE1FBF49C5406268FD325E2CC2AC", "Starname", "IOV", "6"));
-DENOM_NAME_MAPPING.set("ibc/1DC495FCEFDA068A3820F903EDBD78B942FBD204D7E93D3BA2B432E9669D1A59", new Token("ibc/1DC495FCEFDA068A3820F903EDBD78B942FBD204D7E93D3BA2B432E9669D1A59", "e-Money", "NGM", "6"));
-DENOM_NAME_MAPPING.set("ibc/5973C068568365FFF40DEDCF1A1CB7582B6116B731CD31A12231AE25E20B871F", new Token("ibc/5973C068568365FFF40DEDCF1A1CB7582B6116B731CD31A12231AE25E20B871F", "e-Money EUR", "EEUR", "6"));
-DENOM_NAME_MAPPING.set("ibc/9989AD6CCA39D1131523DB0617B50F6442081162294B4795E26746292467B525", new Token("ibc/9989AD6CCA39D1131523DB0617B50F6442081162294B4795E26746292467B525", "LikeCoin", "LIKE", "6"));
-DENOM_NAME_MAPPING.set("ibc/F3FF7A84A73B62921538642F9797C423D2B4C4ACB3C7FCFFCE7F12AA69909C4B", new Token("ibc/F3FF7A84A73B62921538642F9797C423D2B4C4ACB3C7FCFFCE7F12AA69909C4B", "IXO", "IXO", "6"));
-DENOM_NAME_MAPPING.set("ibc/D805F1DA50D31B96E4282C1D4181EDDFB1A44A598BFF5666F4B43E4B8BEA95A5", new Token("ibc/D805F1DA50D31B96E4282C1D4181EDDFB1A44A598BFF5666F4B43E4B8BEA95A5", "BitCanna", "BCNA", "6"));
-DENOM_NAME_MAPPING.set("ibc/4E5444C35610CC76FC94E7F7886B93121175C28262DDFDDE6F84E82BF2425452", new Token("ibc/4E5444C35610CC76FC94E7F7886B93121175C28262DDFDDE6F84E82BF2425452", "BitSong", "BTSG", "6"));
-DENOM_NAME_MAPPING.set("ibc/B547DC9B897E7C3AA5B824696110B8E3D2C31E3ED3F02FF363DCBAD82457E07E", new Token("ibc/B547DC9B897E7C3AA5B824696110B8E3D2C31E3ED3F02FF363DCBAD82457E07E", "Ki", "XKI", "6"));
-DENOM_NAME_MAPPING.set("ibc/3BCCC93AD5DF58D11A6F8A05FA8BC801CBA0BA61A981F57E91B8B598BF8061CB", new Token("ibc/3BCCC93AD5DF58D11A6F8A05FA8BC801CBA0BA61A981F57E91B8B598BF8061CB", "MediBloc", "MED", "6"));
-DENOM_NAME_MAPPING.set("ibc/FE2CD1E6828EC0FAB8AF39BAC45BC25B965BA67CCBC50C13A14BD610B0D1E2C4", new Token("ibc/FE2CD1E6828EC0FAB8AF39BAC45BC25B965BA67CCBC50C13A14BD610B0D1E2C4", "Bostrom", "BOOT", "6"));
-DENOM_NAME_MAPPING.set("ibc/EA3E1640F9B1532AB129A571203A0B9F789A7F14BB66E350DCBFA18E1A1931F0", new Token("ibc/EA3E1640F9B1532AB129A571203A0B9F789A7F14BB66E350DCBFA18E1A1931F0", "Comdex", "CMDX", "6"));
-DENOM_NAME_MAPPING.set("ibc/7A08C6F11EF0F59EB841B9F788A87EC9F2361C7D9703157EC13D940DC53031FA", new Token("ibc/7A08C6F11EF0F59EB841B9F788A87EC9F2361C7D9703157EC13D940DC53031FA", "cheqd", "CHEQ", "6"));
-DENOM_NAME_MAPPING.set("ibc/8A34AF0C1943FD0DFCDE9ADBF0B2C9959C45E87E6088EA2FC6ADACD59261B8A2", new Token("ibc/8A34AF0C1943FD0DFCDE9ADBF0B2C9959C45E87E6088EA2FC6ADACD59261B8A2", "Lum", "LUM", "6"));
-DENOM_NAME_MAPPING.set("ibc/E7B35499CFBEB0FF5778127ABA4FB2C4B79A6B8D3D831D4379C4048C238796BD", new Token("ibc/E7B35499CFBEB0FF5778127ABA4FB2C4B79A6B8D3D831D4379C4048C238796BD", "Vidulum", "VDL", "6"));
-DENOM_NAME_MAPPING.set("ibc/EA4C0A9F72E2CEDF10D0E7A9A6A22954DB3444910DB5BE980DF59B05A46DAD1C", new Token("ibc/EA4C0A9F72E2CEDF10D0E7A9A6A22954DB3444910DB5BE980DF59B05A46DAD1C", "Desmos", "DSM", "6"));
-DENOM_NAME_MAPPING.set("ibc/307E5C96C8F60D1CBEE269A9A86C0834E1DB06F2B3788AE4F716EDB97A48B97D", new Token("ibc/307E5C96C8F60D1CBEE269A9A86C0834E1DB06F2B3788AE4F716EDB97A48B97D", "Dig Chain", "DIG", "6"));
-DENOM_NAME_MAPPING.set("ibc/9BBA9A1C257E971E38C1422780CE6F0B0686F0A3085E2D61118D904BFE0F5F5E", new Token("ibc/9BBA9A1C257E971E38C1422780CE6F0B0686F0A3085E2D61118D904BFE0F5F5E", "Somm", "SOMM", "6"));
-DENOM_NAME_MAPPING.set("ibc/F867AE2112EFE646EC71A25CD2DFABB8927126AC1E19F1BBF0FF693A4ECA05DE", new Token("ibc/F867AE2112EFE646EC71A25CD2DFABB8927126AC1E19F1BBF0FF693A4ECA05DE", "Band Protocol", "BAND", "6"));
-DENOM_NAME_MAPPING.set("ibc/346786EA82F41FE55FAD14BF69AD8BA9B36985406E43F3CB23E6C45A285A9593", new Token("ibc/346786EA82F41FE55FAD14BF69AD8BA9B36985406E43F3CB23E6C45A285A9593", "DARC", "DARC", "6"));
-DENOM_NAME_MAPPING.set("ibc/67795E528DF67C5606FC20F824EA39A6EF55BA133F4DC79C90A8C47A0901E17C", new Token("ibc/67795E528DF67C5606FC20F824EA39A6EF55BA133F4DC79C90A8C47A0901E17C", "Umee", "UMEE", "6"));
-DENOM_NAME_MAPPING.set("ibc/E97634A40119F1898989C2A23224ED83FDD0A57EA46B3A094E287288D1672B44", new Token("ibc/E97634A40119F1898989C2A23224ED83FDD0A57EA46B3A094E287288D1672B44", "Graviton", "GRAV", "6"));
-DENOM_NAME_MAPPING.set("ibc/9BCB27203424535B6230D594553F1659C77EC173E36D9CF4759E7186EE747E84", new Token("ibc/9BCB27203424535B6230D594553F1659C77EC173E36D9CF4759E7186EE747E84", "Decentr", "DEC", "6"));
-DENOM_NAME_MAPPING.set("ibc/F6B691D5F7126579DDC87357B09D653B47FDCE0A3383FF33C8D8B544FE29A8A6", new Token("ibc/F6B691D5F7126579DDC87357B09D653B47FDCE0A3383FF33C8D8B544FE29A8A6", "Marble", "MARBLE", "6"));
-DENOM_NAME_MAPPING.set("ibc/8FEFAE6AECF6E2A255585617F781F35A8D5709A545A804482A261C0C9548A9D3", new Token("ibc/8FEFAE6AECF6E2A255585617F781F35A8D5709A545A804482A261C0C9548A9D3", "Carbon", "SWTH", "6"));
-DENOM_NAME_MAPPING.set("ibc/41999DF04D9441DAC0DF5D8291DF4333FBCBA810FFD63FDCE34FDF41EF37B6F7", new Token("ibc/41999DF04D9441DAC0DF5D8291DF4333FBCBA810FFD63FDCE34FDF41EF37B6F7", "Cerberus", "CRBRUS", "6"));
-DENOM_NAME_MAPPING.set("ibc/5D1F516200EE8C6B2354102143B78A2DEDA25EDE771AC0F8DC3C1837C8FD4447", new Token("ibc/5D1F516200EE8C6B2354102143B78A2DEDA25EDE771AC0F8DC3C1837C8FD4447", "fetch-ai", "FET", "6"));
-DENOM_NAME_MAPPING.set("ibc/CBA34207E969623D95D057D9B11B0C8B32B89A71F170577D982FDDE623813FFC", new Token("ibc/CBA34207E969623D95D057D9B11B0C8B32B89A71F170577D982FDDE623813FFC", "AssetMantle", "MNTL", "6"));
-DENOM_NAME_MAPPING.set("ibc/297C64CC42B5A8D8F82FE2EBE208A6FE8F94B86037FA28C4529A23701C228F7A", new Token("ibc/297C64CC42B5A8D8F82FE2EBE208A6FE8F94B86037FA28C4529A23701C228F7A", "Neta", "NETA", "6"));
-DENOM_NAME_MAPPING.set("ibc/64BA6E31FE887D66C6F8F31C7B1A80C7CA179239677B4088BB55F5EA07DBE273", new Token("ibc/64BA6E31FE887D66C6F8F31C7B1A80C7CA179239677B4088BB55F5EA07DBE273", "Injective", "INJ", "6"));
-DENOM_NAME_MAPPING.set("ibc/204A582244FC241613DBB50B04D1D454116C58C4AF7866C186AA0D6EEAD42780", new Token("ibc/204A582244FC241613DBB50B04D1D454116C58C4AF7866C186AA0D6EEAD42780", "TerraClassicKRW", "KRTC", "6"));
-DENOM_NAME_MAPPING.set("ibc/655BCEF3CDEBE32863FF281DBBE3B06160339E9897DC9C9C9821932A5F8BA6F8", new Token("ibc/655BCEF3CDEBE32863FF281DBBE3B06160339E9897DC9C9C9821932A5F8BA6F8", "Microtick", "TICK", "6"));
-DENOM_NAME_MAPPING.set("ibc/8318FD63C42203D16DDCAF49FE10E8590669B3219A3E87676AC9DA50722687FB", new Token("ibc/8318FD63C42203D16DDCAF49FE10E8590669B3219A3E87676AC9DA50722687FB", "Sifchain Rowan", "ROWAN", "6"));
-DENOM_NAME_MAPPING.set("ibc/7ED954CFFFC06EE8419387F3FC688837FF64EF264DE14219935F724EEEDBF8D3", new Token("ibc/7ED954CFFFC06EE8419387F3FC688837FF64EF264DE14219935F724EEEDBF8D3", "Shentu", "CTK", "6"));
-DENOM_NAME_MAPPING.set("ibc/C2A2E9CA95DDD4828B75124B5E27B8401C7D8493BC48353D418CBFC04565899B", new Token("ibc/C2A2E9CA95DDD4828B75124B5E27B8401C7D8493BC48353D418CBFC04565899B", "Hope Galaxy", "HOPE", "6"));
-DENOM_NAME_MAPPING.set("ibc/6BDB4C8CCD45033F9604E4B93ED395008A753E01EECD6992E7D1EA23D9D3B788", new Token("ibc/6BDB4C8CCD45033F9604E4B93ED395008A753E01EECD6992E7D1EA23D9D3B788", "Racoon", "RAC", "6"));
-DENOM_NAME_MAPPING.set("ibc/0E43EDE2E2A3AFA36D0CD38BDDC0B49FECA64FA426A82E102F304E430ECF46EE", new Token("ibc/0E43EDE2E2A3AFA36D0CD38BDDC0B49FECA64FA426A82E102F304E430ECF46EE", "Frax", "FRAX", "6"));
-DENOM_NAME_MAPPING.set("ibc/C9B0D48FD2C5B91135F118FF2484551888966590D7BDC20F6A87308DBA670796", new Token("ibc/C9B0D48FD2C5B91135F118FF2484551888966590D7BDC20F6A87308DBA670796", "Wrapped Bitcoin	WBTC", "grv	", "6"));
-DENOM_NAME_MAPPING.set("ibc/65381C5F3FD21442283D56925E62EA524DED8B6927F0FF94E21E0020954C40B5", new Token("ibc/65381C5F3FD21442283D56925E62EA524DED8B6927F0FF94E21E0020954C40B5", "Wrapped Ethereum	WETH", "grv	", "6"));
-DENOM_NAME_MAPPING.set("ibc/9F9B07EF9AD291167CF5700628145DE1DEB777C2CFC7907553B24446515F6D0E", new Token("ibc/9F9B07EF9AD291167CF5700628145DE1DEB777C2CFC7907553B24446515F6D0E", "USD Coin	USDC", "grv", "6"));
-DENOM_NAME_MAPPING.set("ibc/F292A17CF920E3462C816CBE6B042E779F676CAB59096904C4C1C966413E3DF5", new Token("ibc/F292A17CF920E3462C816CBE6B042E779F676CAB59096904C4C1C966413E3DF5", "Dai Stablecoin	DAI", "grv", "6"));
-DENOM_NAME_MAPPING.set("ibc/71B441E27F1BBB44DD0891BCD370C2794D404D60A4FFE5AECCD9B1E28BC89805", new Token("ibc/71B441E27F1BBB44DD0891BCD370C2794D404D60A4FFE5AECCD9B1E28BC89805", "Tether USD	USDT", "grv", "6"));
-DENOM_NAME_MAPPING.set("ibc/DB9755CB6FE55192948AE074D18FA815E1429D3D374D5BDA8D89623C6CF235C3", new Token("ibc/DB9755CB6FE55192948AE074D18FA815E1429D3D374D5BDA8D89623C6CF235C3", "Block", "BLOCK", "6"));
-DENOM_NAME_MAPPING.set("ibc/CE5BFF1D9BADA03BB5CCA5F56939392A761B53A10FBD03B37506669C3218D3B2", new Token("ibc/CE5BFF1D9BADA03BB5CCA5F56939392A761B53A10FBD03B37506669C3218D3B2", "Hash", "HASH", "6"));
-DENOM_NAME_MAPPING.set("ibc/F49DE040EBA5AB2FAD5F660C2A1DDF98A68470FAE82229818BE775EBF3EE79F2", new Token("ibc/F49DE040EBA5AB2FAD5F660C2A1DDF98A68470FAE82229818BE775EBF3EE79F2", "Galaxy", "GLX", "6"));
-DENOM_NAME_MAPPING.set("ibc/52E12CF5CA2BB903D84F5298B4BFD725D66CAB95E09AA4FC75B2904CA5485FEB", new Token("ibc/52E12CF5CA2BB903D84F5298B4BFD725D66CAB95E09AA4FC75B2904CA5485FEB", "DHK", "DHK", "6"));
-DENOM_NAME_MAPPING.set("ibc/00B6E60AD3D65CBEF5579AC8AF609527C0B57535B6E32D96C80A735344FD9DCC", new Token("ibc/00B6E60AD3D65CBEF5579AC8AF609527C0B57535B6E32D96C80A735344FD9DCC", "JunoSwap", "RAW", "6"));
-DENOM_NAME_MAPPING.set("ibc/67C89B8B0A70C08F093C909A4DD996DD10E0494C87E28FD9A551697BF173D4CA", new Token("ibc/67C89B8B0A70C08F093C909A4DD996DD10E0494C87E28FD9A551697BF173D4CA", "MEME", "MEME", "6"));
-DENOM_NAME_MAPPING.set("ibc/AA1C80225BCA7B32ED1FC6ABF8B8E899BEB48ECDB4B417FD69873C6D715F97E7", new Token("ibc/AA1C80225BCA7B32ED1FC6ABF8B8E899BEB48ECDB4B417FD69873C6D715F97E7", "Another.Software Validator", "Token	ASVT		", "6"));
-DENOM_NAME_MAPPING.set("ibc/0CB9DB3441D0D50F35699DEE22B9C965487E83FB2D9F483D1CC5CA34E856C484", new Token("ibc/0CB9DB3441D0D50F35699DEE22B9C965487E83FB2D9F483D1CC5CA34E856C484", "JoeDAO", "JOE", "6"));
-DENOM_NAME_MAPPING.set("ibc/785AFEC6B3741100D15E7AF01374E3C4C36F24888E96479B1C33F5C71F364EF9", new Token("ibc/785AFEC6B3741100D15E7AF01374E3C4C36F24888E96479B1C33F5C71F364EF9", "Luna", "LUNA", "6"));
-DENOM_NAME_MAPPING.set("ibc/2716E3F2E146664BEFA9217F1A03BFCEDBCD5178B3C71CACB1A0D7584451D219", new Token("ibc/2716E3F2E146664BEFA9217F1A03BFCEDBCD5178B3C71CACB1A0D7584451D219", "Rizon Chain", "ATOLO", "6"));
-DENOM_NAME_MAPPING.set("ibc/D6C28E07F7343360AC41E15DDD44D79701DDCA2E0C2C41279739C8D4AE5264BC", new Token("ibc/D6C28E07F7343360AC41E15DDD44D79701DDCA2E0C2C41279739C8D4AE5264BC", "Hard", "HARD", "6"));
-DENOM_NAME_MAPPING.set("ibc/70CF1A54E23EA4E480DEDA9E12082D3FD5684C3483CBDCE190C5C807227688C5", new Token("ibc/70CF1A54E23EA4E480DEDA9E12082D3FD5684C3483CBDCE190C5C807227688C5", "Swap", "SWP", "6"));
-DENOM_NAME_MAPPING.set("ibc/D3327A763C23F01EC43D1F0DB3CEFEC390C362569B6FD191F40A5192F8960049", new Token("ibc/D3327A763C23F01EC43D1F0DB3CEFEC390C362569B6FD191F40A5192F8960049", "Chainlink", "LINK", "6"));
-DENOM_NAME_MAPPING.set("ibc/F16FDC11A7662B86BC0B9CE61871CBACF7C20606F95E86260FD38915184B75B4", new Token("ibc/F16FDC11A7662B86BC0B9CE61871CBACF7C20606F95E86260FD38915184B75B4", "GenesisL1", "L1", "6"));
-DENOM_NAME_MAPPING.set("ibc/384E5DD50BDE042E1AAF51F312B55F08F95BC985C503880189258B4D9374CBBE", new Token("ibc/384E5DD50BDE042E1AAF51F312B55F08F95BC985C503880189258B4D9374CBBE", "Aave", "AAVE", "6"));
-DENOM_NAME_MAPPING.set("ibc/F83CC6471DA4D4B508F437244F10B9E4C68975344E551A2DEB6B8617AB08F0D4", new Token("ibc/F83CC6471DA4D4B508F437244F10B9E4C68975344E551A2DEB6B8617AB08F0D4", "ApeCoin", "APE", "6"));
-DENOM_NAME_MAPPING.set("ibc/6C0CB8653012DC2BC1820FD0B6B3AFF8A07D18630BDAEE066FEFB2D92F477C24", new Token("ibc/6C0CB8653012DC2BC1820FD0B6B3AFF8A07D18630BDAEE066FEFB2D92F477C24", "Axie Infinity Shard", "AXS", "6"));
-DENOM_NAME_MAPPING.set("ibc/D27DDDF34BB47E5D5A570742CC667DE53277867116CCCA341F27785E899A70F3", new Token("ibc/D27DDDF34BB47E5D5A570742CC667DE53277867116CCCA341F27785E899A70F3", "Maker", "MKR", "6"));
-DENOM_NAME_MAPPING.set("ibc/BD796662F8825327D41C96355DF62045A5BA225BAE31C0A86289B9D88ED3F44E", new Token("ibc/BD796662F8825327D41C96355DF62045A5BA225BAE31C0A86289B9D88ED3F44E", "Rai Reflex Index", "RAI", "6"));
-DENOM_NAME_MAPPING.set("ibc/19305E20681911F14D1FB275E538CDE524C3BF88CF9AE5D5F78F4D4DA05E85B2", new Token("ibc/19305E20681911F14D1FB275E538CDE524C3BF88CF9AE5D5F78F4D4DA05E85B2", "Shiba Inu", "SHIB", "6"));
-DENOM_NAME_MAPPING.set("ibc/AE2719773D6FCDD05AC17B1ED63F672F5F9D84144A61965F348C86C2A83AD161", new Token("ibc/AE2719773D6FCDD05AC17B1ED63F672F5F9D84144A61965F348C86C2A83AD161", "Uniswap", "UNI", "6"));
-DENOM_NAME_MAPPING.set("ibc/B901BEC1B71D0573E6EE874FEC39E2DF4C2BDB1DB74CB3DA0A9CACC4A435B0EC", new Token("ibc/B901BEC1B71D0573E6EE874FEC39E2DF4C2BDB1DB74CB3DA0A9CACC4A435B0EC", "Chain", "XCN", "6"));
-DENOM_NAME_MAPPING.set("ibc/BB6BCDB515050BAE97516111873CCD7BCF1FD0CCB723CC12F3C4F704D6C646CE", new Token("ibc/BB6BCDB515050BAE97516111873CCD7BCF1FD0CCB723CC12F3C4F704D6C646CE", "Kuji", "KUJI", "6"));
-DENOM_NAME_MAPPING.set("ibc/1E09CB0F506ACF12FDE4683FB6B34DA62FB4BE122641E0D93AAF98A87675676C", new Token("ibc/1E09CB0F506ACF12FDE4683FB6B34DA62FB4BE122641E0D93AAF98A87675676C", "Tgrade", "TGD", "6"));
-DENOM_NAME_MAPPING.set("ibc/47EE224A9B33CF0ABEAC82106E52F0F6E8D8CEC5BA80B9D9A6F55172CBB0177D", new Token("ibc/47EE224A9B33CF0ABEAC82106E52F0F6E8D8CEC5BA80B9D9A6F55172CBB0177D", "Echelon", "ECH", "6"));
-DENOM_NAME_MAPPING.set("ibc/C360EF34A86D334F625E4CBB7DA3223AEA97174B61F35BB3758081A8160F7D9B", new Token("ibc/C360EF34A86D334F625E4CBB7DA3223AEA97174B61F35BB3758081A8160F7D9B", "ODIN", "ODIN", "6"));
-DENOM_NAME_MAPPING.set("ibc/9B6FBABA36BB4A3BF127AE5E96B572A5197FD9F3111D895D8919B07BC290764A", new Token("ibc/9B6FBABA36BB4A3BF127AE5E96B572A5197FD9F3111D895D8919B07BC290764A", "GEO", "GEO", "6"));
-DENOM_NAME_MAPPING.set("ibc/0CD46223FEABD2AEAAAF1F057D01E63BCA79B7D4BD6B68F1EB973A987344695D", new Token("ibc/0CD46223FEABD2AEAAAF1F057D01E63BCA79B7D4BD6B68F1EB973A987344695D", "O9W", "O9W", "6"));
-DENOM_NAME_MAPPING.set("ibc/AD185F62399F770CCCE8A36A180A77879FF6C26A0398BD3D2A74E087B0BFA121", new Token("ibc/AD185F62399F770CCCE8A36A180A77879FF6C26A0398BD3D2A74E087B0BFA121", "LVN", "LVN", "6"));
-DENOM_NAME_MAPPING.set("ibc/1E26DB0E5122AED464D98462BD384FCCB595732A66B3970AE6CE0B58BAE0FC49", new Token("ibc/1E26DB0E5122AED464D98462BD384FCCB595732A66B3970AE6CE0B58BAE0FC49", "Wrapped Moonbeam", "wGLMR", "6"));
-DENOM_NAME_MAPPING.set("ibc/52C57FCA7D6854AA178E7A183DDBE4EF322B904B1D719FC485F6FFBC1F72A19E", new Token("ibc/52C57FCA7D6854AA178E7A183DDBE4EF322B904B1D719FC485F6FFBC1F72A19E", "Gelotto", "GLTO", "6"));
-DENOM_NAME_MAPPING.set("ibc/7C781B4C2082CD62129A972D47486D78EC17155C299270E3C89348EA026BEAF8", new Token("ibc/7C781B4C2082CD62129A972D47486D78EC17155C299270E3C89348EA026BEAF8", "GKey", "GKEY", "6"));
-DENOM_NAME_MAPPING.set("ibc/5A7C219BA5F7582B99629BA3B2A01A61BFDA0F6FD1FE95B5366F7334C4BC0580", new Token("ibc/5A7C219BA5F7582B99629BA3B2A01A61BFDA0F6FD1FE95B5366F7334C4BC0580", "Crescent", "CRE", "6"));
-DENOM_NAME_MAPPING.set("ibc/FFA652599C77E853F017193E36B5AB2D4D9AFC4B54721A74904F80C9236BF3B7", new Token("ibc/FFA652599C77E853F017193E36B5AB2D4D9AFC4B54721A74904F80C9236BF3B7", "LUMEN", "LUMEN", "6"));
-DENOM_NAME_MAPPING.set("ibc/161D7D62BAB3B9C39003334F1671208F43C06B643CC9EDBBE82B64793C857F1D", new Token("ibc/161D7D62BAB3B9C39003334F1671208F43C06B643CC9EDBBE82B64793C857F1D", "Oraichain", "ORAI", "6"));
-DENOM_NAME_MAPPING.set("ibc/E09ED39F390EC51FA9F3F69BEA08B5BBE6A48B3057B2B1C3467FAAE9E58B021B", new Token("ibc/E09ED39F390EC51FA9F3F69BEA08B5BBE6A48B3057B2B1C3467FAAE9E58B021B", "Cudos", "CUDOS", "6"));
-DENOM_NAME_MAPPING.set("ibc/C78F65E1648A3DFE0BAEB6C4CDA69CC2A75437F1793C0E6386DFDA26393790AE", new Token("ibc/C78F65E1648A3DFE0BAEB6C4CDA69CC2A75437F1793C0E6386DFDA26393790AE", "USDX", "USDX", "6"));
-DENOM_NAME_MAPPING.set("ibc/2DA9C149E9AD2BD27FEFA635458FB37093C256C1A940392634A16BEA45262604", new Token("ibc/2DA9C149E9AD2BD27FEFA635458FB37093C256C1A940392634A16BEA45262604", "Agoric", "BLD", "6"));
-DENOM_NAME_MAPPING.set("ibc/92BE0717F4678905E53F4E45B2DED18BC0CB97BF1F8B6A25AFEDF3D5A879B4D5", new Token("ibc/92BE0717F4678905E53F4E45B2DED18BC0CB97BF1F8B6A25AFEDF3D5A879B4D5", "Inter Stable Token", "IST", "6"));
-DENOM_NAME_MAPPING.set("ibc/C6B6BFCB6EE49A7CAB1A7E7B021DE35B99D525AC660844952F0F6C78DCB2A57B", new Token("ibc/C6B6BFCB6EE49A7CAB1A7E7B021DE35B99D525AC660844952F0F6C78DCB2A57B", "StakeEasy seJUNO", "SEJUNO", "6"));
-DENOM_NAME_MAPPING.set("ibc/C2DF5C3949CA835B221C575625991F09BAB4E48FB9C11A4EE357194F736111E3", new Token("ibc/C2DF5C3949CA835B221C575625991F09BAB4E48FB9C11A4EE357194F736111E3", "StakeEasy bJUNO", "BJUNO", "6"));
-DENOM_NAME_MAPPING.set("ibc/A8CA5EE328FA10C9519DF6057DA1F69682D28F7D0F5CCC7ECB72E3DCA2D157A4", new Token("ibc/A8CA5EE328FA10C9519DF6057DA1F69682D28F7D0F5CCC7ECB72E3DCA2D157A4", "Stride", "STRD", "6"));
-DENOM_NAME_MAPPING.set("ibc/C140AFD542AE77BD7DCC83F13FDD8C5E5BB8C4929785E6EC2F4C636F98F17901", new Token("ibc/C140AFD542AE77BD7DCC83F13FDD8C5E5BB8C4929785E6EC2F4C636F98F17901", "stATOM", "stATOM", "6"));
-DENOM_NAME_MAPPING.set("ibc/5DD1F95ED336014D00CE2520977EC71566D282F9749170ADC83A392E0EA7426A", new Token("ibc/5DD1F95ED336014D00CE2520977EC71566D282F9749170ADC83A392E0EA7426A", "stSTARS", "stSTARS", "6"));
-DENOM_NAME_MAPPING.set("ibc/C3FC4DED273E7D1DD2E7BAA3317EC9A53CD3252B577AA33DC00D9DF2BDF3ED5C", new Token("ibc/C3FC4DED273E7D1DD2E7BAA3317EC9A53CD3252B577AA33DC00D9DF2BDF3ED5C", "Solarbank DAO", "SOLAR", "6"));
-DENOM_NAME_MAPPING.set("ibc/18A676A074F73B9B42DA4F9DFC8E5AEF334C9A6636DDEC8D34682F52F1DECDF6", new Token("ibc/18A676A074F73B9B42DA4F9DFC8E5AEF334C9A6636DDEC8D34682F52F1DECDF6", "StakeEasy SEASY", "SEASY", "6"));
-DENOM_NAME_MAPPING.set("ibc/903A61A498756EA560B85A85132D3AEE21B5DEDD41213725D22ABF276EA6945E", new Token("ibc/903A61A498756EA560B85A85132D3AEE21B5DEDD41213725D22ABF276EA6945E", "Axelar", "AXL", "6"));
-DENOM_NAME_MAPPING.set("ibc/A1AC7F9EE2F643A68E3A35BCEB22040120BEA4059773BB56985C76BDFEBC71D9", new Token("ibc/A1AC7F9EE2F643A68E3A35BCEB22040120BEA4059773BB56985C76BDFEBC71D9", "Rebus", "REBUS", "6"));
-DENOM_NAME_MAPPING.set("ibc/EB7FB9C8B425F289B63703413327C2051030E848CE4EAAEA2E51199D6D39D3EC", new Token("ibc/EB7FB9C8B425F289B63703413327C2051030E848CE4EAAEA2E51199D6D39D3EC", "Teritori", "TORI", "6"));
-DENOM_NAME_MAPPING.set("ibc/84502A75BCA4A5F68D464C00B3F610CE2585847D59B52E5FFB7C3C9D2DDCD3FE", new Token("ibc/84502A75BCA4A5F68D464C00B3F610CE2585847D59B52E5FFB7C3C9D2DDCD3FE", "stJUNO", "stJUNO", "6"));
-DENOM_NAME_MAPPING.set("ibc/D176154B0C63D1F9C6DCFB4F70349EBF2E2B5A87A05902F57A6AE92B863E9AEC", new Token("ibc/D176154B0C63D1F9C6DCFB4F70349EBF2E2B5A87A05902F57A6AE92B863E9AEC", "stOSMO", "stOSMO", "6"));
-DENOM_NAME_MAPPING.set("ibc/6B982170CE024689E8DD0E7555B129B488005130D4EDA426733D552D10B36D8F", new Token("ibc/6B982170CE024689E8DD0E7555B129B488005130D4EDA426733D552D10B36D8F", "MuseDAO", "MUSE", "6"));
-DENOM_NAME_MAPPING.set("ibc/80825E8F04B12D914ABEADB1F4D39C04755B12C8402F6876EE3168450C0A90BB", new Token("ibc/80825E8F04B12D914ABEADB1F4D39C04755B12C8402F6876EE3168450C0A90BB", "Lambda", "LAMB", "6"));
-DENOM_NAME_MAPPING.set("ibc/44492EAB24B72E3FB59B9FA619A22337FB74F95D8808FE6BC78CC0E6C18DC2EC", new Token("ibc/44492EAB24B72E3FB59B9FA619A22337FB74F95D8808FE6BC78CC0E6C18DC2EC", "USK", "USK", "6"));
-DENOM_NAME_MAPPING.set("ibc/608EF5C0CE64FEA097500DB39657BDD36CA708CC5DCC2E250A024B6981DD36BC", new Token("ibc/608EF5C0CE64FEA097500DB39657BDD36CA708CC5DCC2E250A024B6981DD36BC", "Unification Network", "FUND	", "6"));
-DENOM_NAME_MAPPING.set("ibc/8E697BDABE97ACE8773C6DF7402B2D1D5104DD1EEABE12608E3469B7F64C15BA", new Token("ibc/8E697BDABE97ACE8773C6DF7402B2D1D5104DD1EEABE12608E3469B7F64C15BA", "Jackal", "JKL", "6"));
-DENOM_NAME_MAPPING.set("ibc/A6383B6CF5EA23E067666C06BC34E2A96869927BD9744DC0C1643E589C710AA3", new Token("ibc/A6383B6CF5EA23E067666C06BC34E2A96869927BD9744DC0C1643E589C710AA3", "Alter", "ALTER", "6"));
-DENOM_NAME_MAPPING.set("ibc/1FBA9E763B8679BEF7BAAAF2D16BCA78C3B297D226C3F31312C769D7B8F992D8", new Token("ibc/1FBA9E763B8679BEF7BAAAF2D16BCA78C3B297D226C3F31312C769D7B8F992D8", "Button", "BUTT", "6"));
-DENOM_NAME_MAPPING.set("ibc/71055835C7639739EAE03AACD1324FE162DBA41D09F197CB72D966D014225B1C", new Token("ibc/71055835C7639739EAE03AACD1324FE162DBA41D09F197CB72D966D014225B1C", "Shade", "SHD", "6"));
-DENOM_NAME_MAPPING.set("ibc/9A8A93D04917A149C8AC7C16D3DA8F470D59E8D867499C4DA97450E1D7363213", new Token("ibc/9A8A93D04917A149C8AC7C16D3DA8F470D59E8D867499C4DA97450E1D7363213", "SIENNA", "SIENNA", "6"));
-DENOM_NAME_MAPPING.set("ibc/D0E5BF2940FB58D9B283A339032DE88111407AAD7D94A7F1F3EB78874F8616D4", new Token("ibc/D0E5BF2940FB58D9B283A339032DE88111407AAD7D94A7F1F3EB78874F8616D4", "SCRT Staking Derivatives", "stkd-SCRT", "6"));
-DENOM_NAME_MAPPING.set("ibc/C822645522FC3EECF817609AA38C24B64D04F5C267A23BCCF8F2E3BC5755FA88", new Token("ibc/C822645522FC3EECF817609AA38C24B64D04F5C267A23BCCF8F2E3BC5755FA88", "BeeZee", "BZE", "6"));
-DENOM_NAME_MAPPING.set("ibc/7CE5F388D661D82A0774E47B5129DA51CC7129BD1A70B5FA6BCEBB5B0A2FAEAF", new Token("ibc/7CE5F388D661D82A0774E47B5129DA51CC7129BD1A70B5FA6BCEBB5B0A2FAEAF", "Fanfury", "FURY", "6"));
-DENOM_NAME_MAPPING.set("ibc/BB936517F7E5D77A63E0ADB05217A6608B0C4CF8FBA7EA2F4BAE4107A7238F06", new Token("ibc/BB936517F7E5D77A63E0ADB05217A6608B0C4CF8FBA7EA2F4BAE4107A7238F06", "Acre", "ACRE", "6"));
-DENOM_NAME_MAPPING.set("ibc/23CA6C8D1AB2145DD13EB1E089A2E3F960DC298B468CCE034E19E5A78B61136E", new Token("ibc/23CA6C8D1AB2145DD13EB1E089A2E3F960DC298B468CCE034E19E5A78B61136E", "CMST", "CMST", "6"));
-DENOM_NAME_MAPPING.set("ibc/92B223EBFA74DB99BEA92B23DEAA6050734FEEAABB84689CB8E1AE8F9C9F9AF4", new Token("ibc/92B223EBFA74DB99BEA92B23DEAA6050734FEEAABB84689CB8E1AE8F9C9F9AF4", "IMV", "IMV", "6"));
-DENOM_NAME_MAPPING.set("ibc/01E94A5FF29B8DDEFC86F412CC3927F7330E9B523CC63A6194B1108F5276025C", new Token("ibc/01E94A5FF29B8DDEFC86F412CC3927F7330E9B523CC63A6194B1108F5276025C", "Medas Digital", "MEDAS", "6"));
-DENOM_NAME_MAPPING.set("ibc/D3B574938631B0A1BA704879020C696E514CFADAA7643CDE4BD5EB010BDE327B", new Token("ibc/D3B574938631B0A1BA704879020C696E514CFADAA7643CDE4BD5EB010BDE327B", "POSTHUMAN", "PHMN", "6"));
-DENOM_NAME_MAPPING.set("ibc/18A1B70E3205A48DE8590C0D11030E7146CDBF1048789261D53FFFD7527F8B55", new Token("ibc/18A1B70E3205A48DE8590C0D11030E7146CDBF1048789261D53FFFD7527F8B55", "Amber", "AMBER", "6"));
-DENOM_NAME_MAPPING.set("ibc/B9606D347599F0F2FDF82BA3EE339000673B7D274EA50F59494DC51EFCD42163", new Token("ibc/B9606D347599F0F2FDF82BA3EE339000673B7D274EA50F59494DC51EFCD42163", "Nom", "NOM", "6"));
-DENOM_NAME_MAPPING.set("ibc/CAA179E40F0266B0B29FB5EAA288FB9212E628822265D4141EBD1C47C3CBFCBC", new Token("ibc/CAA179E40F0266B0B29FB5EAA288FB9212E628822265D4141EBD1C47C3CBFCBC", "PSTAKE staked ATOM", "stkATOM", "6"));
-DENOM_NAME_MAPPING.set("ibc/E27CD305D33F150369AB526AEB6646A76EC3FFB1A6CA58A663B5DE657A89D55D", new Token("ibc/E27CD305D33F150369AB526AEB6646A76EC3FFB1A6CA58A663B5DE657A89D55D", "Dys", "DYS", "6"));
-DENOM_NAME_MAPPING.set("ibc/D3ADAF73F84CDF205BCB72C142FDAEEA2C612AB853CEE6D6C06F184FA38B1099", new Token("ibc/D3ADAF73F84CDF205BCB72C142FDAEEA2C612AB853CEE6D6C06F184FA38B1099", "Hopers", "HOPERS", "6"));
-DENOM_NAME_MAPPING.set("ibc/5D270A584B1078FBE07D14570ED5E88EC1FEDA8518B76C322606291E6FD8286F", new Token("ibc/5D270A584B1078FBE07D14570ED5E88EC1FEDA8518B76C322606291E6FD8286F", "Arable USD", "arUSD", "6"));
-DENOM_NAME_MAPPING.set("ibc/B1E0166EA0D759FDF4B207D1F5F12210D8BFE36F2345CEFC76948CE2B36DFBAF", new Token("ibc/B1E0166EA0D759FDF4B207D1F5F12210D8BFE36F2345CEFC76948CE2B36DFBAF", "Planq", "PLQ", "6"));
-DENOM_NAME_MAPPING.set("ibc/5E2DFDF1734137302129EA1C1BA21A580F96F778D4F021815EA4F6DB378DA1A4", new Token("ibc/5E2DFDF1734137302129EA1C1BA21A580F96F778D4F021815EA4F6DB378DA1A4", "Wrapped FTM", "wFTM", "6"));
-DENOM_NAME_MAPPING.set("ibc/47CAF2DB8C016FAC960F33BC492FD8E454593B65CC59D70FA9D9F30424F9C32F", new Token("ibc/47CAF2DB8C016FAC960F33BC492FD8E454593B65CC59D70FA9D9F30424F9C32F", "Canto", "CANTO", "6"));
-DENOM_NAME_MAPPING.set("ibc/46C83BB054E12E189882B5284542DB605D94C99827E367C9192CF0579CD5BC83", new Token("ibc/46C83BB054E12E189882B5284542DB605D94C99827E367C9192CF0579CD5BC83", "Quicksilver Liquid Staked STARS", "qSTARS", "6"));
-DENOM_NAME_MAPPING.set("ibc/2FBAC4BF296D7844796844B35978E5899984BA5A6314B2DD8F83C215550010B3", new Token("ibc/2FBAC4BF296D7844796844B35978E5899984BA5A6314B2DD8F83C215550010B3", "Wynd DAO Governance Token", "WYND", "6"));
-DENOM_NAME_MAPPING.set("ibc/573FCD90FACEE750F55A8864EF7D38265F07E5A9273FA0E8DAFD39951332B580", new Token("ibc/573FCD90FACEE750F55A8864EF7D38265F07E5A9273FA0E8DAFD39951332B580", "Mars", "MARS", "6"));
\ No newline at end of file
@@ -0,0 +1,176 @@
+import { BigInt, cosmos, log } from "@graphprotocol/graph-ts";
+
+import { IndexingIssue, IndexingIssueCount, IndexingStatus } from "../generated/schema";
+import { getTxHash } from "./events";
+
+const INDEXING_STATUS_ID = "all";
+
+/**
+ * SwapEventIndex is the index of a swap event among its block's and its
+ * transaction's swap events
+ */
+export class SwapEventIndex {
+  block: i32;
+  tx: i32;
+
+  constructor(block: i32, tx: i32) {
+    this.block = block;
+    this.tx = tx;
+  }
+}
+
+/**
+ * Count a swap event as seen. Events are handled in the order they were
+ * emitted, so the counts of the block's and the transaction's swap events
+ * so far are the event's index among them
+ *
+ * @param data The event data
+ * @returns The index of the event among its block's and transaction's swap
+ *          events
+ */
+export function trackSwapEvent(data: cosmos.EventData): SwapEventIndex {
+  const height = BigInt.fromString(data.block.header.height.toString());
+  const txHash = getTxHash(data);
+  let status = IndexingStatus.load(INDEXING_STATUS_ID);
+  if (status === null) {
+    status = new IndexingStatus(INDEXING_STATUS_ID);
+    status.height = height;
+    status.blockSwapEventCount = 0;
+    status.txHash = txHash;
+    status.txSwapEventCount = 0;
+    status.swapEventCount = 0;
+    status.rejectedCount = 0;
+    status.partialCount = 0;
+  }
+  if (!status.height.equals(height)) {
+    status.height = height;
+    status.blockSwapEventCount = 0;
+  }
+  if (status.txHash != txHash) {
+    status.txHash = txHash;
+    status.txSwapEventCount = 0;
+  }
+
+  const index = new SwapEventIndex(status.blockSwapEventCount, status.txSwapEventCount);
+  status.blockSwapEventCount = status.blockSwapEventCount + 1;
+  status.txSwapEventCount = status.txSwapEventCount + 1;
+  status.swapEventCount = status.swapEventCount + 1;
+  status.save();
+
+  return index;
+}
+
+/**
+ * Record an issue with a swap event, with the event's raw attributes so
+ * parser gaps can be found from the subgraph. An event without a swap was
+ * rejected before anything was indexed from it, one with a swap was indexed
+ * only in part
+ *
+ * @param data The event data
+ * @param eventIndex The index of the event among its block's swap events
+ * @param reason The IndexingIssueReason
+ * @param message What was wrong with the event
+ * @param swapId The ID of the swap indexed from the event, or null if it
+ *               was rejected
+ */
+export function recordSwapIssue(data: cosmos.EventData, eventIndex: i32, reason: string, message: string, swapId: string | null): void {
+  const height = data.block.header.height.toString();
+  const isRejected = swapId === null;
+  if (isRejected) {
+    log.warning("Skipping swap at height {}: {}", [height, message]);
+  } else {
+    log.info("Partly indexed swap at height {}: {}", [height, message]);
+  }
+
+  const issueId = `${height}-${eventIndex}-${reason}`;
+  saveIssue(data, issueId, eventIndex, reason, message, swapId);
+  countIssue(reason, issueId, isRejected);
+}
+
+/**
+ * Record that a swap of a token without a USD price got no USDC candles.
+ * Unpriced tokens trade often until they are priced, so only the first such
+ * swap of each token is recorded as an issue, the others are only counted
+ *
+ * @param data The event data
+ * @param eventIndex The index of the event among its block's swap events
+ * @param reason The IndexingIssueReason
+ * @param denom The token without a USD price
+ * @param swapId The ID of the swap
+ */
+export function recordUnpricedSwap(data: cosmos.EventData, eventIndex: i32, reason: string, denom: string, swapId: string): void {
+  const issueId = `${reason}-${denom}`;
+  if (IndexingIssue.load(issueId) === null) {
+    log.info("Partly indexed swap at height {}: {} has no USD price", [data.block.header.height.toString(), denom]);
+    saveIssue(data, issueId, eventIndex, reason, `${denom} has no USD price`, swapId);
+  }
+  countIssue(reason, issueId, false);
+}
+
+/**
+ * Save an issue with a swap event
+ *
+ * @param data The event data
+ * @param id The issue ID
+ * @param eventIndex The index of the event among its block's swap events
+ * @param reason The IndexingIssueReason
+ * @param message What was wrong with the event
+ * @param swapId The ID of the swap indexed from the event, or null if it
+ *               was rejected
+ */
+function saveIssue(data: cosmos.EventData, id: string, eventIndex: i32, reason: string, message: string, swapId: string | null): void {
+  const issue = new IndexingIssue(id);
+  issue.height = BigInt.fromString(data.block.header.height.toString());
+  issue.timestamp = BigInt.fromString(data.block.header.time.seconds.toString());
+  issue.txHash = getTxHash(data);
+  issue.txIndex = data.tx.index as i32;
+  issue.eventIndex = eventIndex;
+  issue.eventType = data.event.eventType;
+  issue.attributes = getRawAttributes(data);
+  issue.reason = reason;
+  issue.message = message;
+  issue.isRejected = swapId === null;
+  issue.swap = swapId;
+  issue.save();
+}
+
+/**
+ * Count an issue in its reason's count and the indexing status
+ *
+ * @param reason The IndexingIssueReason
+ * @param issueId The ID of the issue recorded for it
+ * @param isRejected Whether the swap event was rejected
+ */
+function countIssue(reason: string, issueId: string, isRejected: boolean): void {
+  let count = IndexingIssueCount.load(reason);
+  if (count === null) {
+    count = new IndexingIssueCount(reason);
+    count.reason = reason;
+    count.count = 0;
+  }
+  count.count = count.count + 1;
+  count.lastIssue = issueId;
+  count.save();
+
+  const status = IndexingStatus.load(INDEXING_STATUS_ID)!;
+  if (isRejected) {
+    status.rejectedCount = status.rejectedCount + 1;
+  } else {
+    status.partialCount = status.partialCount + 1;
+  }
+  status.save();
+}
+
+/**
+ * Get the attributes of the event as they were emitted, as key=value
+ *
+ * @param data The event data
+ * @returns The attributes in the order of the event
+ */
+function getRawAttributes(data: cosmos.EventData): string[] {
+  const attributes: string[] = [];
+  for (let i = 0; i < data.event.attributes.length; i++) {
+    attributes.push(`${data.event.attributes[i].key}=${data.event.attributes[i].value}`);
+  }
+  return attributes;
+}
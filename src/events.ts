@@ -0,0 +1,55 @@
+import { BigInt, cosmos } from "@graphprotocol/graph-ts";
+
+import { EventBlock } from "./core/store";
+
+/**
+ * Get the attributes of an event by key. The first value of a repeated key
+ * is kept, as getAttributeValue returns it
+ *
+ * @param data The event data
+ * @returns The attributes
+ */
+export function getEventAttributes(data: cosmos.EventData): Map<string, string> {
+  const attributes = new Map<string, string>();
+  for (let i = 0; i < data.event.attributes.length; i++) {
+    const attribute = data.event.attributes[i];
+    if (!attributes.has(attribute.key)) {
+      attributes.set(attribute.key, attribute.value);
+    }
+  }
+  return attributes;
+}
+
+/**
+ * Get the block the event was emitted in
+ *
+ * @param data The event data
+ * @returns The block height and time
+ */
+export function getEventBlock(data: cosmos.EventData): EventBlock {
+  return getBlock(data.block.header);
+}
+
+/**
+ * Get the block of a block header
+ *
+ * @param header The block header
+ * @returns The block height and time
+ */
+export function getBlock(header: cosmos.Header): EventBlock {
+  return new EventBlock(
+    BigInt.fromString(header.height.toString()),
+    BigInt.fromString(header.time.seconds.toString())
+  );
+}
+
+/**
+ * Get the hash of the transaction that emitted the event, formatted as
+ * uppercase hex without a prefix to match Cosmos explorers
+ *
+ * @param data The event data
+ * @returns The transaction hash
+ */
+export function getTxHash(data: cosmos.EventData): string {
+  return data.tx.hash.toHexString().slice(2).toUpperCase();
+}
@@ -0,0 +1,58 @@
+// This file is generated by scripts/prepare-network.js from
+// networks/osmosis-1.json, do not edit it by hand
+
+// The network the subgraph is built for
+export const NETWORK: string = "osmosis-1";
+
+// The first block the subgraph indexes
+export const START_BLOCK: string = "1";
+
+// Tokens are priced in the reference asset where they can't be priced in a
+// stablecoin directly
+export const REFERENCE_DENOM: string = "uosmo";
+
+// The synthetic USD candles are quoted in USDC, they aren't created if the
+// network has no USDC
+export const USDC_DENOM: string = "ibc/D189335C6E4A68B513C10AB227BF1C1D38C746766278BA3EEB4FB14124F1D858";
+
+// Stablecoins are taken to be worth 1 USD
+export const STABLECOIN_DENOMS: string[] = [
+  // USDC
+  "ibc/D189335C6E4A68B513C10AB227BF1C1D38C746766278BA3EEB4FB14124F1D858",
+  // USDT
+  "ibc/8242AD24008032E457D2E12D46588FD39FB54FB29680C6C7663D296B383C37C4",
+  // DAI
+  "ibc/0CD3A0285E1341859B5E86B6AB7682F023D03E97607CCC1DC95706411D866DF7"
+];
+
+// Only trades against a stablecoin in these pools are used for pricing, so a
+// thin pool can't set the USD price
+export const STABLECOIN_POOLS: string[] = ["678"];
+
+// The swap fee of pools whose swap events don't carry it, as a fraction of
+// the amount swapped in
+export const POOL_SWAP_FEES = new Map<string, string>();
+POOL_SWAP_FEES.set("1", "0.002");
+
+// Swaps worth less than this in USD count toward a candle's volume but don't
+// move its open, high, low and close. Zero disables the filter
+export const MIN_NOTIONAL_USD: string = "1";
+
+// Swaps that move the price further than this fraction from the previous
+// close count toward volume only. Zero disables the guard
+export const MAX_CLOSE_DEVIATION: string = "0";
+
+// At most this many swaps of a pair in a row are filtered for deviating from
+// the close, the next one is taken as the new price
+export const MAX_DEVIATING_SWAPS: i32 = 3;
+
+// Swaps that can't be priced in USD are filtered by their amount of these
+// denoms instead, in display units
+export const MIN_QUOTE_NOTIONALS = new Map<string, string>();
+MIN_QUOTE_NOTIONALS.set("uosmo", "1");
+
+// The share supply and reserves of pools created before the start block, as
+// of the end of the block before it. Other pools' reserves are counted from
+// their creation
+export const POOL_SNAPSHOT_SHARES = new Map<string, string>();
+export const POOL_SNAPSHOT_RESERVES = new Map<string, string>();
@@ -0,0 +1,465 @@
+import { log, store } from "@graphprotocol/graph-ts";
+
+import {
+  Candle,
+  CandleClose,
+  CandleCloseQueue,
+  CandleSeries,
+  Pair,
+  Pool,
+  PoolAsset,
+  PriceSource,
+  Route,
+  Swap,
+  Token,
+  TokenPrice
+} from "../generated/schema";
+import { CandleState } from "./core/candles";
+import { Indicators } from "./core/indicators";
+import {
+  CandleCloseQueueRecord,
+  CandleCloseRecord,
+  CandleRecord,
+  CandleSeriesRecord,
+  EventBlock,
+  PairRecord,
+  PoolAssetRecord,
+  PoolRecord,
+  PriceSourceRecord,
+  RouteRecord,
+  Store,
+  SwapRecord,
+  TokenPriceRecord,
+  TokenRecord
+} from "./core/store";
+
+/**
+ * EntityStore keeps the core's records as the subgraph's entities
+ */
+export class EntityStore extends Store {
+  loadToken(id: string): TokenRecord | null {
+    const entity = Token.load(id);
+    if (entity === null) {
+      return null;
+    }
+    const token = new TokenRecord(entity.denom);
+    token.kind = entity.kind;
+    token.name = entity.name;
+    token.symbol = entity.symbol;
+    token.decimals = entity.decimals;
+    token.pool = entity.pool;
+    token.underlyingAssets = entity.underlyingAssets;
+    token.coingeckoId = entity.coingeckoId;
+    token.logoURI = entity.logoURI;
+    token.priceUSD = entity.priceUSD;
+    token.referencePrice = entity.referencePrice;
+    token.priceSource = entity.priceSource;
+    return token;
+  }
+
+  saveToken(token: TokenRecord): void {
+    const entity = new Token(token.id);
+    entity.kind = token.kind;
+    entity.name = token.name;
+    entity.denom = token.denom;
+    entity.symbol = token.symbol;
+    entity.decimals = token.decimals;
+    entity.pool = token.pool;
+    entity.underlyingAssets = token.underlyingAssets;
+    entity.coingeckoId = token.coingeckoId;
+    entity.logoURI = token.logoURI;
+    entity.priceUSD = token.priceUSD;
+    entity.referencePrice = token.referencePrice;
+    entity.priceSource = token.priceSource;
+    entity.save();
+  }
+
+  loadPriceSource(id: string): PriceSourceRecord | null {
+    const entity = PriceSource.load(id);
+    if (entity === null) {
+      return null;
+    }
+    const source = new PriceSourceRecord(id, entity.token, entity.anchor, entity.poolId);
+    source.price = entity.price;
+    source.liquidityUSD = entity.liquidityUSD;
+    source.height = entity.height;
+    source.timestamp = entity.timestamp;
+    return source;
+  }
+
+  savePriceSource(source: PriceSourceRecord): void {
+    const entity = new PriceSource(source.id);
+    entity.token = source.token;
+    entity.anchor = source.anchor;
+    entity.poolId = source.poolId;
+    entity.price = source.price;
+    entity.liquidityUSD = source.liquidityUSD;
+    entity.height = source.height;
+    entity.timestamp = source.timestamp;
+    entity.save();
+  }
+
+  saveTokenPrice(price: TokenPriceRecord): void {
+    const entity = new TokenPrice(price.id);
+    entity.token = price.token;
+    entity.priceUSD = price.priceUSD;
+    entity.referencePrice = price.referencePrice;
+    entity.source = price.source;
+    entity.height = price.height;
+    entity.timestamp = price.timestamp;
+    entity.save();
+  }
+
+  loadPool(id: string): PoolRecord | null {
+    const entity = Pool.load(id);
+    if (entity === null) {
+      return null;
+    }
+    const pool = new PoolRecord(id, new EventBlock(entity.lastUpdatedHeight, entity.lastUpdatedTimestamp));
+    pool.poolType = entity.poolType;
+    pool.createdAtHeight = entity.createdAtHeight;
+    pool.createdAtTimestamp = entity.createdAtTimestamp;
+    pool.tokens = entity.tokens;
+    pool.trackedFromHeight = entity.trackedFromHeight;
+    pool.totalShares = entity.totalShares;
+    pool.tvlUSD = entity.tvlUSD;
+    pool.netSharesMinted = entity.netSharesMinted;
+    pool.swapFee = entity.swapFee;
+    pool.swapCount = entity.swapCount;
+    pool.joinCount = entity.joinCount;
+    pool.exitCount = entity.exitCount;
+    return pool;
+  }
+
+  savePool(pool: PoolRecord): void {
+    const entity = new Pool(pool.id);
+    entity.poolType = pool.poolType;
+    entity.createdAtHeight = pool.createdAtHeight;
+    entity.createdAtTimestamp = pool.createdAtTimestamp;
+    entity.tokens = pool.tokens;
+    entity.trackedFromHeight = pool.trackedFromHeight;
+    entity.totalShares = pool.totalShares;
+    entity.tvlUSD = pool.tvlUSD;
+    entity.netSharesMinted = pool.netSharesMinted;
+    entity.swapFee = pool.swapFee;
+    entity.swapCount = pool.swapCount;
+    entity.joinCount = pool.joinCount;
+    entity.exitCount = pool.exitCount;
+    entity.lastUpdatedHeight = pool.lastUpdatedHeight;
+    entity.lastUpdatedTimestamp = pool.lastUpdatedTimestamp;
+    entity.save();
+  }
+
+  loadPoolAsset(id: string): PoolAssetRecord | null {
+    const entity = PoolAsset.load(id);
+    if (entity === null) {
+      return null;
+    }
+    const asset = new PoolAssetRecord(id, entity.pool, entity.token);
+    asset.reserve = entity.reserve;
+    asset.amount = entity.amount;
+    asset.valueUSD = entity.valueUSD;
+    return asset;
+  }
+
+  savePoolAsset(asset: PoolAssetRecord): void {
+    const entity = new PoolAsset(asset.id);
+    entity.pool = asset.pool;
+    entity.token = asset.token;
+    entity.reserve = asset.reserve;
+    entity.amount = asset.amount;
+    entity.valueUSD = asset.valueUSD;
+    entity.save();
+  }
+
+  loadPair(id: string): PairRecord | null {
+    const entity = Pair.load(id);
+    if (entity === null) {
+      return null;
+    }
+    const pair = new PairRecord(id, entity.canonicalId, entity.poolId!, entity.baseAsset, entity.quoteAsset);
+    pair.reverse = entity.reverse;
+    pair.poolType = entity.poolType;
+    pair.symbol = entity.symbol;
+    pair.name = entity.name;
+    pair.lastExecutionPrice = entity.lastExecutionPrice;
+    pair.deviatingSwaps = entity.deviatingSwaps;
+    return pair;
+  }
+
+  savePair(pair: PairRecord): void {
+    const entity = new Pair(pair.id);
+    entity.canonicalId = pair.canonicalId;
+    entity.reverse = pair.reverse;
+    entity.poolId = pair.poolId;
+    entity.pool = pair.pool;
+    entity.poolType = pair.poolType;
+    entity.symbol = pair.symbol;
+    entity.baseAsset = pair.baseAsset;
+    entity.quoteAsset = pair.quoteAsset;
+    entity.name = pair.name;
+    entity.lastExecutionPrice = pair.lastExecutionPrice;
+    entity.deviatingSwaps = pair.deviatingSwaps;
+    entity.save();
+  }
+
+  loadSwap(id: string): SwapRecord | null {
+    const entity = Swap.load(id);
+    if (entity === null) {
+      return null;
+    }
+    const swap = new SwapRecord(id, new EventBlock(entity.height, entity.timestamp), entity.txHash, entity.eventIndex);
+    swap.hopIndex = entity.hopIndex;
+    swap.route = entity.route;
+    swap.sender = entity.sender!;
+    swap.account = entity.account!;
+    swap.poolId = entity.poolId!;
+    swap.pool = entity.pool!;
+    swap.poolType = entity.poolType;
+    swap.pair = entity.pair!;
+    swap.tokens = entity.tokens;
+    swap.tokenIn = entity.tokenIn!;
+    swap.tokenInAmount = entity.tokenInAmount!;
+    swap.tokenOut = entity.tokenOut!;
+    swap.tokenOutAmount = entity.tokenOutAmount!;
+    swap.executionPrice = entity.executionPrice!;
+    swap.priceImpact = entity.priceImpact;
+    swap.swapFee = entity.swapFee;
+    swap.feeAmount = entity.feeAmount;
+    swap.feeUSD = entity.feeUSD;
+    swap.amountUSD = entity.amountUSD;
+    swap.isFiltered = entity.isFiltered;
+    swap.filterReason = entity.filterReason;
+    return swap;
+  }
+
+  saveSwap(swap: SwapRecord): void {
+    const entity = new Swap(swap.id);
+    entity.height = swap.height;
+    entity.timestamp = swap.timestamp;
+    entity.txHash = swap.txHash;
+    entity.eventIndex = swap.eventIndex;
+    entity.hopIndex = swap.hopIndex;
+    entity.transaction = swap.transaction;
+    entity.route = swap.route;
+    entity.sender = swap.sender;
+    entity.account = swap.account;
+    entity.poolId = swap.poolId;
+    entity.pool = swap.pool;
+    entity.poolType = swap.poolType;
+    entity.pair = swap.pair;
+    entity.tokens = swap.tokens;
+    entity.tokenIn = swap.tokenIn;
+    entity.tokenInAmount = swap.tokenInAmount;
+    entity.tokenOut = swap.tokenOut;
+    entity.tokenOutAmount = swap.tokenOutAmount;
+    entity.executionPrice = swap.executionPrice;
+    entity.priceImpact = swap.priceImpact;
+    entity.swapFee = swap.swapFee;
+    entity.feeAmount = swap.feeAmount;
+    entity.feeUSD = swap.feeUSD;
+    entity.amountUSD = swap.amountUSD;
+    entity.isFiltered = swap.isFiltered;
+    entity.filterReason = swap.filterReason;
+    entity.save();
+  }
+
+  loadRoute(id: string): RouteRecord | null {
+    const entity = Route.load(id);
+    if (entity === null) {
+      return null;
+    }
+    const route = new RouteRecord(id, new EventBlock(entity.height, entity.timestamp), entity.transaction, entity.msgIndex, entity.sender);
+    route.hopCount = entity.hopCount;
+    route.pathCount = entity.pathCount;
+    route.tokenIn = entity.tokenIn;
+    route.tokenInAmount = entity.tokenInAmount;
+    route.tokenOut = entity.tokenOut;
+    route.tokenOutAmount = entity.tokenOutAmount;
+    return route;
+  }
+
+  saveRoute(route: RouteRecord): void {
+    const entity = new Route(route.id);
+    entity.height = route.height;
+    entity.timestamp = route.timestamp;
+    entity.transaction = route.transaction;
+    entity.msgIndex = route.msgIndex;
+    entity.sender = route.sender;
+    entity.hopCount = route.hopCount;
+    entity.pathCount = route.pathCount;
+    entity.tokenIn = route.tokenIn;
+    entity.tokenInAmount = route.tokenInAmount;
+    entity.tokenOut = route.tokenOut;
+    entity.tokenOutAmount = route.tokenOutAmount;
+    entity.save();
+  }
+
+  loadCandleSeries(id: string): CandleSeriesRecord | null {
+    const entity = CandleSeries.load(id);
+    if (entity === null) {
+      return null;
+    }
+    const series = new CandleSeriesRecord(id, entity.candleIdPrefix, entity.poolId, entity.base, entity.quote, entity.interval, entity.timeframe, entity.divisor);
+    series.pool = entity.pool;
+    series.poolType = entity.poolType;
+    series.pair = entity.pair;
+    series.latest = entity.latest;
+
+    const state = series.indicatorState;
+    state.count = entity.closedCount;
+    state.closes = entity.closes;
+    state.closesSum = entity.closesSum;
+    state.close = entity.lastClose;
+    state.ema9 = entity.lastEma9;
+    state.ema21 = entity.lastEma21;
+    state.ema50 = entity.lastEma50;
+    state.avgGain = entity.avgGain;
+    state.avgLoss = entity.avgLoss;
+    return series;
+  }
+
+  saveCandleSeries(series: CandleSeriesRecord): void {
+    const entity = new CandleSeries(series.id);
+    entity.candleIdPrefix = series.candleIdPrefix;
+    entity.poolId = series.poolId;
+    entity.pool = series.pool;
+    entity.poolType = series.poolType;
+    entity.pair = series.pair;
+    entity.base = series.base;
+    entity.quote = series.quote;
+    entity.interval = series.interval;
+    entity.timeframe = series.timeframe;
+    entity.divisor = series.divisor;
+    entity.latest = series.latest;
+
+    const state = series.indicatorState;
+    entity.closedCount = state.count;
+    entity.closes = state.closes;
+    entity.closesSum = state.closesSum;
+    entity.lastClose = state.close;
+    entity.lastEma9 = state.ema9;
+    entity.lastEma21 = state.ema21;
+    entity.lastEma50 = state.ema50;
+    entity.avgGain = state.avgGain;
+    entity.avgLoss = state.avgLoss;
+    entity.save();
+  }
+
+  loadCandle(id: string): CandleRecord | null {
+    const entity = Candle.load(id);
+    if (entity === null) {
+      return null;
+    }
+
+    const state = new CandleState(entity.open);
+    state.high = entity.high;
+    state.low = entity.low;
+    state.close = entity.close;
+    state.baseVolume = entity.baseVolume;
+    state.quoteVolume = entity.quoteVolume;
+    state.volumeUSD = entity.volumeUSD;
+    state.tradeCount = entity.tradeCount;
+    state.filteredTradeCount = entity.filteredTradeCount;
+    state.vwap = entity.vwap;
+    state.fees = entity.fees;
+    state.feesUSD = entity.feesUSD;
+    state.maxPriceImpact = entity.maxPriceImpact;
+    state.firstTradeTimestamp = entity.firstTradeTimestamp;
+    state.lastTradeTimestamp = entity.lastTradeTimestamp;
+
+    const indicators = new Indicators(entity.ema9, entity.ema21, entity.ema50, entity.sma20, entity.rsi14, entity.bollingerWidth);
+    const candle = new CandleRecord(id, entity.poolId!, entity.base, entity.quote, entity.interval, entity.timestamp, state, indicators);
+    candle.pool = entity.pool;
+    candle.poolType = entity.poolType;
+    candle.pair = entity.pair;
+    candle.previous = entity.previous;
+    candle.skippedFrom = entity.skippedFrom;
+    candle.isClosed = entity.isClosed;
+    return candle;
+  }
+
+  saveCandle(candle: CandleRecord): void {
+    const entity = new Candle(candle.id);
+    entity.poolId = candle.poolId;
+    entity.pool = candle.pool;
+    entity.poolType = candle.poolType;
+    entity.pair = candle.pair;
+    entity.base = candle.base;
+    entity.quote = candle.quote;
+    entity.interval = candle.interval;
+    entity.timestamp = candle.timestamp;
+
+    const state = candle.state;
+    entity.open = state.open;
+    entity.high = state.high;
+    entity.low = state.low;
+    entity.close = state.close;
+    entity.baseVolume = state.baseVolume;
+    entity.quoteVolume = state.quoteVolume;
+    entity.volumeUSD = state.volumeUSD;
+    entity.tradeCount = state.tradeCount;
+    entity.filteredTradeCount = state.filteredTradeCount;
+    entity.vwap = state.vwap;
+    entity.fees = state.fees;
+    entity.feesUSD = state.feesUSD;
+    entity.maxPriceImpact = state.maxPriceImpact;
+    entity.firstTradeTimestamp = state.firstTradeTimestamp;
+    entity.lastTradeTimestamp = state.lastTradeTimestamp;
+
+    const indicators = candle.indicators;
+    entity.ema9 = indicators.ema9;
+    entity.ema21 = indicators.ema21;
+    entity.ema50 = indicators.ema50;
+    entity.sma20 = indicators.sma20;
+    entity.rsi14 = indicators.rsi14;
+    entity.bollingerWidth = indicators.bollingerWidth;
+    entity.previous = candle.previous;
+    entity.skippedFrom = candle.skippedFrom;
+    entity.isClosed = candle.isClosed;
+    entity.save();
+  }
+
+  loadCandleClose(id: string): CandleCloseRecord | null {
+    const entity = CandleClose.load(id);
+    if (entity === null) {
+      return null;
+    }
+
+    const close = new CandleCloseRecord(entity.timestamp);
+    close.series = entity.series;
+    return close;
+  }
+
+  saveCandleClose(close: CandleCloseRecord): void {
+    const entity = new CandleClose(close.id);
+    entity.timestamp = close.timestamp;
+    entity.series = close.series;
+    entity.save();
+  }
+
+  removeCandleClose(id: string): void {
+    store.remove("CandleClose", id);
+  }
+
+  loadCandleCloseQueue(id: string): CandleCloseQueueRecord | null {
+    const entity = CandleCloseQueue.load(id);
+    if (entity === null) {
+      return null;
+    }
+
+    const queue = new CandleCloseQueueRecord(id);
+    queue.timestamps = entity.timestamps;
+    return queue;
+  }
+
+  saveCandleCloseQueue(queue: CandleCloseQueueRecord): void {
+    const entity = new CandleCloseQueue(queue.id);
+    entity.timestamps = queue.timestamps;
+    entity.save();
+  }
+
+  warn(message: string): void {
+    log.warning(message, []);
+  }
+}
@@ -0,0 +1,257 @@
+import { BigDecimal, BigInt, store } from "@graphprotocol/graph-ts";
+
+import { Candle, Ticker, TickerClock, TickerRoll, TickerWindow } from "../generated/schema";
+import { CANDLE_SIZE_CONFIG } from "./config";
+import { getCandleId, getPoolCandleIdPrefix } from "./core/candles";
+import { getEnabledCandleSizes } from "./core/intervals";
+import { safeDiv } from "./core/math";
+import { PairRecord } from "./core/store";
+import { EntityStore } from "./store";
+import { CandleSize, TIMEFRAME_HOUR } from "./types";
+
+const SECONDS_PER_HOUR: i64 = 3600;
+// The window is the current hour and the hours before it
+const WINDOW_HOURS: i64 = 24;
+// The ID of the TickerClock
+const TICKER_CLOCK_ID = "tickers";
+
+// Tickers are built from the 1h candles, they aren't kept if that size is
+// disabled
+const TICKER_SIZE: CandleSize | null = getTickerSize();
+
+/**
+ * Update the rolling 24 hour ticker of a pair that traded from its 1h
+ * candles. The window is the hour the block falls in and the 23 hours
+ * before it
+ *
+ * The closed hours of the window are summed into the pair's TickerWindow
+ * once per hour, so a swap only reads the current hour's candle. The first
+ * trade of an hour queues the pair to be rolled when the hour leaves the
+ * window
+ *
+ * @param pair The pair, its candles are already updated
+ * @param blockTime The time of the current block
+ */
+export function updateTicker(pair: PairRecord, blockTime: i64): void {
+  if (TICKER_SIZE === null) {
+    return;
+  }
+  const current = buildTicker(pair, blockTime);
+  if (current !== null && current.tradeCount == 1) {
+    const hour = blockTime - (blockTime % SECONDS_PER_HOUR);
+    queueTickerRoll(pair.id, hour + WINDOW_HOURS * SECONDS_PER_HOUR);
+  }
+}
+
+/**
+ * Roll the tickers of the pairs whose traded hours have left their window
+ * since the last block, so the ticker of a pair that stopped trading
+ * doesn't keep the 24 hours up to its last trade
+ *
+ * @param blockTime The time of the current block
+ */
+export function rollTickers(blockTime: i64): void {
+  if (TICKER_SIZE === null) {
+    return;
+  }
+  const hour = blockTime - (blockTime % SECONDS_PER_HOUR);
+  let clock = TickerClock.load(TICKER_CLOCK_ID);
+  if (clock === null) {
+    // Nothing is queued before the first block
+    clock = new TickerClock(TICKER_CLOCK_ID);
+    clock.hour = BigInt.fromString(hour.toString());
+    clock.save();
+    return;
+  }
+  if (clock.hour.toI64() == hour) {
+    return;
+  }
+
+  const pairs = new EntityStore();
+  for (let rollHour = clock.hour.toI64() + SECONDS_PER_HOUR; rollHour <= hour; rollHour += SECONDS_PER_HOUR) {
+    const id = rollHour.toString();
+    const roll = TickerRoll.load(id);
+    if (roll === null) {
+      continue;
+    }
+    const pairIds = roll.pairs;
+    for (let i = 0; i < pairIds.length; i++) {
+      buildTicker(pairs.loadPair(pairIds[i])!, blockTime);
+    }
+    store.remove("TickerRoll", id);
+  }
+  clock.hour = BigInt.fromString(hour.toString());
+  clock.save();
+}
+
+/**
+ * Build the ticker of a pair from its window as of the given time. Without
+ * trades in the window the ticker keeps its last price with no change and
+ * no volume
+ *
+ * @param pair The pair
+ * @param blockTime The time of the current block
+ * @returns The pair's 1h candle of the current hour, null if it has none
+ */
+function buildTicker(pair: PairRecord, blockTime: i64): Candle | null {
+  const size = TICKER_SIZE as CandleSize;
+  const prefix = getPoolCandleIdPrefix(pair.poolId, pair.baseAsset);
+  const hour = blockTime - (blockTime % SECONDS_PER_HOUR);
+
+  let window = TickerWindow.load(pair.id);
+  if (window === null) {
+    window = new TickerWindow(pair.id);
+    window.ticker = pair.id;
+    window.hour = BigInt.zero();
+  }
+  if (window.hour.toI64() != hour) {
+    rollTickerWindow(window, pair.quoteAsset, prefix, size, hour);
+  }
+  const current = Candle.load(getCandleId(prefix, pair.quoteAsset, size.interval, hour));
+
+  // Without a candle this hour the window's closed hours are the ticker
+  let open = window.open;
+  let close = window.close;
+  let high = window.high;
+  let low = window.low;
+  let baseVolume = window.baseVolume;
+  let quoteVolume = window.quoteVolume;
+  let tradeCount = window.tradeCount;
+  let lastTradeTimestamp = window.lastTradeTimestamp;
+  if (current !== null) {
+    if (open === null) {
+      open = current.open;
+    }
+    close = current.close;
+    high = high === null || current.high.gt(high as BigDecimal) ? current.high : high;
+    low = low === null || current.low.lt(low as BigDecimal) ? current.low : low;
+    baseVolume = baseVolume.plus(current.baseVolume);
+    quoteVolume = quoteVolume.plus(current.quoteVolume);
+    tradeCount = tradeCount + current.tradeCount;
+    if (current.lastTradeTimestamp !== null) {
+      lastTradeTimestamp = current.lastTradeTimestamp;
+    }
+  }
+
+  let ticker = Ticker.load(pair.id);
+  if (open === null || close === null) {
+    // The pair has no candles in the window, a pair that stopped trading
+    // keeps its last price
+    if (ticker === null) {
+      return current;
+    }
+    open = ticker.lastPrice;
+    close = ticker.lastPrice;
+    high = ticker.lastPrice;
+    low = ticker.lastPrice;
+    lastTradeTimestamp = ticker.lastTradeTimestamp;
+  }
+  if (ticker === null) {
+    ticker = new Ticker(pair.id);
+    ticker.pair = pair.id;
+    ticker.poolId = pair.poolId;
+    ticker.pool = pair.pool;
+    ticker.base = pair.baseAsset;
+    ticker.quote = pair.quoteAsset;
+  }
+  const open24h = open as BigDecimal;
+  const lastPrice = close as BigDecimal;
+  const priceChange = lastPrice.minus(open24h);
+  ticker.poolType = pair.poolType;
+  ticker.lastPrice = lastPrice;
+  ticker.open24h = open24h;
+  ticker.priceChange24h = priceChange;
+  ticker.priceChangePercent24h = safeDiv(priceChange, open24h).times(BigDecimal.fromString("100"));
+  ticker.high24h = high as BigDecimal;
+  ticker.low24h = low as BigDecimal;
+  ticker.baseVolume24h = baseVolume;
+  ticker.quoteVolume24h = quoteVolume;
+  ticker.tradeCount24h = tradeCount;
+  ticker.windowStart = window.hour.minus(BigInt.fromString(((WINDOW_HOURS - 1) * SECONDS_PER_HOUR).toString()));
+  ticker.lastTradeTimestamp = lastTradeTimestamp;
+  ticker.updatedTimestamp = BigInt.fromString(blockTime.toString());
+  ticker.save();
+  return current;
+}
+
+/**
+ * Queue a pair's ticker to be rolled at the start of an hour
+ *
+ * @param pairId The pair ID
+ * @param hour The start of the hour
+ */
+function queueTickerRoll(pairId: string, hour: i64): void {
+  let roll = TickerRoll.load(hour.toString());
+  if (roll === null) {
+    roll = new TickerRoll(hour.toString());
+    roll.hour = BigInt.fromString(hour.toString());
+    roll.pairs = [];
+  }
+  const pairs = roll.pairs;
+  pairs.push(pairId);
+  roll.pairs = pairs;
+  roll.save();
+}
+
+/**
+ * Sum the closed hours of a pair's 24 hour window, the 23 1h candles
+ * before the given hour. Hours before the pair's first candle are left out
+ *
+ * @param window The pair's window, it is saved
+ * @param quoteDenom The quote asset denom of the pair
+ * @param prefix The prefix of the pair's candle ids
+ * @param size The 1h candle size
+ * @param hour The start of the current hour
+ */
+function rollTickerWindow(window: TickerWindow, quoteDenom: string, prefix: string, size: CandleSize, hour: i64): void {
+  window.hour = BigInt.fromString(hour.toString());
+  window.open = null;
+  window.close = null;
+  window.high = null;
+  window.low = null;
+  window.baseVolume = BigDecimal.zero();
+  window.quoteVolume = BigDecimal.zero();
+  window.tradeCount = 0;
+  window.lastTradeTimestamp = null;
+
+  for (let i: i64 = WINDOW_HOURS - 1; i > 0; i--) {
+    const candle = Candle.load(getCandleId(prefix, quoteDenom, size.interval, hour - i * SECONDS_PER_HOUR));
+    if (candle === null) {
+      continue;
+    }
+    if (window.open === null) {
+      window.open = candle.open;
+    }
+    window.close = candle.close;
+    const high = window.high;
+    if (high === null || candle.high.gt(high)) {
+      window.high = candle.high;
+    }
+    const low = window.low;
+    if (low === null || candle.low.lt(low)) {
+      window.low = candle.low;
+    }
+    window.baseVolume = window.baseVolume.plus(candle.baseVolume);
+    window.quoteVolume = window.quoteVolume.plus(candle.quoteVolume);
+    window.tradeCount = window.tradeCount + candle.tradeCount;
+    if (candle.lastTradeTimestamp !== null) {
+      window.lastTradeTimestamp = candle.lastTradeTimestamp;
+    }
+  }
+  window.save();
+}
+
+/**
+ * Get the enabled 1h candle size
+ *
+ * @returns The candle size, or null if it's disabled
+ */
+function getTickerSize(): CandleSize | null {
+  const sizes = getEnabledCandleSizes(CANDLE_SIZE_CONFIG);
+  for (let i = 0; i < sizes.length; i++) {
+    if (sizes[i].timeframe == TIMEFRAME_HOUR && sizes[i].divisor == 1) {
+      return sizes[i];
+    }
+  }
+  return null;
+}
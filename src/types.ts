@@ -1,8 +1,39 @@
+// The timeframes a candle size can be built from, weeks start on Monday
+// 00:00 UTC and months are calendar months
+export const TIMEFRAME_MINUTE = "minute";
+export const TIMEFRAME_HOUR = "hour";
+export const TIMEFRAME_DAY = "day";
+export const TIMEFRAME_WEEK = "week";
+export const TIMEFRAME_MONTH = "month";
+
 /**
- * CandleSize is the type of the candle to capture
+ * CandleSize is the type of the candle to capture, a candle spans divisor
+ * units of the timeframe
  */
 export class CandleSize {
     interval: string;
     timeframe: string;
     divisor: number;
-}
\ No newline at end of file
+    enabled: boolean;
+}
+
+/**
+ * Asset is the display information for a denom from the asset registry
+ */
+export class Asset {
+    denom: string;
+    name: string;
+    symbol: string;
+    decimals: i32;
+    coingeckoId: string;
+    logoURI: string;
+
+    constructor(denom: string, name: string, symbol: string, decimals: i32, coingeckoId: string, logoURI: string) {
+        this.denom = denom;
+        this.name = name;
+        this.symbol = symbol;
+        this.decimals = decimals;
+        this.coingeckoId = coingeckoId;
+        this.logoURI = logoURI;
+    }
+}
@@ -0,0 +1,49 @@
+/**
+ * Runs a GraphQL query against the subgraph and resolves to its data
+ */
+export type QueryFn = <T>(query: string, variables?: Record<string, unknown>) => Promise<T>;
+
+/**
+ * GraphQLError is raised when the endpoint can't be reached or answers a
+ * query with errors
+ */
+export class GraphQLError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "GraphQLError";
+  }
+}
+
+interface GraphQLResponse<T> {
+  data?: T;
+  errors?: { message: string }[];
+}
+
+/**
+ * Create a client for a graph-node GraphQL endpoint
+ *
+ * @param url The subgraph's GraphQL endpoint.
+ *            Example: http://localhost:8000/subgraphs/name/osmosis-token-swaps
+ * @returns The query function
+ */
+export function createGraphQLClient(url: string): QueryFn {
+  return async <T>(query: string, variables: Record<string, unknown> = {}): Promise<T> => {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ query, variables }),
+    });
+    if (!response.ok) {
+      throw new GraphQLError(`${url} responded with ${response.status} ${response.statusText}`);
+    }
+
+    const body = (await response.json()) as GraphQLResponse<T>;
+    if (body.errors !== undefined && body.errors.length > 0) {
+      throw new GraphQLError(body.errors.map((error) => error.message).join(", "));
+    }
+    if (body.data === undefined) {
+      throw new GraphQLError(`${url} returned no data`);
+    }
+    return body.data;
+  };
+}
@@ -0,0 +1,168 @@
+import { QueryFn } from "./graphql";
+
+// The most results graph-node returns for a query
+const PAGE_SIZE = 1000;
+
+// The most bars a request is answered with. A range with more gets its
+// latest bars, the chart asks for the earlier ones as it scrolls back
+export const MAX_BARS = 5000;
+
+// The pool ID prefix of the USD series, their tickers are their pool ID
+const USD_SERIES_PREFIX = "calc-";
+
+const CANDLES_QUERY = `
+  query Candles($where: Candle_filter!, $first: Int!) {
+    candles(
+      where: $where
+      orderBy: timestamp
+      orderDirection: desc
+      first: $first
+    ) {
+      timestamp
+      open
+      high
+      low
+      close
+      quoteVolume
+    }
+  }
+`;
+
+const PREVIOUS_CANDLE_QUERY = `
+  query PreviousCandle($where: Candle_filter!) {
+    candles(
+      where: $where
+      orderBy: timestamp
+      orderDirection: desc
+      first: 1
+    ) {
+      timestamp
+    }
+  }
+`;
+
+interface CandleResult {
+  timestamp: string;
+  open: string;
+  high: string;
+  low: string;
+  close: string;
+  quoteVolume: string;
+}
+
+/**
+ * HistoryResponse is the UDF bars response, the bars are in columns
+ */
+export type HistoryResponse =
+  | { s: "ok"; t: number[]; o: number[]; h: number[]; l: number[]; c: number[]; v: number[] }
+  | { s: "no_data"; nextTime?: number };
+
+/**
+ * Get the bars of a ticker between two times. A ticker is a pair ID, or the
+ * pool ID of a token's USD series. Candles are paged by their
+ * timestamp, up to MAX_BARS of the latest in the range. With a countback
+ * the latest countback bars up to the end of the range are returned
+ * instead, whatever the start of the range
+ *
+ * @param query The subgraph query function
+ * @param ticker The pair ID or USD series pool ID
+ * @param interval The candle Interval
+ * @param from The start of the range in seconds, inclusive
+ * @param to The end of the range in seconds, inclusive
+ * @param countback The number of bars to return, if given
+ * @returns The bars, or the time of the latest bar before the range if it
+ *          has none
+ */
+export async function getHistory(
+  query: QueryFn,
+  ticker: string,
+  interval: string,
+  from: number,
+  to: number,
+  countback?: number
+): Promise<HistoryResponse> {
+  const series = { ...getSeriesFilter(ticker), interval };
+  const candles = countback === undefined
+    ? await getLatestCandles(query, series, from, to, MAX_BARS)
+    : await getLatestCandles(query, series, 0, to, Math.min(countback, MAX_BARS));
+
+  if (candles.length === 0 && countback !== undefined) {
+    return { s: "no_data" };
+  }
+  if (candles.length === 0) {
+    const { candles: previous } = await query<{ candles: { timestamp: string }[] }>(PREVIOUS_CANDLE_QUERY, {
+      where: { ...series, timestamp_lt: String(from) },
+    });
+    return previous.length > 0 ? { s: "no_data", nextTime: Number(previous[0].timestamp) } : { s: "no_data" };
+  }
+
+  return {
+    s: "ok",
+    t: candles.map((candle) => Number(candle.timestamp)),
+    o: candles.map((candle) => Number(candle.open)),
+    h: candles.map((candle) => Number(candle.high)),
+    l: candles.map((candle) => Number(candle.low)),
+    c: candles.map((candle) => Number(candle.close)),
+    v: candles.map((candle) => Number(candle.quoteVolume)),
+  };
+}
+
+/**
+ * Get the candle filter of a ticker's series, USD series have no pair and
+ * are told apart by their pool ID
+ *
+ * @param ticker The pair ID or USD series pool ID
+ * @returns The filter
+ */
+function getSeriesFilter(ticker: string): Record<string, string> {
+  return ticker.startsWith(USD_SERIES_PREFIX) ? { poolId: ticker } : { pair: ticker };
+}
+
+/**
+ * Get the latest candles in a range, oldest first, a page at a time
+ *
+ * @param query The subgraph query function
+ * @param series The candle filter of the series and interval
+ * @param from The start of the range in seconds, inclusive
+ * @param to The end of the range in seconds, inclusive
+ * @param count The most candles to get
+ * @returns The candles
+ */
+async function getLatestCandles(query: QueryFn, series: Record<string, string>, from: number, to: number, count: number): Promise<CandleResult[]> {
+  const candles: CandleResult[] = [];
+  let pageTo = to;
+  while (candles.length < count) {
+    const first = Math.min(PAGE_SIZE, count - candles.length);
+    const page = await getCandlePage(query, series, from, pageTo, first);
+    candles.push(...page);
+    if (page.length < first) {
+      break;
+    }
+    pageTo = Number(page[page.length - 1].timestamp) - 1;
+  }
+  return candles.reverse();
+}
+
+/**
+ * Get a page of candles in a range, latest first
+ *
+ * @param query The subgraph query function
+ * @param series The candle filter of the series and interval
+ * @param from The start of the range in seconds, inclusive
+ * @param to The end of the range in seconds, inclusive
+ * @param first The size of the page
+ * @returns The candles
+ */
+async function getCandlePage(
+  query: QueryFn,
+  series: Record<string, string>,
+  from: number,
+  to: number,
+  first: number
+): Promise<CandleResult[]> {
+  const { candles } = await query<{ candles: CandleResult[] }>(CANDLES_QUERY, {
+    where: { ...series, timestamp_gte: String(from), timestamp_lte: String(to) },
+    first,
+  });
+  return candles;
+}
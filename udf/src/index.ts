@@ -0,0 +1,13 @@
+import { createGraphQLClient } from "./graphql";
+import { createDatafeedServer } from "./server";
+
+// The subgraph's endpoint, as deployed by npm run deploy-local
+const DEFAULT_GRAPHQL_URL = "http://localhost:8000/subgraphs/name/osmosis-token-swaps";
+const DEFAULT_PORT = 8080;
+
+const graphqlURL = process.env.GRAPHQL_URL ?? DEFAULT_GRAPHQL_URL;
+const port = Number(process.env.PORT ?? DEFAULT_PORT);
+
+createDatafeedServer(createGraphQLClient(graphqlURL)).listen(port, () => {
+  console.log(`UDF datafeed listening on port ${port}, serving ${graphqlURL}`);
+});
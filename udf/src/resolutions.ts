@@ -0,0 +1,39 @@
+/**
+ * The TradingView resolutions the datafeed serves and the candle Interval
+ * each is served from. These follow CANDLE_SIZE_CONFIG in the subgraph's
+ * src/config.ts, remove the resolutions of candle sizes that are disabled
+ */
+const RESOLUTION_INTERVALS: Record<string, string> = {
+  "1": "MINUTE_1",
+  "5": "MINUTE_5",
+  "15": "MINUTE_15",
+  "30": "MINUTE_30",
+  "60": "HOUR_1",
+  "240": "HOUR_4",
+  "480": "HOUR_8",
+  "720": "HOUR_12",
+  "1D": "DAY_1",
+  "1W": "WEEK_1",
+  "1M": "MONTH_1",
+};
+
+// TradingView may leave out the count of single day, week and month
+// resolutions
+const RESOLUTION_ALIASES: Record<string, string> = {
+  D: "1D",
+  W: "1W",
+  M: "1M",
+};
+
+export const SUPPORTED_RESOLUTIONS: string[] = Object.keys(RESOLUTION_INTERVALS);
+
+/**
+ * Get the candle Interval for a TradingView resolution
+ *
+ * @param resolution The resolution. Example: 60
+ * @returns The Interval, or undefined if the resolution isn't supported
+ */
+export function getInterval(resolution: string): string | undefined {
+  const normalised = RESOLUTION_ALIASES[resolution] ?? resolution;
+  return RESOLUTION_INTERVALS[normalised];
+}
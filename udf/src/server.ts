@@ -0,0 +1,190 @@
+import { IncomingMessage, Server, ServerResponse, createServer } from "http";
+
+import { QueryFn } from "./graphql";
+import { getHistory } from "./history";
+import { SUPPORTED_RESOLUTIONS, getInterval } from "./resolutions";
+import { EXCHANGE, SYMBOL_TYPE, resolveSymbol, searchSymbols } from "./symbols";
+
+const DEFAULT_SEARCH_LIMIT = 30;
+
+/**
+ * RequestError is raised for requests the datafeed can't serve, it is
+ * answered with a UDF error and the status code
+ */
+export class RequestError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = "RequestError";
+    this.status = status;
+  }
+}
+
+type Handler = (query: QueryFn, params: URLSearchParams) => Promise<unknown>;
+
+const ROUTES: Record<string, Handler> = {
+  "/config": handleConfig,
+  "/symbols": handleSymbols,
+  "/search": handleSearch,
+  "/history": handleHistory,
+  "/time": handleTime,
+};
+
+/**
+ * Create the UDF datafeed server. The subgraph is reached through the query
+ * function, so the server can be pointed at graph-node or a mock of it
+ *
+ * @param query The subgraph query function
+ * @returns The server, it isn't listening yet
+ */
+export function createDatafeedServer(query: QueryFn): Server {
+  return createServer((request, response) => {
+    handleRequest(query, request, response).catch((error: Error) => {
+      const status = error instanceof RequestError ? error.status : 500;
+      sendJSON(response, status, { s: "error", errmsg: error.message });
+    });
+  });
+}
+
+/**
+ * Route a request to its handler and send the handler's result
+ *
+ * @param query The subgraph query function
+ * @param request The request
+ * @param response The response
+ */
+async function handleRequest(query: QueryFn, request: IncomingMessage, response: ServerResponse): Promise<void> {
+  const url = new URL(request.url ?? "/", "http://localhost");
+  const handler = ROUTES[url.pathname];
+  if (handler === undefined) {
+    throw new RequestError(`Unknown endpoint ${url.pathname}`, 404);
+  }
+
+  const result = await handler(query, url.searchParams);
+  if (typeof result === "string") {
+    response.writeHead(200, { "content-type": "text/plain", "access-control-allow-origin": "*" });
+    response.end(result);
+    return;
+  }
+  sendJSON(response, 200, result);
+}
+
+/**
+ * Describe the datafeed's capabilities
+ *
+ * @returns The datafeed configuration
+ */
+async function handleConfig(): Promise<unknown> {
+  return {
+    supported_resolutions: SUPPORTED_RESOLUTIONS,
+    supports_search: true,
+    supports_group_request: false,
+    supports_marks: false,
+    supports_timescale_marks: false,
+    supports_time: true,
+    exchanges: [{ value: EXCHANGE, name: EXCHANGE, desc: EXCHANGE }],
+    symbols_types: [{ name: SYMBOL_TYPE, value: SYMBOL_TYPE }],
+  };
+}
+
+/**
+ * Resolve the symbol parameter
+ *
+ * @param query The subgraph query function
+ * @param params The query parameters
+ */
+async function handleSymbols(query: QueryFn, params: URLSearchParams): Promise<unknown> {
+  const symbol = getParam(params, "symbol");
+  const info = await resolveSymbol(query, symbol);
+  if (info === undefined) {
+    throw new RequestError(`Unknown symbol ${symbol}`, 404);
+  }
+  return info;
+}
+
+/**
+ * Search the pairs for the query parameter
+ *
+ * @param query The subgraph query function
+ * @param params The query parameters
+ */
+async function handleSearch(query: QueryFn, params: URLSearchParams): Promise<unknown> {
+  const limit = params.has("limit") ? getNumberParam(params, "limit") : DEFAULT_SEARCH_LIMIT;
+  return searchSymbols(query, params.get("query") ?? "", limit);
+}
+
+/**
+ * Get the bars of the symbol parameter, which is a ticker, at the resolution
+ * parameter
+ *
+ * @param query The subgraph query function
+ * @param params The query parameters
+ */
+async function handleHistory(query: QueryFn, params: URLSearchParams): Promise<unknown> {
+  const resolution = getParam(params, "resolution");
+  const interval = getInterval(resolution);
+  if (interval === undefined) {
+    throw new RequestError(`Unsupported resolution ${resolution}`);
+  }
+  const countback = params.has("countback") ? getNumberParam(params, "countback") : undefined;
+  return getHistory(
+    query,
+    getParam(params, "symbol"),
+    interval,
+    getNumberParam(params, "from"),
+    getNumberParam(params, "to"),
+    countback
+  );
+}
+
+/**
+ * Get the server time in seconds
+ *
+ * @returns The time as text
+ */
+async function handleTime(): Promise<unknown> {
+  return String(Math.floor(Date.now() / 1000));
+}
+
+/**
+ * Get a required parameter
+ *
+ * @param params The query parameters
+ * @param name The name of the parameter
+ * @returns The value
+ */
+function getParam(params: URLSearchParams, name: string): string {
+  const value = params.get(name);
+  if (value === null || value === "") {
+    throw new RequestError(`Missing parameter ${name}`);
+  }
+  return value;
+}
+
+/**
+ * Get a required integer parameter
+ *
+ * @param params The query parameters
+ * @param name The name of the parameter
+ * @returns The value
+ */
+function getNumberParam(params: URLSearchParams, name: string): number {
+  const value = Number(getParam(params, name));
+  if (!Number.isInteger(value)) {
+    throw new RequestError(`Parameter ${name} must be an integer`);
+  }
+  return value;
+}
+
+/**
+ * Send a JSON response, any origin may read it as charts run in the browser
+ *
+ * @param response The response
+ * @param status The status code
+ * @param body The body
+ */
+function sendJSON(response: ServerResponse, status: number, body: unknown): void {
+  response.writeHead(status, { "content-type": "application/json", "access-control-allow-origin": "*" });
+  response.end(JSON.stringify(body));
+}
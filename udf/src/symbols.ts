@@ -0,0 +1,322 @@
+import { QueryFn } from "./graphql";
+import { SUPPORTED_RESOLUTIONS } from "./resolutions";
+
+export const EXCHANGE = "Osmosis";
+export const SYMBOL_TYPE = "crypto";
+
+// Prices are shown with this many significant digits
+const PRICE_SIGNIFICANT_DIGITS = 6;
+// The quote symbol of a token's USD series, priced by the pricing engine
+const USD_SYMBOL = "USD";
+// The pool ID prefix of the USD series
+const USD_SERIES_PREFIX = "calc-";
+// A pool suffix of a symbol, as in ATOM/OSMO:1
+const POOL_SUFFIX = /:(\d+)$/;
+
+const PAIR_FIELDS = `
+  id
+  symbol
+  poolId
+  poolType
+  pool {
+    tvlUSD
+    swapCount
+  }
+  baseAsset {
+    symbol
+    name
+  }
+  quoteAsset {
+    symbol
+    name
+  }
+  candles(first: 1, orderBy: timestamp, orderDirection: desc) {
+    close
+  }
+`;
+
+const PAIR_QUERY = `
+  query Pair($id: ID!) {
+    pair(id: $id) {${PAIR_FIELDS}}
+  }
+`;
+
+const PAIRS_BY_SYMBOL_QUERY = `
+  query PairsBySymbol($symbol: String!) {
+    pairs(where: { symbol: $symbol }, first: 100) {${PAIR_FIELDS}}
+  }
+`;
+
+const SEARCH_QUERY = `
+  query SearchPairs($query: String!, $first: Int!) {
+    pairs(where: { symbol_contains_nocase: $query }, first: $first, orderBy: symbol) {${PAIR_FIELDS}}
+  }
+`;
+
+const SERIES_FIELDS = `
+  poolId
+  base {
+    symbol
+    name
+  }
+  latest {
+    close
+  }
+`;
+
+const USD_SERIES_QUERY = `
+  query USDSeries($poolId: String!) {
+    candleSeries(where: { poolId: $poolId }, first: 1) {${SERIES_FIELDS}}
+  }
+`;
+
+const USD_SERIES_BY_SYMBOL_QUERY = `
+  query USDSeriesBySymbol($symbol: String!, $prefix: String!) {
+    candleSeries(where: { poolId_starts_with: $prefix, base_: { symbol: $symbol } }, first: 1) {${SERIES_FIELDS}}
+  }
+`;
+
+interface PairResult {
+  id: string;
+  symbol: string;
+  poolId: string | null;
+  poolType: string;
+  pool: { tvlUSD: string | null; swapCount: number } | null;
+  baseAsset: { symbol: string; name: string };
+  quoteAsset: { symbol: string; name: string };
+  candles: { close: string }[];
+}
+
+interface SeriesResult {
+  poolId: string;
+  base: { symbol: string; name: string };
+  latest: { close: string } | null;
+}
+
+/**
+ * SymbolInfo is the UDF description of a symbol, its ticker is the pair ID
+ */
+export interface SymbolInfo {
+  name: string;
+  ticker: string;
+  description: string;
+  type: string;
+  session: string;
+  timezone: string;
+  exchange: string;
+  listed_exchange: string;
+  minmov: number;
+  pricescale: number;
+  has_intraday: boolean;
+  has_weekly_and_monthly: boolean;
+  supported_resolutions: string[];
+  volume_precision: number;
+  data_status: string;
+}
+
+/**
+ * SearchResult is a UDF symbol search result
+ */
+export interface SearchResult {
+  symbol: string;
+  full_name: string;
+  description: string;
+  exchange: string;
+  ticker: string;
+  type: string;
+}
+
+/**
+ * Resolve a symbol to its pair. A symbol is a pair ID, as used in tickers,
+ * or the pair's symbols such as ATOM/OSMO, optionally followed by the pool
+ * as ATOM/OSMO:1. Without a pool the pair of the pool with the highest TVL
+ * is used, pools of the same or unknown TVL go by their swap count
+ *
+ * A token's USD candles resolve as ATOM/USD, their ticker is the series'
+ * pool ID
+ *
+ * @param query The subgraph query function
+ * @param symbol The symbol to resolve
+ * @returns The symbol info, or undefined if there is no such pair
+ */
+export async function resolveSymbol(query: QueryFn, symbol: string): Promise<SymbolInfo | undefined> {
+  if (symbol.startsWith(USD_SERIES_PREFIX)) {
+    const { candleSeries } = await query<{ candleSeries: SeriesResult[] }>(USD_SERIES_QUERY, { poolId: symbol });
+    return candleSeries.length > 0 ? toUSDSymbolInfo(candleSeries[0]) : undefined;
+  }
+
+  const byId = await query<{ pair: PairResult | null }>(PAIR_QUERY, { id: symbol });
+  if (byId.pair !== null) {
+    return toSymbolInfo(byId.pair);
+  }
+
+  // Denoms of tokens without a symbol contain slashes, so the pair's
+  // symbols are split on the last one
+  const poolMatch = POOL_SUFFIX.exec(symbol);
+  const poolId = poolMatch?.[1];
+  const pairSymbol = poolMatch === null ? symbol : symbol.slice(0, poolMatch.index);
+  const separator = pairSymbol.lastIndexOf("/");
+  if (separator <= 0 || separator === pairSymbol.length - 1) {
+    return undefined;
+  }
+  const base = pairSymbol.slice(0, separator);
+  const quote = pairSymbol.slice(separator + 1);
+
+  if (quote === USD_SYMBOL && poolId === undefined) {
+    const { candleSeries } = await query<{ candleSeries: SeriesResult[] }>(USD_SERIES_BY_SYMBOL_QUERY, {
+      symbol: base,
+      prefix: USD_SERIES_PREFIX,
+    });
+    return candleSeries.length > 0 ? toUSDSymbolInfo(candleSeries[0]) : undefined;
+  }
+
+  const { pairs } = await query<{ pairs: PairResult[] }>(PAIRS_BY_SYMBOL_QUERY, { symbol: `${base}-${quote}` });
+  const candidates = poolId === undefined ? pairs : pairs.filter((pair) => pair.poolId === poolId);
+  if (candidates.length === 0) {
+    return undefined;
+  }
+  const deepest = candidates.reduce((best, pair) => (compareLiquidity(pair, best) > 0 ? pair : best));
+  return toSymbolInfo(deepest);
+}
+
+/**
+ * Search the pairs whose symbol contains the query
+ *
+ * @param query The subgraph query function
+ * @param text The text to search for, / and - both separate the symbols
+ * @param limit The most results to return
+ * @returns The matching pairs
+ */
+export async function searchSymbols(query: QueryFn, text: string, limit: number): Promise<SearchResult[]> {
+  const { pairs } = await query<{ pairs: PairResult[] }>(SEARCH_QUERY, {
+    query: text.replaceAll("/", "-"),
+    first: limit,
+  });
+  return pairs.map((pair) => {
+    const name = getSymbolName(pair);
+    return {
+      symbol: name,
+      full_name: `${EXCHANGE}:${name}`,
+      description: getDescription(pair),
+      exchange: EXCHANGE,
+      ticker: pair.id,
+      type: SYMBOL_TYPE,
+    };
+  });
+}
+
+/**
+ * Describe a pair as a UDF symbol
+ *
+ * @param pair The pair
+ * @returns The symbol info
+ */
+function toSymbolInfo(pair: PairResult): SymbolInfo {
+  const close = pair.candles.length > 0 ? Number(pair.candles[0].close) : 0;
+  return describeSymbol(getSymbolName(pair), pair.id, getDescription(pair), close);
+}
+
+/**
+ * Describe a token's USD series as a UDF symbol
+ *
+ * @param series A series of the token's USD candles
+ * @returns The symbol info
+ */
+function toUSDSymbolInfo(series: SeriesResult): SymbolInfo {
+  const close = series.latest !== null ? Number(series.latest.close) : 0;
+  return describeSymbol(`${series.base.symbol}/${USD_SYMBOL}`, series.poolId, `${series.base.name} / US Dollar`, close);
+}
+
+/**
+ * Describe a symbol in UDF
+ *
+ * @param name The display name
+ * @param ticker The ticker bars are requested by
+ * @param description The description
+ * @param close A recent price, zero if it has none
+ * @returns The symbol info
+ */
+function describeSymbol(name: string, ticker: string, description: string, close: number): SymbolInfo {
+  return {
+    name,
+    ticker,
+    description,
+    type: SYMBOL_TYPE,
+    session: "24x7",
+    timezone: "Etc/UTC",
+    exchange: EXCHANGE,
+    listed_exchange: EXCHANGE,
+    minmov: 1,
+    pricescale: getPriceScale(close),
+    has_intraday: true,
+    has_weekly_and_monthly: true,
+    supported_resolutions: SUPPORTED_RESOLUTIONS,
+    volume_precision: 2,
+    data_status: "streaming",
+  };
+}
+
+/**
+ * Get the display name of a pair. Example: ATOM/OSMO:1
+ *
+ * @param pair The pair
+ * @returns The name
+ */
+function getSymbolName(pair: PairResult): string {
+  return `${pair.baseAsset.symbol}/${pair.quoteAsset.symbol}:${pair.poolId}`;
+}
+
+/**
+ * Get the description of a pair. Example: Cosmos Hub / Osmosis (GAMM pool 1)
+ *
+ * @param pair The pair
+ * @returns The description
+ */
+function getDescription(pair: PairResult): string {
+  return `${pair.baseAsset.name} / ${pair.quoteAsset.name} (${pair.poolType} pool ${pair.poolId})`;
+}
+
+/**
+ * Compare the liquidity of two pairs' pools by their TVL, then by their
+ * swap count, as the TVL of pools created before the subgraph's start block
+ * may not be known
+ *
+ * @param pair The pair
+ * @param other The pair to compare with
+ * @returns A positive number if the pair's pool is deeper, negative if it
+ *          is shallower and zero if they can't be told apart
+ */
+function compareLiquidity(pair: PairResult, other: PairResult): number {
+  const tvl = getTVL(pair) - getTVL(other);
+  if (tvl !== 0) {
+    return tvl;
+  }
+  return (pair.pool?.swapCount ?? 0) - (other.pool?.swapCount ?? 0);
+}
+
+/**
+ * Get the TVL of a pair's pool
+ *
+ * @param pair The pair
+ * @returns The TVL in USD, zero if the pair has no pool or its pool's TVL
+ *          isn't known
+ */
+function getTVL(pair: PairResult): number {
+  return pair.pool === null || pair.pool.tvlUSD === null ? 0 : Number(pair.pool.tvlUSD);
+}
+
+/**
+ * Get the price scale that shows a price with PRICE_SIGNIFICANT_DIGITS
+ * significant digits, TradingView takes it as a power of ten
+ *
+ * @param price A recent price of the pair, zero if it has none
+ * @returns The price scale
+ */
+function getPriceScale(price: number): number {
+  if (price <= 0) {
+    return 10 ** PRICE_SIGNIFICANT_DIGITS;
+  }
+  const integerDigits = Math.floor(Math.log10(price)) + 1;
+  const decimals = Math.min(Math.max(PRICE_SIGNIFICANT_DIGITS - integerDigits, 0), 16);
+  return 10 ** decimals;
+}
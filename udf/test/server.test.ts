@@ -0,0 +1,343 @@
+import assert from "node:assert/strict";
+import { IncomingMessage, Server, ServerResponse, createServer } from "node:http";
+import { AddressInfo } from "node:net";
+import { after, before, beforeEach, test } from "node:test";
+
+import { createGraphQLClient } from "../src/graphql";
+import { MAX_BARS } from "../src/history";
+import { createDatafeedServer } from "../src/server";
+
+const PAIR_ID = "uatom-uosmo-1";
+// The pool ID of ATOM's USD series, its ticker
+const USD_SERIES_ID = "calc-uatom-uusdc";
+const MINUTE = 60;
+// The mock's 1m candles, the first at START and one a minute after it
+const START = 1684500000;
+const CANDLE_COUNT = MAX_BARS + 500;
+
+interface MockCandle {
+  timestamp: string;
+  open: string;
+  high: string;
+  low: string;
+  close: string;
+  quoteVolume: string;
+}
+
+interface MockPair {
+  id: string;
+  symbol: string;
+  poolId: string;
+  poolType: string;
+  pool: { tvlUSD: string | null; swapCount: number } | null;
+  baseAsset: { symbol: string; name: string };
+  quoteAsset: { symbol: string; name: string };
+  candles: { close: string }[];
+}
+
+interface MockSeries {
+  poolId: string;
+  base: { symbol: string; name: string };
+  latest: { close: string } | null;
+}
+
+interface GraphQLRequest {
+  query: string;
+  variables: Record<string, any>;
+}
+
+const CANDLES: MockCandle[] = Array.from({ length: CANDLE_COUNT }, (_, i) => ({
+  timestamp: String(START + i * MINUTE),
+  open: "10",
+  high: "12",
+  low: "9",
+  close: String(10 + i),
+  quoteVolume: "100",
+}));
+
+const PAIRS: MockPair[] = [
+  mockPair(PAIR_ID, "1", "1000000"),
+  mockPair("uatom-uosmo-2", "2", "5000000"),
+  mockPair("uatom-uosmo-3", "3", null),
+  // Pools created before the start block have no TVL
+  { ...mockPair("ustars-uosmo-4", "4", null, 10), symbol: "STARS-OSMO" },
+  { ...mockPair("ustars-uosmo-5", "5", null, 25), symbol: "STARS-OSMO" },
+  { ...mockPair("factory/osmo1abc/ion-uosmo-6", "6", null), symbol: "factory/osmo1abc/ion-OSMO" },
+];
+
+const SERIES: MockSeries[] = [
+  { poolId: USD_SERIES_ID, base: { symbol: "ATOM", name: "Cosmos Hub" }, latest: { close: "9.87" } },
+];
+
+/**
+ * Create a mock ATOM/OSMO pair
+ *
+ * @param id The pair ID
+ * @param poolId The pool ID
+ * @param tvlUSD The TVL of the pool, null if it isn't known
+ * @param swapCount The swap count of the pool
+ * @returns The pair
+ */
+function mockPair(id: string, poolId: string, tvlUSD: string | null, swapCount = 0): MockPair {
+  return {
+    id,
+    symbol: "ATOM-OSMO",
+    poolId,
+    poolType: "GAMM",
+    pool: { tvlUSD, swapCount },
+    baseAsset: { symbol: "ATOM", name: "Cosmos Hub" },
+    quoteAsset: { symbol: "OSMO", name: "Osmosis" },
+    candles: [{ close: "10.5" }],
+  };
+}
+
+/**
+ * Answer a query as graph-node would from the mock's pairs and candles. The
+ * queries are told apart by their operation name
+ *
+ * @param request The GraphQL request
+ * @returns The data
+ */
+function resolve({ query, variables }: GraphQLRequest): unknown {
+  const operation = /query (\w+)/.exec(query)?.[1];
+  switch (operation) {
+    case "Candles": {
+      const { where } = variables;
+      const candles = CANDLES.filter(
+        (candle) =>
+          isMockSeries(where) &&
+          where.interval === "MINUTE_1" &&
+          Number(candle.timestamp) >= Number(where.timestamp_gte) &&
+          Number(candle.timestamp) <= Number(where.timestamp_lte)
+      );
+      return { candles: candles.reverse().slice(0, Number(variables.first)) };
+    }
+    case "PreviousCandle": {
+      const { where } = variables;
+      const previous = CANDLES.filter((candle) => isMockSeries(where) && Number(candle.timestamp) < Number(where.timestamp_lt));
+      return { candles: previous.slice(-1).map(({ timestamp }) => ({ timestamp })) };
+    }
+    case "USDSeries":
+      return { candleSeries: SERIES.filter((series) => series.poolId === variables.poolId) };
+    case "USDSeriesBySymbol":
+      return {
+        candleSeries: SERIES.filter((series) => series.poolId.startsWith(variables.prefix) && series.base.symbol === variables.symbol),
+      };
+    case "Pair":
+      return { pair: PAIRS.find((pair) => pair.id === variables.id) ?? null };
+    case "PairsBySymbol":
+      return { pairs: PAIRS.filter((pair) => pair.symbol === variables.symbol) };
+    case "SearchPairs": {
+      const text = String(variables.query).toLowerCase();
+      return { pairs: PAIRS.filter((pair) => pair.symbol.toLowerCase().includes(text)).slice(0, Number(variables.first)) };
+    }
+    default:
+      throw new Error(`Unexpected query ${operation}`);
+  }
+}
+
+/**
+ * Check if a candle filter is of the series the mock has candles of, the
+ * pair's and ATOM's USD series share them
+ *
+ * @param where The candle filter
+ * @returns True if the mock has its candles
+ */
+function isMockSeries(where: Record<string, string>): boolean {
+  return where.pair === PAIR_ID || where.poolId === USD_SERIES_ID;
+}
+
+let graphNode: Server;
+let datafeed: Server;
+let datafeedURL: string;
+let requests: GraphQLRequest[] = [];
+
+/**
+ * Start a server on a free port
+ *
+ * @param server The server
+ * @returns Its URL
+ */
+async function listen(server: Server): Promise<string> {
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+}
+
+/**
+ * Answer a GraphQL request to the mock graph-node
+ *
+ * @param request The request
+ * @param response The response
+ */
+async function handleGraphQL(request: IncomingMessage, response: ServerResponse): Promise<void> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of request) {
+    chunks.push(chunk as Buffer);
+  }
+  const body = JSON.parse(Buffer.concat(chunks).toString("utf8")) as GraphQLRequest;
+  requests.push(body);
+  response.writeHead(200, { "content-type": "application/json" });
+  response.end(JSON.stringify({ data: resolve(body) }));
+}
+
+/**
+ * Make a request to the datafeed
+ *
+ * @param path The path and query string
+ * @returns The status and parsed body
+ */
+async function get(path: string): Promise<{ status: number; body: any }> {
+  const response = await fetch(`${datafeedURL}${path}`);
+  return { status: response.status, body: await response.json() };
+}
+
+before(async () => {
+  graphNode = createServer((request, response) => void handleGraphQL(request, response));
+  const graphNodeURL = await listen(graphNode);
+  datafeed = createDatafeedServer(createGraphQLClient(graphNodeURL));
+  datafeedURL = await listen(datafeed);
+});
+
+after(() => {
+  datafeed.close();
+  graphNode.close();
+});
+
+beforeEach(() => {
+  requests = [];
+});
+
+test("serves a range of bars across pages, oldest first", async () => {
+  const from = START + 100 * MINUTE;
+  const to = START + 2599 * MINUTE;
+  const { status, body } = await get(`/history?symbol=${PAIR_ID}&resolution=1&from=${from}&to=${to}`);
+  assert.equal(status, 200);
+  assert.equal(body.s, "ok");
+  assert.equal(body.t.length, 2500);
+  assert.equal(body.t[0], from);
+  assert.equal(body.t[body.t.length - 1], to);
+  assert.equal(body.c[0], 110);
+  // Three pages of 1000, the last one short
+  assert.equal(requests.length, 3);
+});
+
+test("caps a range at its latest bars", async () => {
+  const to = START + (CANDLE_COUNT - 1) * MINUTE;
+  const { body } = await get(`/history?symbol=${PAIR_ID}&resolution=1&from=${START}&to=${to}`);
+  assert.equal(body.s, "ok");
+  assert.equal(body.t.length, MAX_BARS);
+  assert.equal(body.t[0], START + (CANDLE_COUNT - MAX_BARS) * MINUTE);
+  assert.equal(body.t[body.t.length - 1], to);
+  assert.equal(requests.length, MAX_BARS / 1000);
+});
+
+test("serves the latest countback bars whatever the start of the range", async () => {
+  const to = START + 1999 * MINUTE;
+  const { body } = await get(`/history?symbol=${PAIR_ID}&resolution=1&from=${to}&to=${to}&countback=1500`);
+  assert.equal(body.t.length, 1500);
+  assert.equal(body.t[0], START + 500 * MINUTE);
+  assert.equal(body.t[body.t.length - 1], to);
+});
+
+test("points to the latest bar before a range without bars", async () => {
+  const later = START + CANDLE_COUNT * MINUTE;
+  const { body } = await get(`/history?symbol=${PAIR_ID}&resolution=1&from=${later}&to=${later + 3600}`);
+  assert.deepEqual(body, { s: "no_data", nextTime: START + (CANDLE_COUNT - 1) * MINUTE });
+});
+
+test("has no next time before the first bar", async () => {
+  const { body } = await get(`/history?symbol=${PAIR_ID}&resolution=1&from=${START - 3600}&to=${START - 1}`);
+  assert.deepEqual(body, { s: "no_data" });
+});
+
+test("rejects resolutions without candles", async () => {
+  const { status, body } = await get(`/history?symbol=${PAIR_ID}&resolution=3&from=${START}&to=${START + 3600}`);
+  assert.equal(status, 400);
+  assert.deepEqual(body, { s: "error", errmsg: "Unsupported resolution 3" });
+});
+
+test("resolves a pair ID", async () => {
+  const { status, body } = await get(`/symbols?symbol=${PAIR_ID}`);
+  assert.equal(status, 200);
+  assert.equal(body.name, "ATOM/OSMO:1");
+  assert.equal(body.ticker, PAIR_ID);
+  assert.equal(body.description, "Cosmos Hub / Osmosis (GAMM pool 1)");
+  // 10.5 is shown with 6 significant digits
+  assert.equal(body.pricescale, 10000);
+});
+
+test("resolves a pair's symbols to the pool with the highest TVL", async () => {
+  const { body } = await get("/symbols?symbol=ATOM/OSMO");
+  assert.equal(body.ticker, "uatom-uosmo-2");
+});
+
+test("resolves a pair's symbols in a given pool", async () => {
+  const { body } = await get("/symbols?symbol=ATOM/OSMO:3");
+  assert.equal(body.ticker, "uatom-uosmo-3");
+});
+
+test("answers unknown symbols with a 404", async () => {
+  const { status, body } = await get("/symbols?symbol=ATOM/USDC");
+  assert.equal(status, 404);
+  assert.deepEqual(body, { s: "error", errmsg: "Unknown symbol ATOM/USDC" });
+});
+
+test("searches pairs by their symbols", async () => {
+  const { body } = await get("/search?query=atom/osmo&limit=2");
+  assert.deepEqual(body, [
+    {
+      symbol: "ATOM/OSMO:1",
+      full_name: "Osmosis:ATOM/OSMO:1",
+      description: "Cosmos Hub / Osmosis (GAMM pool 1)",
+      exchange: "Osmosis",
+      ticker: PAIR_ID,
+      type: "crypto",
+    },
+    {
+      symbol: "ATOM/OSMO:2",
+      full_name: "Osmosis:ATOM/OSMO:2",
+      description: "Cosmos Hub / Osmosis (GAMM pool 2)",
+      exchange: "Osmosis",
+      ticker: "uatom-uosmo-2",
+      type: "crypto",
+    },
+  ]);
+  assert.deepEqual(requests[0].variables, { query: "atom-osmo", first: 2 });
+});
+
+test("resolves pools of unknown TVL by their swap count", async () => {
+  const { body } = await get("/symbols?symbol=STARS/OSMO");
+  assert.equal(body.ticker, "ustars-uosmo-5");
+});
+
+test("splits a pair's symbols on the last slash, as denoms contain them", async () => {
+  const { body } = await get("/symbols?symbol=factory/osmo1abc/ion/OSMO:6");
+  assert.equal(body.ticker, "factory/osmo1abc/ion-uosmo-6");
+  assert.deepEqual(requests[1].variables, { symbol: "factory/osmo1abc/ion-OSMO" });
+});
+
+test("resolves a token's USD series by its symbol and its ticker", async () => {
+  const bySymbol = await get("/symbols?symbol=ATOM/USD");
+  assert.equal(bySymbol.body.name, "ATOM/USD");
+  assert.equal(bySymbol.body.ticker, USD_SERIES_ID);
+  assert.equal(bySymbol.body.description, "Cosmos Hub / US Dollar");
+
+  const byTicker = await get(`/symbols?symbol=${USD_SERIES_ID}`);
+  assert.deepEqual(byTicker.body, bySymbol.body);
+});
+
+test("serves the bars of a USD series by its pool ID", async () => {
+  const { body } = await get(`/history?symbol=${USD_SERIES_ID}&resolution=1&from=${START}&to=${START + 59 * MINUTE}`);
+  assert.equal(body.t.length, 60);
+  assert.deepEqual(requests[0].variables.where, {
+    poolId: USD_SERIES_ID,
+    interval: "MINUTE_1",
+    timestamp_gte: String(START),
+    timestamp_lte: String(START + 59 * MINUTE),
+  });
+});
+
+test("searches with every slash as a separator", async () => {
+  await get("/search?query=factory/osmo1abc/ion");
+  assert.deepEqual(requests[0].variables, { query: "factory-osmo1abc-ion", first: 30 });
+});